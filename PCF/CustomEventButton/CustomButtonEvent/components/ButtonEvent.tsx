@@ -1,5 +1,6 @@
 import * as React from 'react'; 
-import { Label, DefaultButton } from '@fluentui/react'; 
+import { DefaultButton, HighContrastSelector, getTheme } from '@fluentui/react'; 
+import { getButtonColours } from './ButtonTheme';
 
 // Props interface expects a parameter object for the first event
 export interface IButtonEventProps {
@@ -9,6 +10,7 @@ export interface IButtonEventProps {
     textColour?: string;
     color?: string;
     tooltip?: string;
+    isRtl?: boolean;
     onButtonClick?: (params: { Id: string; Name: string }) => void;
 }
 
@@ -16,31 +18,45 @@ export interface IButtonEventProps {
 export const ButtonEvent: React.FunctionComponent<IButtonEventProps> = ({
     Id = "",
     Name = "",
-    text = "Click me",
-    textColour = "#ffffff",
-    color = "#0078d4",
-    tooltip = "Click to execute custom action",
+    text = "",
+    textColour,
+    color,
+    tooltip,
+    isRtl = false,
     onButtonClick
 }) => {
-    const [isHovered, setIsHovered] = React.useState(false);
-    const hoverColor = "#005a9e"; // Change this to your desired hover color
+    const colours = getButtonColours(color || getTheme().palette.themePrimary, textColour);
     return (
-        <div>
+        <div dir={isRtl ? "rtl" : "ltr"}>
             <DefaultButton
                 onClick={() => {
                     if (onButtonClick) {
                         onButtonClick({ Id, Name });
                     }
                 }}
-                style={{
-                    marginRight: "8px",
-                    color: textColour,
-                    backgroundColor: isHovered ? hoverColor : color,
-                    transition: "background-color 0.2s"
+                styles={{
+                    root: {
+                        marginInlineEnd: "8px",
+                        color: colours.text,
+                        backgroundColor: colours.rest,
+                        borderColor: colours.rest,
+                        transition: "background-color 0.2s",
+                        // High contrast keeps the system button colours instead of the configured ones
+                        selectors: { [HighContrastSelector]: { color: "ButtonText", backgroundColor: "ButtonFace", borderColor: "ButtonText" } }
+                    },
+                    rootHovered: {
+                        color: colours.text,
+                        backgroundColor: colours.hover,
+                        borderColor: colours.hover,
+                        selectors: { [HighContrastSelector]: { color: "HighlightText", backgroundColor: "Highlight", borderColor: "Highlight" } }
+                    },
+                    rootPressed: {
+                        color: colours.text,
+                        backgroundColor: colours.pressed,
+                        borderColor: colours.pressed
+                    }
                 }}
                 title={tooltip}
-                onMouseEnter={() => setIsHovered(true)}
-                onMouseLeave={() => setIsHovered(false)}
             >
                 {text}
             </DefaultButton>
@@ -0,0 +1,54 @@
+import { getTheme, getColorFromString, getColorFromRGBA, getContrastRatio, IColor } from '@fluentui/react';
+
+// Button colours: rest, hover and pressed shades of one base colour, and readable text on it
+export interface IButtonColours {
+    rest: string;
+    hover: string;
+    pressed: string;
+    text: string;
+}
+
+/**
+ * Brand colour of the host app: the Fluent v9 tokens of the modern look when the platform
+ * provides them, the loaded Fluent theme otherwise
+ */
+export function getHostBrandColour(context: ComponentFramework.Context<unknown>): string {
+    const design = context.fluentDesignLanguage;
+    return design && design.tokenTheme ? design.tokenTheme.colorBrandBackground : getTheme().palette.themePrimary;
+}
+
+/**
+ * Computes the button colours from a base colour. Hover and pressed are darker shades, or lighter
+ * ones for very dark colours, so any configured colour keeps visible states.
+ * @param base Any CSS colour, e.g. "#0078d4" or "green"
+ * @param text Configured text colour; readable black or white when empty
+ */
+export function getButtonColours(base: string, text?: string): IButtonColours {
+    const colour = getColorFromString(base);
+    if (!colour) {
+        return { rest: base, hover: base, pressed: base, text: text || "#ffffff" };
+    }
+
+    const towards = (0.299 * colour.r + 0.587 * colour.g + 0.114 * colour.b) < 40 ? 255 : 0;
+    const mix = (amount: number): string => getColorFromRGBA({
+        r: Math.round(colour.r + (towards - colour.r) * amount),
+        g: Math.round(colour.g + (towards - colour.g) * amount),
+        b: Math.round(colour.b + (towards - colour.b) * amount),
+        a: colour.a === undefined ? 100 : colour.a
+    }).str;
+
+    return {
+        rest: colour.str,
+        hover: mix(0.15),
+        pressed: mix(0.3),
+        text: text || getReadableText(colour)
+    };
+}
+
+function getReadableText(colour: IColor): string {
+    const white = getColorFromString("#ffffff") as IColor;
+    const black = getColorFromString("#000000") as IColor;
+    // White text as on Fluent's own buttons whenever it is readable (WCAG AA), otherwise the better of the two
+    const onWhite = getContrastRatio(colour, white);
+    return onWhite >= 4.5 || onWhite >= getContrastRatio(colour, black) ? "#ffffff" : "#000000";
+}
@@ -2,6 +2,13 @@ import * as React from "react";
 import * as ReactDOM from "react-dom";
 import { IInputs, IOutputs } from "./generated/ManifestTypes";
 import { ButtonEvent, IButtonEventProps } from "./components/ButtonEvent";
+import { getHostBrandColour } from "./components/ButtonTheme";
+
+// English text for keys the platform cannot resolve from the resx files (for example in the test harness)
+const defaultStrings: Record<string, string> = {
+    ButtonEvent_DefaultText: "Click me",
+    ButtonEvent_DefaultTooltip: "Click to execute custom action"
+};
 
 export class TECCustomEventButton implements ComponentFramework.StandardControl<IInputs, IOutputs> {
     private container: HTMLDivElement | null = null;
@@ -20,10 +27,11 @@ export class TECCustomEventButton implements ComponentFramework.StandardControl<
         // Read the PCF input properties
         const id = context.parameters.Id.raw || "";
         const name = context.parameters.Name.raw || "";
-        const buttonText = context.parameters.buttonText.raw || "Click me";
-        const buttonTextColour = context.parameters.buttonTextColour.raw || "#ffffff";
-        const buttonColor = context.parameters.buttonColor.raw || "#0078d4";
-        const buttonTooltip = context.parameters.buttonTooltip.raw || "Click to execute custom action";
+        const buttonText = context.parameters.buttonText.raw || this.getString(context, "ButtonEvent_DefaultText");
+        // Without configured colours the button follows the app theme, with readable text on it
+        const buttonTextColour = context.parameters.buttonTextColour.raw || "";
+        const buttonColor = context.parameters.buttonColor.raw || getHostBrandColour(context);
+        const buttonTooltip = context.parameters.buttonTooltip.raw || this.getString(context, "ButtonEvent_DefaultTooltip");
 
         // Prepare props for your React component
         const props: IButtonEventProps & { text: string; textColour: string; color: string; tooltip: string } = {
@@ -33,13 +41,23 @@ export class TECCustomEventButton implements ComponentFramework.StandardControl<
             text: buttonText,
             textColour: buttonTextColour,
             color: buttonColor,
-            tooltip: buttonTooltip
+            tooltip: buttonTooltip,
+            isRtl: context.userSettings.isRTL
         };
 
         // Render the React component into the container
         ReactDOM.render(React.createElement(ButtonEvent, props), this.container);
     }
     
+    /**
+     * Reads a string from the resx file of the user's language, falling back to English
+     */
+    private getString(context: ComponentFramework.Context<IInputs>, key: string): string {
+        const value = context.resources.getString(key);
+        // The platform answers with the key itself when the resx file has no such entry
+        return value && value !== key ? value : defaultStrings[key];
+    }
+
     public getOutputs(): IOutputs { return {}; }
 
     public destroy(): void {
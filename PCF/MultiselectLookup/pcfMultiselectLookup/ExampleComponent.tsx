@@ -1,6 +1,6 @@
 import * as React from 'react';
 import { Stack, Text, Separator } from '@fluentui/react';
-import { SystemUserLookup, useSystemUserLookup, SystemUser } from './helpers';
+import { SystemUserLookup, useSystemUserLookup, SystemUser, LocalizedStrings } from './helpers';
 
 interface ExampleComponentProps {
     context: ComponentFramework.Context<any>;
@@ -9,6 +9,7 @@ interface ExampleComponentProps {
 export const ExampleSystemUserComponent: React.FC<ExampleComponentProps> = ({ context }) => {
     const [selectedUsersFromComponent, setSelectedUsersFromComponent] = React.useState<SystemUser[]>([]);
     const [selectedUsersFromHook, setSelectedUsersFromHook] = React.useState<SystemUser[]>([]);
+    const strings = React.useMemo(() => new LocalizedStrings(context), [context]);
 
     // Example using the hook
     const {
@@ -49,7 +50,7 @@ export const ExampleSystemUserComponent: React.FC<ExampleComponentProps> = ({ co
             {/* Example 1: Using the React Component */}
             <Stack tokens={{ childrenGap: 10 }}>
                 <Text variant="large">Example 1: React Component</Text>
-                <Text>Selected users: {selectedUsersFromComponent.map(u => `${u.firstname} ${u.lastname}`.trim()).join(', ')}</Text>
+                <Text>{strings.plural('UsersSelected', selectedUsersFromComponent.length, selectedUsersFromComponent.map(u => `${u.firstname} ${u.lastname}`.trim()).join(', '))}</Text>
                 <SystemUserLookup
                     context={context}
                     allowMultipleSelection={true}
@@ -62,26 +63,27 @@ export const ExampleSystemUserComponent: React.FC<ExampleComponentProps> = ({ co
             {/* Example 2: Using the Hook */}
             <Stack tokens={{ childrenGap: 10 }}>
                 <Text variant="large">Example 2: Custom Implementation with Hook</Text>
-                <Text>Selected users: {selectedUsersFromHook.map(u => `${u.firstname} ${u.lastname}`.trim()).join(', ')}</Text>
+                <Text>{strings.plural('UsersSelected', selectedUsersFromHook.length, selectedUsersFromHook.map(u => `${u.firstname} ${u.lastname}`.trim()).join(', '))}</Text>
                 
-                {error && <Text style={{ color: 'red' }}>Error: {error}</Text>}
+                {error && <Text style={{ color: 'red' }}>{error}</Text>}
                 
                 <div>
                     <input
                         type="text"
-                        placeholder="Search users..."
+                        placeholder={strings.get('LookupSearchPlaceholder')}
+                        aria-label={strings.get('SearchLabel')}
                         onChange={(e) => handleSearchFromHook(e.target.value)}
                         style={{ marginBottom: 10, padding: 8, width: 300 }}
                     />
                 </div>
 
                 {loading ? (
-                    <Text>Loading...</Text>
+                    <Text>{strings.get('LoadingUsers')}</Text>
                 ) : (
                     <div>
                         <Text>
-                            Page {pagination.currentPage} of {pagination.totalPages} 
-                            ({pagination.totalRecords} total records)
+                            {strings.get('PageOf', pagination.currentPage, pagination.totalPages)} •{' '}
+                            {strings.get('ShowingUsers', users.length, pagination.totalRecords)}
                         </Text>
                         
                         <div style={{ marginTop: 10 }}>
@@ -90,13 +92,13 @@ export const ExampleSystemUserComponent: React.FC<ExampleComponentProps> = ({ co
                                 disabled={!pagination.hasPreviousPage}
                                 style={{ marginRight: 10 }}
                             >
-                                Previous
+                                {strings.get('Previous')}
                             </button>
                             <button 
                                 onClick={actions.nextPage} 
                                 disabled={!pagination.hasNextPage}
                             >
-                                Next
+                                {strings.get('Next')}
                             </button>
                         </div>
 
@@ -0,0 +1,244 @@
+import { ReactElement } from 'react';
+import { MultiselectLookup } from '../index';
+import { IInputs, IOutputs } from '../generated/ManifestTypes';
+import { Recipient, userToRecipient, parseRecipientDocument } from '../helpers';
+import { InMemoryWebApi, FakeControlHost, FakeControlHostOptions } from '../testing';
+
+interface RenderedControl {
+    props: {
+        initialRecipients: Recipient[];
+        onRecipientsChanged: (recipients: Recipient[]) => void;
+    };
+}
+
+function user(firstname: string, lastname: string, id: string): Recipient {
+    return userToRecipient({
+        systemuserid: id,
+        firstname,
+        lastname,
+        internalemailaddress: `${firstname}.${lastname}@contoso.com`.toLowerCase()
+    });
+}
+
+const nora = user('Nora', 'Khan', '11111111-0000-4000-a000-000000000001');
+const ivan = user('Ivan', 'Chen', '11111111-0000-4000-a000-000000000002');
+
+/**
+ * Starts the control on a form and returns a function that picks recipients as the user would
+ */
+function start(options: FakeControlHostOptions = {}) {
+    const host = new FakeControlHost<IInputs>({ ...options, parameters: { selectedEmails: '', ...options.parameters } });
+    const control = new MultiselectLookup();
+    control.init(host.context, host.notifyOutputChanged, {});
+
+    const render = (): RenderedControl => control.updateView(host.context) as ReactElement as unknown as RenderedControl;
+    let element = render();
+
+    const pick = (recipients: Recipient[]): IOutputs => {
+        element.props.onRecipientsChanged(recipients);
+        const outputs = control.getOutputs();
+        host.applyOutputs(outputs as Record<string, unknown>);
+        element = render();
+        return outputs;
+    };
+
+    return { host, control, render, pick };
+}
+
+describe('MultiselectLookup selection outputs', () => {
+    it('writes the picked recipients to both columns', () => {
+        const { host, pick } = start();
+
+        const outputs = pick([nora, ivan]);
+
+        expect(host.outputNotifications).toBeGreaterThan(0);
+        expect(outputs.selectedEmails).toBe('nora.khan@contoso.com;ivan.chen@contoso.com');
+        expect(parseRecipientDocument(outputs.selectedRecipients)!.map(recipient => recipient.id)).toEqual([nora.id, ivan.id]);
+    });
+
+    it('reads the recipients back from the document on the next load', () => {
+        const first = start();
+        const outputs = first.pick([nora, ivan]);
+
+        const second = start({ parameters: { selectedEmails: outputs.selectedEmails, selectedRecipients: outputs.selectedRecipients } });
+
+        expect(second.control.getOutputs().selectedRecipients).toBe(outputs.selectedRecipients);
+        expect(second.control.getSelectedEmails()).toBe(outputs.selectedEmails);
+    });
+
+    it('falls back to the emails for records saved without a document', () => {
+        const { control, render } = start({ parameters: { selectedEmails: 'nora.khan@contoso.com;someone@fabrikam.com' } });
+
+        const recipients = render().props.initialRecipients;
+
+        expect(recipients.map(recipient => recipient.email)).toEqual(['nora.khan@contoso.com', 'someone@fabrikam.com']);
+        // Nothing is written until the selection changes
+        expect(control.getOutputs().selectedRecipients).toBe('');
+    });
+
+    it('re-aligns the document when a script changes the emails', () => {
+        const { host, control, pick, render } = start();
+        pick([nora, ivan]);
+        const notifications = host.outputNotifications;
+
+        host.setParameter('selectedEmails', 'ivan.chen@contoso.com');
+        render();
+
+        const outputs = control.getOutputs();
+        expect(host.outputNotifications).toBeGreaterThan(notifications);
+        expect(outputs.selectedEmails).toBe('ivan.chen@contoso.com');
+        // The known recipient keeps its ID and name
+        expect(parseRecipientDocument(outputs.selectedRecipients)).toEqual([expect.objectContaining({ id: ivan.id, displayName: 'Ivan Chen' })]);
+    });
+});
+
+describe('MultiselectLookup Forward To output', () => {
+    it('writes YES to a text column when recipients are picked', () => {
+        const { pick } = start();
+
+        expect(pick([nora]).forwardTo).toBe('YES');
+    });
+
+    it('leaves the column alone while the decision does not change', () => {
+        const { control, pick } = start();
+        pick([nora]);
+
+        expect('forwardTo' in control.getOutputs()).toBe(false);
+    });
+
+    it('writes the configured choice value to a choice column', () => {
+        const { pick } = start({
+            parameterTypes: { forwardTo: 'OptionSet' },
+            parameters: { forwardTo: 900000002, forwardToYesValue: '900000000', forwardToNoValue: '900000001', forwardToUnsetValue: '900000002' }
+        });
+
+        expect(pick([nora]).forwardTo).toBe(900000000);
+        expect(pick([]).forwardTo).toBe(900000002);
+    });
+
+    it('does not write a choice column without configured values', () => {
+        const { pick } = start({ parameterTypes: { forwardTo: 'OptionSet' } });
+
+        const outputs = pick([nora]);
+
+        expect('forwardTo' in outputs).toBe(false);
+        expect(outputs.selectedEmails).toBe('nora.khan@contoso.com');
+    });
+
+    it('writes true to a two options column', () => {
+        const { pick } = start({ parameterTypes: { forwardTo: 'TwoOptions' } });
+
+        expect(pick([nora]).forwardTo).toBe(true);
+    });
+
+    it('sets a two options column that starts at No when recipients are picked', () => {
+        const { pick } = start({ parameterTypes: { forwardTo: 'TwoOptions' }, parameters: { forwardTo: false } });
+
+        const picked = pick([nora]);
+        expect(picked.forwardTo).toBe(true);
+        expect(picked.isValid).toBe(true);
+
+        const cleared = pick([]);
+        expect(cleared.forwardTo).toBe(false);
+        expect(cleared.isValid).toBe(true);
+    });
+
+    it('keeps a two options No chosen on the form', () => {
+        const { host, pick, render } = start({ parameterTypes: { forwardTo: 'TwoOptions' }, parameters: { forwardTo: false } });
+        host.setParameter('forwardTo', true);
+        render();
+        host.setParameter('forwardTo', false);
+        render();
+
+        const outputs = pick([nora]);
+
+        expect('forwardTo' in outputs).toBe(false);
+        expect(outputs.validationMessage).toBe('Forward To is set to No: set it to Yes or remove the recipients');
+    });
+
+    it('keeps an explicit No and reports the conflict', () => {
+        const { pick } = start({ parameters: { forwardTo: 'NO' } });
+
+        const outputs = pick([nora]);
+
+        expect('forwardTo' in outputs).toBe(false);
+        expect(outputs.isValid).toBe(false);
+        expect(outputs.validationMessage).toBe('Forward To is set to No: set it to Yes or remove the recipients');
+    });
+
+    it('adopts a decision made on the form', () => {
+        const { host, control, pick, render } = start();
+        pick([nora]);
+
+        host.setParameter('forwardTo', 'NO');
+        render();
+
+        expect(control.getOutputs().validationMessage).toBe('Forward To is set to No: set it to Yes or remove the recipients');
+    });
+});
+
+describe('MultiselectLookup validity outputs', () => {
+    it('requires recipients once Forward To is Yes', () => {
+        const { host, control, render } = start();
+
+        host.setParameter('forwardTo', 'YES');
+        render();
+
+        const outputs = control.getOutputs();
+        expect(outputs.isValid).toBe(false);
+        expect(outputs.validationMessage).toBe('Select at least one recipient to forward this record');
+    });
+
+    it('checks the allowed domains and clears the message once fixed', () => {
+        const { pick } = start({ parameters: { allowedDomains: 'contoso.com' } });
+        const outsider = user('Ana', 'Silva', '11111111-0000-4000-a000-000000000003');
+        outsider.email = 'ana.silva@fabrikam.com';
+
+        const blocked = pick([nora, outsider]);
+        expect(blocked.isValid).toBe(false);
+        expect(blocked.validationMessage).toContain('Ana Silva');
+
+        const fixed = pick([nora]);
+        expect(fixed.isValid).toBe(true);
+        expect(fixed.validationMessage).toBe('');
+    });
+
+    it('notifies the form when a rule change alters the message', () => {
+        const { host, control, pick, render } = start();
+        pick([nora, ivan]);
+        const notifications = host.outputNotifications;
+
+        host.setParameter('maxRecipients', 1);
+        render();
+
+        expect(host.outputNotifications).toBe(notifications + 1);
+        expect(control.getOutputs().isValid).toBe(false);
+    });
+});
+
+describe('MultiselectLookup teardown', () => {
+    const taskId = '22222222-0000-4000-a000-000000000001';
+
+    // An inactive record, read slowly enough to unload the form first
+    const startOnInactiveTask = () => start({
+        webAPI: new InMemoryWebApi({ tables: { task: [{ activityid: taskId, statecode: 1 }] }, primaryKeys: { task: 'activityid' }, latencyMs: 20 }),
+        page: { entityTypeName: 'task', entityId: `{${taskId}}` }
+    });
+
+    it('renders again once the record state is read', async () => {
+        const { host } = startOnInactiveTask();
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(host.renderRequests).toBe(1);
+    });
+
+    it('drops a record state read that returns after destroy', async () => {
+        const { host, control } = startOnInactiveTask();
+
+        control.destroy();
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(host.renderRequests).toBe(0);
+    });
+});
@@ -0,0 +1,75 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { act, Simulate } from 'react-dom/test-utils';
+import { setIconOptions } from '@fluentui/react';
+import { SystemUserForwardComponent } from '../components';
+import { Recipient } from '../helpers';
+import { InMemoryWebApi, FakeControlHost, ODataRecord, createSystemUserFixtures } from '../testing';
+
+const fixtures = createSystemUserFixtures({ count: 60, seed: 4 });
+const inView = fixtures.filter(user => !user.isdisabled && user.title === 'Legal Counsel');
+const outsideView = fixtures.find(user => !user.isdisabled && user.domainname && user.title === 'Analyst')!;
+const view: ODataRecord = {
+    savedqueryid: '5b1e2c3d-0000-4000-a000-000000000002',
+    name: 'Legal counsel',
+    returnedtypecode: 'systemuser',
+    fetchxml: '<fetch><entity name="systemuser"><attribute name="fullname" /><filter>' +
+        '<condition attribute="isdisabled" operator="eq" value="0" />' +
+        '<condition attribute="title" operator="eq" value="Legal Counsel" /></filter></entity></fetch>'
+};
+
+// Icons are not registered outside the platform
+setIconOptions({ disableWarnings: true });
+
+let container: HTMLDivElement;
+
+beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+});
+
+afterEach(() => {
+    ReactDOM.unmountComponentAtNode(container);
+    container.remove();
+});
+
+/**
+ * Types addresses into the email field and waits for them to be checked
+ */
+async function typeEmails(emails: string): Promise<void> {
+    const field = container.querySelector('textarea')!;
+    await act(async () => {
+        field.value = emails;
+        Simulate.change(field);
+    });
+    // The check starts once typing pauses
+    await act(() => new Promise(resolve => setTimeout(resolve, 700)));
+    await act(() => new Promise(resolve => setTimeout(resolve, 0)));
+}
+
+describe('SystemUserForwardComponent typed addresses', () => {
+    it('refuses users the directory view does not list', async () => {
+        expect(inView.length).toBeGreaterThan(0);
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures, savedquery: [view] } });
+        const host = new FakeControlHost({ webAPI });
+        const onRecipientsChanged = jest.fn<void, [Recipient[]]>();
+
+        await act(async () => {
+            ReactDOM.render(React.createElement(SystemUserForwardComponent, {
+                context: host.context,
+                directorySource: { view: 'Legal counsel' },
+                onRecipientsChanged
+            }), container);
+        });
+
+        await typeEmails(`${outsideView.internalemailaddress};${inView[0].internalemailaddress}`);
+
+        expect(container.textContent).toContain('This user cannot receive forwards from this form');
+        expect(onRecipientsChanged).not.toHaveBeenCalled();
+
+        await typeEmails(String(inView[0].internalemailaddress));
+
+        expect(container.textContent).not.toContain('This user cannot receive forwards from this form');
+        expect(onRecipientsChanged).toHaveBeenCalledWith([expect.objectContaining({ id: inView[0].systemuserid })]);
+    });
+});
@@ -0,0 +1,213 @@
+import { SystemUserService, SystemUser } from '../helpers';
+import {
+    InMemoryWebApi,
+    FakeControlHost,
+    ODataRecord,
+    createRandom,
+    createFixtureId,
+    createSystemUserFixtures
+} from '../testing';
+
+// What the built-in directory filters allow: enabled users with a domain name, no application users
+function isListed(user: ODataRecord): boolean {
+    return !user.isdisabled && !!user.domainname && !user.applicationid;
+}
+
+function createService(webAPI: InMemoryWebApi, pageSize: number = 5): SystemUserService {
+    const host = new FakeControlHost({ webAPI });
+    const service = new SystemUserService(host.context);
+    service.setPageSize(pageSize);
+    return service;
+}
+
+function ids(users: SystemUser[]): string[] {
+    return users.map(user => user.systemuserid);
+}
+
+// FetchXML the service sent, decoded from the fetchXml option
+function sentFetchXml(webAPI: InMemoryWebApi): string[] {
+    return webAPI.requests
+        .filter(request => request.entityType === 'systemuser' && (request.options || '').startsWith('?fetchXml='))
+        .map(request => decodeURIComponent((request.options || '').substring('?fetchXml='.length)));
+}
+
+describe('SystemUserService paging', () => {
+    const fixtures = createSystemUserFixtures({ count: 40, seed: 3 });
+    const listed = fixtures.filter(isListed);
+
+    it.each([true, false])('pages through every listed user once (count returned: %s)', async surfaceCount => {
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures }, surfaceCount });
+        const service = createService(webAPI);
+
+        const first = await service.getActiveUsers(1);
+        expect(first.pagination.totalRecords).toBe(listed.length);
+        expect(first.pagination.totalPages).toBe(Math.ceil(listed.length / 5));
+        expect(first.pagination.hasPreviousPage).toBe(false);
+
+        const seen = [...ids(first.users)];
+        let result = first;
+        while (result.pagination.hasNextPage) {
+            result = await service.getNextPage(result.pagination.currentPage);
+            seen.push(...ids(result.users));
+        }
+
+        expect(result.pagination.currentPage).toBe(first.pagination.totalPages);
+        expect(new Set(seen).size).toBe(seen.length);
+        expect(seen.sort()).toEqual(ids(listed as unknown as SystemUser[]).sort());
+    });
+
+    it('reads the last page from the end and goes back with a cursor', async () => {
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures } });
+        const service = createService(webAPI);
+
+        const first = await service.getActiveUsers(1);
+        const lastPage = first.pagination.totalPages;
+
+        // A fresh service answers the same pages by walking forward
+        const reference = createService(new InMemoryWebApi({ tables: { systemuser: fixtures } }));
+        const expected: string[][] = [];
+        for (let page = 1; page <= lastPage; page++) {
+            expected.push(ids((await reference.goToPage(page)).users));
+        }
+
+        const last = await service.goToPage(lastPage);
+        expect(ids(last.users)).toEqual(expected[lastPage - 1]);
+        expect(last.pagination.hasNextPage).toBe(false);
+
+        const previous = await service.getPreviousPage(lastPage);
+        expect(ids(previous.users)).toEqual(expected[lastPage - 2]);
+    });
+
+    it('keeps a requested page past the end on the last page', async () => {
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures } });
+        const service = createService(webAPI);
+
+        const result = await service.goToPage(99);
+        expect(result.pagination.currentPage).toBe(Math.ceil(listed.length / 5));
+        expect(result.users.length).toBeGreaterThan(0);
+    });
+});
+
+describe('SystemUserService search', () => {
+    const fixtures = createSystemUserFixtures({ count: 80, seed: 5 });
+
+    it('finds accented names typed without accents', async () => {
+        const accented = fixtures.filter(user => isListed(user) && user.lastname === 'Müller');
+        expect(accented.length).toBeGreaterThan(0);
+
+        const service = createService(new InMemoryWebApi({ tables: { systemuser: fixtures } }));
+        const found = await service.searchUsers('muller', 50);
+
+        expect(ids(found)).toEqual(expect.arrayContaining(ids(accented as unknown as SystemUser[])));
+    });
+
+    it('limits scoped terms to their field', async () => {
+        const service = createService(new InMemoryWebApi({ tables: { systemuser: fixtures } }));
+        const result = await service.getActiveUsers(1, 'title:paralegal');
+
+        expect(result.users.length).toBeGreaterThan(0);
+        result.users.forEach(user => expect(user.title).toBe('Paralegal'));
+        expect(result.pagination.totalRecords)
+            .toBe(fixtures.filter(user => isListed(user) && user.title === 'Paralegal').length);
+    });
+
+    it('finds an exact match sorted behind more candidates than the query reads', async () => {
+        const random = createRandom(11);
+        const user = (firstname: string, lastname: string, index: number): ODataRecord => ({
+            systemuserid: createFixtureId(random),
+            firstname,
+            lastname,
+            fullname: `${firstname} ${lastname}`,
+            internalemailaddress: `${firstname}.${lastname}${index}@contoso.com`.toLowerCase(),
+            domainname: `${firstname}.${lastname}${index}@contoso.com`.toLowerCase(),
+            isdisabled: false,
+            applicationid: null
+        });
+        // Every one of them matches the first letters of "Smith" and sorts before Zed
+        const users = Array.from({ length: 300 }, (_, index) => user('Aaron', 'Smithers', index));
+        const exact = user('Zed', 'Smith', 0);
+        users.push(exact);
+
+        const service = createService(new InMemoryWebApi({ tables: { systemuser: users } }));
+        const found = await service.searchUsers('zed smith', 5);
+
+        expect(found[0].systemuserid).toBe(exact.systemuserid);
+    });
+});
+
+describe('SystemUserService with a directory view', () => {
+    const fixtures = createSystemUserFixtures({ count: 200, seed: 9 });
+    const inView = fixtures.filter(user => !user.isdisabled && user.title === 'Legal Counsel');
+    const outsideView = fixtures.find(user => !user.isdisabled && user.title === 'Analyst')!;
+    const view: ODataRecord = {
+        savedqueryid: '5b1e2c3d-0000-4000-a000-000000000001',
+        name: 'Legal counsel',
+        returnedtypecode: 'systemuser',
+        fetchxml: '<fetch><entity name="systemuser"><attribute name="fullname" /><attribute name="title" />' +
+            '<order attribute="fullname" /><filter><condition attribute="isdisabled" operator="eq" value="0" />' +
+            '<condition attribute="title" operator="eq" value="Legal Counsel" /></filter></entity></fetch>',
+        layoutxml: '<grid><row><cell name="fullname" /><cell name="title" /></row></grid>'
+    };
+
+    function createViewService(webAPI: InMemoryWebApi): SystemUserService {
+        const service = createService(webAPI);
+        service.setDirectorySource({ view: 'Legal counsel' });
+        return service;
+    }
+
+    it('pages through the view with its paging cookies', async () => {
+        expect(inView.length).toBeGreaterThan(10);
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures, savedquery: [view] } });
+        const service = createViewService(webAPI);
+
+        const first = await service.getActiveUsers(1);
+        expect(first.pagination.totalRecords).toBe(inView.length);
+
+        const second = await service.getNextPage(1);
+        const third = await service.getNextPage(2);
+        const seen = [...ids(first.users), ...ids(second.users), ...ids(third.users)];
+        expect(new Set(seen).size).toBe(15);
+        seen.forEach(id => expect(ids(inView as unknown as SystemUser[])).toContain(id));
+
+        const fetchXml = sentFetchXml(webAPI);
+        expect(fetchXml[0]).not.toContain('paging-cookie');
+        expect(fetchXml[1]).toContain('paging-cookie');
+        expect(fetchXml[2]).toContain('paging-cookie');
+    });
+
+    it('searches inside the view only', async () => {
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures, savedquery: [view] } });
+        const service = createViewService(webAPI);
+        const member = inView[0];
+        const namesakes = fixtures.filter(user => isListed(user) && user.lastname === member.lastname && user.title !== 'Legal Counsel');
+        expect(namesakes.length).toBeGreaterThan(0);
+
+        const found = await service.searchUsers(String(member.lastname), 50);
+
+        expect(ids(found)).toContain(member.systemuserid);
+        found.forEach(user => expect(user.title).toBe('Legal Counsel'));
+    });
+
+    it('joins the business unit for bu: terms', async () => {
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures, savedquery: [view] } });
+        const service = createViewService(webAPI);
+        const expected = inView.filter(user => user['_businessunitid_value@OData.Community.Display.V1.FormattedValue'] === 'Finance');
+        expect(expected.length).toBeGreaterThan(0);
+
+        const found = await service.searchUsers('bu:finance', 50);
+
+        expect(ids(found).sort()).toEqual(ids(expected as unknown as SystemUser[]).sort());
+        expect(sentFetchXml(webAPI).pop()).toContain('link-type="outer"');
+    });
+
+    it('treats users outside the view as not found when looked up by ID', async () => {
+        const webAPI = new InMemoryWebApi({ tables: { systemuser: fixtures, savedquery: [view] } });
+        const service = createViewService(webAPI);
+        const member = String(inView[0].systemuserid);
+
+        const results = await service.lookupUsersByIds([member, String(outsideView.systemuserid)]);
+
+        expect(results.map(result => result.status)).toEqual(['found', 'notFound']);
+        expect(await service.filterIdsToDirectory([String(outsideView.systemuserid), member])).toEqual([member]);
+    });
+});
@@ -0,0 +1,328 @@
+import * as React from 'react';
+import {
+    Stack,
+    Text,
+    Icon,
+    IconButton,
+    ActionButton,
+    MessageBar,
+    MessageBarType,
+    Theme
+} from '@fluentui/react';
+import {
+    SystemUser,
+    SystemUserService,
+    Recipient,
+    userToRecipient,
+    flattenHierarchy,
+    LatestRequestTracker,
+    RequestToken,
+    LocalizedStrings,
+    getControlColors,
+    getSelectedRowClassName
+} from '../helpers';
+
+export interface OrgChartTreeProps {
+    userService: SystemUserService;
+    /** User the chart starts from: their managers are listed above them, their reports below */
+    focusUserId: string;
+    /** Levels below the focus user that can be opened, and that a branch selection includes */
+    maxDepth: number;
+    isSelected: (recipient: Recipient) => boolean;
+    onToggle: (recipient: Recipient, checked: boolean) => void;
+    /** Adds a whole branch (the head and everyone below) to the selection */
+    onSelectBranch: (recipients: Recipient[]) => void;
+    onClose: () => void;
+    strings: LocalizedStrings;
+    theme: Theme;
+}
+
+interface OrgChartTreeState {
+    focusUserId: string;
+    focusUser: SystemUser | null;
+    managers: SystemUser[];
+    reports: Record<string, SystemUser[]>; // Direct reports loaded so far, per manager ID
+    expanded: Record<string, boolean>;
+    loading: boolean;
+    loadingUserId: string | null; // User whose reports or branch are being loaded
+    error: string | null;
+}
+
+/**
+ * Org chart browser for the forward panel. Shows the manager chain above a user and lets their
+ * reports be opened level by level; a whole branch can be selected in one action.
+ */
+export class OrgChartTree extends React.Component<OrgChartTreeProps, OrgChartTreeState> {
+    // Moving the chart to another user makes every pending load of the previous chart stale
+    private focusRequests: LatestRequestTracker = new LatestRequestTracker();
+    private focusToken: RequestToken = this.focusRequests.begin();
+
+    constructor(props: OrgChartTreeProps) {
+        super(props);
+
+        this.state = {
+            focusUserId: props.focusUserId,
+            focusUser: null,
+            managers: [],
+            reports: {},
+            expanded: {},
+            loading: false,
+            loadingUserId: null,
+            error: null
+        };
+    }
+
+    public async componentDidMount(): Promise<void> {
+        await this.loadFocus(this.props.focusUserId);
+    }
+
+    public async componentDidUpdate(previousProps: OrgChartTreeProps): Promise<void> {
+        if (previousProps.focusUserId !== this.props.focusUserId) {
+            await this.loadFocus(this.props.focusUserId);
+        }
+    }
+
+    public componentWillUnmount(): void {
+        this.focusRequests.dispose();
+    }
+
+    private loadFocus = async (focusUserId: string): Promise<void> => {
+        // userSettings.userId comes in braces; IDs read from the Web API are bare and lower case
+        const userId = focusUserId.replace(/[{}]/g, '').toLowerCase();
+        const token = this.focusRequests.begin();
+        this.focusToken = token;
+
+        this.setState({ focusUserId: userId, loading: true, error: null, reports: {}, expanded: { [userId]: true } });
+
+        try {
+            const { userService } = this.props;
+            const [focusUser, managers, reports] = await Promise.all([
+                userService.getUserById(userId),
+                userService.getManagerChain(userId),
+                userService.getDirectReports(userId)
+            ]);
+            if (!token.isCurrent()) return;
+
+            this.setState({
+                focusUser,
+                managers,
+                reports: { [userId]: reports },
+                loading: false
+            });
+
+        } catch (error) {
+            if (!token.isCurrent()) return;
+
+            this.setState({ loading: false, error: this.props.strings.get('ErrorLoadOrgChart', String(error)) });
+        }
+    };
+
+    private onToggleExpanded = async (user: SystemUser): Promise<void> => {
+        const userId = user.systemuserid;
+        const expanded = !this.state.expanded[userId];
+        this.setState({ expanded: { ...this.state.expanded, [userId]: expanded } });
+
+        if (!expanded || this.state.reports[userId]) {
+            return;
+        }
+
+        const token = this.focusToken;
+        this.setState({ loadingUserId: userId, error: null });
+
+        try {
+            const reports = await this.props.userService.getDirectReports(userId);
+            if (!token.isCurrent()) return;
+
+            this.setState({ reports: { ...this.state.reports, [userId]: reports }, loadingUserId: null });
+
+        } catch (error) {
+            if (!token.isCurrent()) return;
+
+            this.setState({ loadingUserId: null, error: this.props.strings.get('ErrorLoadReports', this.getDisplayName(user), String(error)) });
+        }
+    };
+
+    /**
+     * Selects a user and everyone below them, down to the depth limit of the chart
+     * @param user Head of the branch
+     * @param depth Level of the head below the focus user (0 for the focus user)
+     */
+    private onSelectBranch = async (user: SystemUser, depth: number): Promise<void> => {
+        const token = this.focusToken;
+        this.setState({ loadingUserId: user.systemuserid, error: null });
+
+        try {
+            const tree = await this.props.userService.getReportingTree(user.systemuserid, this.props.maxDepth - depth);
+            if (!token.isCurrent()) return;
+
+            const recipients = [user, ...flattenHierarchy(tree)]
+                .filter(member => this.isSelectable(member))
+                .map(member => userToRecipient(member));
+
+            this.setState({ loadingUserId: null });
+            this.props.onSelectBranch(recipients);
+
+        } catch (error) {
+            if (!token.isCurrent()) return;
+
+            this.setState({ loadingUserId: null, error: this.props.strings.get('ErrorLoadBranch', this.getDisplayName(user), String(error)) });
+        }
+    };
+
+    /**
+     * Disabled users and users without a mailbox appear in the chart but cannot be picked
+     */
+    private isSelectable(user: SystemUser): boolean {
+        return !user.isdisabled && !!user.internalemailaddress;
+    }
+
+    private getDisplayName(user: SystemUser): string {
+        return user.fullname || `${user.firstname} ${user.lastname}`.trim() || user.internalemailaddress;
+    }
+
+    /**
+     * Renders one person of the chart
+     * @param user The person
+     * @param indent Indentation level
+     * @param depth Level below the focus user (0 for the focus user), or null for managers
+     * @param path IDs of the people above, to stop at cycles in the manager data
+     */
+    private renderNode(user: SystemUser, indent: number, depth: number | null, path: string[]): React.ReactElement {
+        const { maxDepth, isSelected, onToggle, strings, theme } = this.props;
+        const colors = getControlColors(theme);
+        const { expanded, reports, loadingUserId, focusUserId } = this.state;
+        const userId = user.systemuserid;
+        const recipient = userToRecipient(user);
+        const selectable = this.isSelectable(user);
+        const selected = selectable && isSelected(recipient);
+        const canOpen = depth !== null && depth < maxDepth;
+        const isOpen = canOpen && !!expanded[userId];
+        const children = (reports[userId] || []).filter(report => path.indexOf(report.systemuserid) === -1 && report.systemuserid !== userId);
+
+        return (
+            <React.Fragment key={`${userId}-${indent}`}>
+                <div className={selected ? getSelectedRowClassName() : undefined} style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '4px 8px',
+                    paddingInlineStart: `${8 + indent * 20}px`,
+                    borderBottom: `1px solid ${colors.border}`,
+                    background: selected ? colors.accentSubtle : colors.surface
+                }}>
+                    <div style={{ width: '28px' }}>
+                        {canOpen && (
+                            <IconButton
+                                iconProps={{ iconName: isOpen ? 'ChevronDown' : (strings.isRtl ? 'ChevronLeft' : 'ChevronRight') }}
+                                title={strings.get(isOpen ? 'HideReports' : 'ShowReports')}
+                                ariaLabel={strings.get(isOpen ? 'HideReportsOf' : 'ShowReportsOf', this.getDisplayName(user))}
+                                onClick={() => this.onToggleExpanded(user)}
+                                styles={{ root: { width: '24px', height: '24px' } }}
+                            />
+                        )}
+                    </div>
+                    <input
+                        type="checkbox"
+                        checked={selected}
+                        disabled={!selectable}
+                        title={selectable ? undefined : strings.get('NotSelectable')}
+                        aria-label={strings.get('SelectRecipientLabel', this.getDisplayName(user))}
+                        onChange={(e) => onToggle(recipient, e.target.checked)}
+                        style={{ cursor: selectable ? 'pointer' : 'default' }}
+                    />
+                    <Stack grow styles={{ root: { minWidth: 0 } }}>
+                        <Text styles={{ root: { fontWeight: userId === focusUserId ? 600 : 400, color: selectable ? colors.text : colors.textDisabled } }}>
+                            {this.getDisplayName(user)}
+                        </Text>
+                        {user.title && (
+                            <Text variant="small" styles={{ root: { color: colors.textSecondary } }}>{user.title}</Text>
+                        )}
+                    </Stack>
+                    {loadingUserId === userId && <Icon iconName="Sync" title={strings.get('Loading')} />}
+                    {depth !== null && depth < maxDepth && (
+                        <ActionButton
+                            iconProps={{ iconName: 'Org' }}
+                            text={strings.get('SelectBranch')}
+                            title={strings.plural('SelectBranchTitle', maxDepth - depth, this.getDisplayName(user))}
+                            disabled={loadingUserId !== null}
+                            onClick={() => this.onSelectBranch(user, depth)}
+                            styles={{ root: { height: '28px', fontSize: '12px' } }}
+                        />
+                    )}
+                    {userId !== focusUserId && (
+                        <IconButton
+                            iconProps={{ iconName: 'FollowUser' }}
+                            title={strings.get('FocusPerson')}
+                            ariaLabel={strings.get('FocusPersonLabel', this.getDisplayName(user))}
+                            onClick={() => this.loadFocus(userId)}
+                            styles={{ root: { width: '28px', height: '28px' } }}
+                        />
+                    )}
+                </div>
+                {isOpen && children.map(child => this.renderNode(child, indent + 1, (depth as number) + 1, [...path, userId]))}
+                {isOpen && reports[userId] && children.length === 0 && (
+                    <div style={{ padding: '4px 0', paddingInlineStart: `${44 + (indent + 1) * 20}px`, fontSize: '12px', color: colors.textDisabled }}>
+                        {strings.get('NoDirectReports')}
+                    </div>
+                )}
+            </React.Fragment>
+        );
+    }
+
+    public render(): React.ReactElement {
+        const { maxDepth, onClose, strings, theme } = this.props;
+        const colors = getControlColors(theme);
+        const { focusUser, managers, loading, error } = this.state;
+
+        // Top manager first, then down to the focus user
+        const chain = [...managers].reverse();
+
+        return (
+            <Stack tokens={{ childrenGap: 10 }}
+                   styles={{
+                       root: {
+                           background: colors.surface,
+                           padding: '16px 20px',
+                           borderRadius: '12px',
+                           border: `2px solid ${colors.border}`
+                       }
+                   }}>
+                <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+                    <Stack>
+                        <Text variant="medium" styles={{ root: { fontWeight: 600, color: colors.text } }}>
+                            <Icon iconName="Org" /> {strings.get('OrgChart')}
+                        </Text>
+                        <Text variant="small" styles={{ root: { color: colors.textSecondary } }}>
+                            {strings.plural('OrgChartDepthHint', maxDepth)}
+                        </Text>
+                    </Stack>
+                    <IconButton
+                        iconProps={{ iconName: 'Cancel' }}
+                        title={strings.get('CloseOrgChart')}
+                        ariaLabel={strings.get('CloseOrgChart')}
+                        onClick={onClose}
+                    />
+                </Stack>
+
+                {error && (
+                    <MessageBar messageBarType={MessageBarType.error}>
+                        {error}
+                    </MessageBar>
+                )}
+
+                {loading && (
+                    <Text variant="small" styles={{ root: { color: colors.textSecondary } }}>
+                        {strings.get('LoadingOrgChart')}
+                    </Text>
+                )}
+
+                {!loading && focusUser && (
+                    <div style={{ maxHeight: '260px', overflowY: 'auto', border: `1px solid ${colors.border}`, borderRadius: '4px' }}>
+                        {chain.map((manager, index) => this.renderNode(manager, index, null, chain.slice(0, index).map(above => above.systemuserid)))}
+                        {this.renderNode(focusUser, chain.length, 0, chain.map(manager => manager.systemuserid))}
+                    </div>
+                )}
+            </Stack>
+        );
+    }
+}
@@ -0,0 +1,149 @@
+import * as React from 'react';
+import {
+    Stack,
+    Text,
+    Icon,
+    MessageBar,
+    MessageBarType,
+    ThemeProvider
+} from '@fluentui/react';
+import {
+    Recipient,
+    RecipientEntityType,
+    RecipientService,
+    SystemUserService,
+    getRecipientKey,
+    LatestRequestTracker,
+    LocalizedStrings,
+    ReadOnlyReason,
+    getControlTheme,
+    getControlColors,
+    Logger
+} from '../helpers';
+
+const logger = new Logger('ReadOnlyRecipients');
+
+export interface ReadOnlyRecipientsProps {
+    context: ComponentFramework.Context<any>;
+    recipients: Recipient[];
+    reason: ReadOnlyReason;
+    departmentColumn?: string;
+}
+
+interface ReadOnlyRecipientsState {
+    recipients: Recipient[];
+}
+
+const iconNames: Record<RecipientEntityType, string> = {
+    systemuser: 'Contact',
+    team: 'People',
+    queue: 'Inbox',
+    contact: 'ContactCard'
+};
+
+/**
+ * Recipient summary shown instead of the pickers when the recipients cannot be edited: a message
+ * with the reason, and the saved recipients as chips
+ */
+export class ReadOnlyRecipients extends React.Component<ReadOnlyRecipientsProps, ReadOnlyRecipientsState> {
+    private strings: LocalizedStrings;
+    private rehydrateRequests: LatestRequestTracker = new LatestRequestTracker();
+
+    constructor(props: ReadOnlyRecipientsProps) {
+        super(props);
+
+        this.strings = new LocalizedStrings(props.context);
+        this.state = { recipients: props.recipients };
+    }
+
+    public async componentDidMount(): Promise<void> {
+        await this.rehydrate();
+    }
+
+    public async componentDidUpdate(previousProps: ReadOnlyRecipientsProps): Promise<void> {
+        if (previousProps.recipients !== this.props.recipients) {
+            this.setState({ recipients: this.props.recipients });
+            await this.rehydrate();
+        }
+    }
+
+    public componentWillUnmount(): void {
+        this.rehydrateRequests.dispose();
+    }
+
+    /**
+     * Looks up names for saved recipients that only have an email address
+     */
+    private rehydrate = async (): Promise<void> => {
+        const { context, recipients, reason, departmentColumn } = this.props;
+        if (reason === 'noReadAccess' || recipients.length === 0) {
+            return;
+        }
+
+        const token = this.rehydrateRequests.begin();
+
+        try {
+            const userService = new SystemUserService(context);
+            userService.setDepartmentColumn(departmentColumn || '');
+            const rehydrated = await new RecipientService(context, userService).rehydrateRecipients(recipients);
+
+            if (token.isCurrent() && rehydrated !== recipients) {
+                this.setState({ recipients: rehydrated });
+            }
+
+        } catch (error) {
+            logger.error('Could not re-hydrate saved recipients:', error);
+        }
+    };
+
+    public render(): React.ReactElement {
+        const { context, reason } = this.props;
+        const { recipients } = this.state;
+        const strings = this.strings;
+        const theme = getControlTheme(context, strings.isRtl);
+        const colors = getControlColors(theme);
+
+        return (
+            <ThemeProvider theme={theme}>
+                <Stack tokens={{ childrenGap: 8 }} dir={strings.isRtl ? 'rtl' : 'ltr'}>
+                    <MessageBar messageBarType={reason === 'noReadAccess' ? MessageBarType.warning : MessageBarType.info}>
+                        {strings.get(`ReadOnly_${reason}` as const)}
+                    </MessageBar>
+
+                    {reason !== 'noReadAccess' && recipients.length === 0 && (
+                        <Text variant="small" styles={{ root: { color: colors.textSecondary } }}>
+                            {strings.get('NoRecipientsSelected')}
+                        </Text>
+                    )}
+
+                    {reason !== 'noReadAccess' && recipients.length > 0 && (
+                        <div role="list"
+                             aria-label={strings.get('ReadOnlyRecipientsLabel')}
+                             style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                            {recipients.map(recipient => (
+                                <span key={getRecipientKey(recipient)}
+                                      role="listitem"
+                                      title={recipient.email}
+                                      style={{
+                                          display: 'inline-flex',
+                                          alignItems: 'center',
+                                          gap: '6px',
+                                          padding: '2px 10px',
+                                          borderRadius: '12px',
+                                          border: `1px solid ${recipient.isExternal ? colors.external : colors.border}`,
+                                          background: recipient.isExternal ? colors.externalSubtle : colors.surfaceAlt,
+                                          color: colors.text,
+                                          fontSize: '12px'
+                                      }}>
+                                    <Icon iconName={iconNames[recipient.entityType]}
+                                          aria-label={strings.get(`RecipientType_${recipient.entityType}` as const)} />
+                                    {recipient.displayName || recipient.email}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </Stack>
+            </ThemeProvider>
+        );
+    }
+}
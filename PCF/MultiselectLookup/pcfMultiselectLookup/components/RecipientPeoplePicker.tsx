@@ -0,0 +1,264 @@
+import * as React from 'react';
+import {
+    Stack,
+    NormalPeoplePicker,
+    IPersonaProps,
+    IBasePickerSuggestionsProps,
+    MessageBar,
+    MessageBarType,
+    Text,
+    ThemeProvider
+} from '@fluentui/react';
+import {
+    SystemUserService,
+    DirectoryFilterOptions,
+    DirectorySource,
+    Recipient,
+    RecipientService,
+    ContactService,
+    userToRecipient,
+    isSameRecipient,
+    getRecipientKey,
+    LatestRequestTracker,
+    LocalizedStrings,
+    getControlTheme,
+    RecipientRules,
+    DEFAULT_RECIPIENT_RULES,
+    validateRecipients,
+    ForwardDecision,
+    Logger
+} from '../helpers';
+
+const logger = new Logger('RecipientPeoplePicker');
+
+export interface RecipientPeoplePickerProps {
+    context: ComponentFramework.Context<any>;
+    initialRecipients?: Recipient[];
+    onRecipientsChanged?: (recipients: Recipient[]) => void;
+    disabled?: boolean;
+    includeTeams?: boolean;
+    includeQueues?: boolean;
+    includeContacts?: boolean;
+    expandTeamMembers?: boolean;
+    directoryFilters?: DirectoryFilterOptions;
+    directoryCacheMinutes?: number;
+    departmentColumn?: string;
+    /** Saved view or FetchXML the directory is taken from */
+    directorySource?: DirectorySource;
+    recipientRules?: RecipientRules;
+    /** The record's Forward To decision (a Yes needs recipients, a No allows none) */
+    forwardDecision?: ForwardDecision;
+}
+
+interface RecipientPeoplePickerState {
+    selectedRecipients: Recipient[];
+    error: string | null;
+}
+
+/**
+ * Persona carrying the recipient it was built from, so chips map back to recipients
+ */
+interface RecipientPersonaProps extends IPersonaProps {
+    recipient: Recipient;
+}
+
+/**
+ * Inline chip picker for forward recipients with as-you-type suggestions.
+ * Alternative to the panel mode of SystemUserForwardComponent; reports the same recipients.
+ */
+export class RecipientPeoplePicker extends React.Component<
+    RecipientPeoplePickerProps,
+    RecipientPeoplePickerState
+> {
+    private static readonly suggestionCount: number = 8;
+    private static readonly resolveDelay: number = 300;
+
+    private userService: SystemUserService;
+    private recipientService: RecipientService;
+    private contactService: ContactService;
+    private strings: LocalizedStrings;
+    private suggestionsProps: IBasePickerSuggestionsProps;
+    private suggestionRequests: LatestRequestTracker = new LatestRequestTracker();
+    private changeRequests: LatestRequestTracker = new LatestRequestTracker(); // Team expansion of the latest pick only
+
+    constructor(props: RecipientPeoplePickerProps) {
+        super(props);
+
+        this.userService = new SystemUserService(props.context);
+        if (props.directoryFilters) {
+            this.userService.setDirectoryFilters(props.directoryFilters);
+        }
+        this.userService.setDirectoryCache(props.directoryCacheMinutes || 0);
+        this.userService.setDepartmentColumn(props.departmentColumn || '');
+        if (props.directorySource) {
+            this.userService.setDirectorySource(props.directorySource);
+        }
+        this.recipientService = new RecipientService(props.context, this.userService, {
+            expandTeamMembers: props.expandTeamMembers
+        });
+        this.contactService = new ContactService(props.context);
+        this.strings = new LocalizedStrings(props.context);
+        this.suggestionsProps = {
+            suggestionsHeaderText: this.strings.get('SuggestedRecipients'),
+            noResultsFoundText: this.strings.get('NoSuggestions'),
+            loadingText: this.strings.get('Searching'),
+            showRemoveButtons: false
+        };
+
+        this.state = {
+            selectedRecipients: props.initialRecipients || [],
+            error: null
+        };
+    }
+
+    public async componentDidMount(): Promise<void> {
+        const saved = this.state.selectedRecipients;
+        const token = this.changeRequests.begin();
+
+        try {
+            // Saved recipients that only have an email address get their name and ID back
+            const recipients = await this.recipientService.rehydrateRecipients(saved);
+
+            if (token.isCurrent() && recipients !== saved) {
+                this.setState({ selectedRecipients: recipients });
+            }
+
+        } catch (error) {
+            logger.error('Could not re-hydrate saved recipients:', error);
+        }
+    }
+
+    public componentWillUnmount(): void {
+        this.suggestionRequests.dispose();
+        this.changeRequests.dispose();
+    }
+
+    private toPersona(recipient: Recipient): RecipientPersonaProps {
+        const typeLabel = this.strings.get(`RecipientType_${recipient.entityType}` as const);
+
+        return {
+            key: getRecipientKey(recipient),
+            text: recipient.displayName || recipient.email,
+            secondaryText: recipient.email
+                ? `${typeLabel} • ${recipient.email}`
+                : typeLabel,
+            recipient
+        };
+    }
+
+    private onResolveSuggestions = async (filterText: string): Promise<IPersonaProps[]> => {
+        const { includeTeams, includeQueues, includeContacts } = this.props;
+        const searchTerm = filterText.trim();
+        const token = this.suggestionRequests.begin();
+
+        if (!searchTerm) {
+            return [];
+        }
+
+        try {
+            const [users, teams, queues, contactResult] = await Promise.all([
+                this.userService.searchUsers(searchTerm, RecipientPeoplePicker.suggestionCount),
+                includeTeams ? this.recipientService.searchTeams(searchTerm) : Promise.resolve([]),
+                includeQueues ? this.recipientService.searchQueues(searchTerm) : Promise.resolve([]),
+                includeContacts ? this.contactService.searchContacts(1, searchTerm) : Promise.resolve(null)
+            ]);
+
+            if (!token.isCurrent()) {
+                return []; // The text changed meanwhile; the newer request supplies the suggestions
+            }
+
+            const contacts = contactResult ? contactResult.contacts : [];
+            const recipients: Recipient[] = [...users.map(user => userToRecipient(user)), ...teams, ...queues, ...contacts];
+
+            this.setState({ error: null });
+
+            // Do not suggest what is already picked
+            return recipients
+                .filter(recipient => !this.state.selectedRecipients.some(selected => isSameRecipient(selected, recipient)))
+                .map(recipient => this.toPersona(recipient));
+
+        } catch (error) {
+            if (!token.isCurrent()) return [];
+
+            this.setState({ error: this.strings.get('ErrorLoadSuggestions', String(error)) });
+            return [];
+        }
+    };
+
+    private onChange = async (items?: IPersonaProps[]): Promise<void> => {
+        const picked = (items || []).map(item => (item as RecipientPersonaProps).recipient);
+        const token = this.changeRequests.begin();
+
+        this.setState({ selectedRecipients: picked, error: null });
+
+        try {
+            // Teams are replaced by their members when the control is configured to expand them
+            const recipients = await this.recipientService.expandTeams(picked);
+            if (!token.isCurrent()) return;
+
+            this.setState({ selectedRecipients: recipients });
+
+            if (this.props.onRecipientsChanged) {
+                this.props.onRecipientsChanged(recipients);
+            }
+
+        } catch (error) {
+            if (!token.isCurrent()) return;
+
+            this.setState({ error: this.strings.get('ErrorExpandTeams', String(error)) });
+        }
+    };
+
+    private getTextFromItem = (persona: IPersonaProps): string => {
+        return persona.text || '';
+    };
+
+    public render(): React.ReactElement {
+        const { disabled, forwardDecision } = this.props;
+        const { selectedRecipients, error } = this.state;
+        const rules = this.props.recipientRules || DEFAULT_RECIPIENT_RULES;
+        const validation = validateRecipients(selectedRecipients, rules, forwardDecision || 'unset', this.strings);
+
+        return (
+            <ThemeProvider theme={getControlTheme(this.props.context, this.strings.isRtl)}>
+                <Stack tokens={{ childrenGap: 8 }}>
+                    {/* Error Message */}
+                    {error && (
+                        <MessageBar messageBarType={MessageBarType.error}>
+                            {error}
+                        </MessageBar>
+                    )}
+
+                    <NormalPeoplePicker
+                        selectedItems={selectedRecipients.map(recipient => this.toPersona(recipient))}
+                        onResolveSuggestions={this.onResolveSuggestions}
+                        onChange={this.onChange}
+                        getTextFromItem={this.getTextFromItem}
+                        pickerSuggestionsProps={this.suggestionsProps}
+                        resolveDelay={RecipientPeoplePicker.resolveDelay}
+                        itemLimit={rules.maxRecipients || undefined}
+                        disabled={disabled}
+                        inputProps={{
+                            'aria-label': this.strings.get('ForwardRecipients'),
+                            placeholder: selectedRecipients.length === 0 ? this.strings.get('TypeNameOrEmail') : undefined
+                        }}
+                    />
+
+                    {/* Rules the selection breaks */}
+                    {!validation.isValid && (
+                        <MessageBar messageBarType={MessageBarType.warning}>
+                            {validation.message}
+                        </MessageBar>
+                    )}
+
+                    {/* Selected Recipients Count */}
+                    {selectedRecipients.length > 0 && (
+                        <Text variant="small">
+                            {this.strings.plural('RecipientsSelected', selectedRecipients.length)}
+                        </Text>
+                    )}
+                </Stack>
+            </ThemeProvider>
+        );
+    }
+}
@@ -9,35 +9,91 @@ import {
     MessageBar,
     MessageBarType,
     PrimaryButton,
-    Separator
+    Separator,
+    Icon,
+    IconButton,
+    Link,
+    ThemeProvider,
+    Theme,
+    Spinner,
+    SpinnerSize,
+    Announced,
+    IButton,
+    getId,
+    mergeStyles,
+    hiddenContentStyle
 } from '@fluentui/react';
-import { SystemUser, SystemUserService } from '../helpers';
-
-// Add CSS for loading spinner animation
-const spinnerStyles = `
-@keyframes spin {
-    0% { transform: rotate(0deg); }
-    100% { transform: rotate(360deg); }
-}
-`;
-
-// Inject styles into document head if not already present
-if (typeof document !== 'undefined' && !document.getElementById('pcf-spinner-styles')) {
-    const styleSheet = document.createElement('style');
-    styleSheet.id = 'pcf-spinner-styles';
-    styleSheet.textContent = spinnerStyles;
-    document.head.appendChild(styleSheet);
-}
+import {
+    SystemUser,
+    SystemUserService,
+    DirectoryFilterOptions,
+    DirectorySource,
+    Recipient,
+    RecipientEntityType,
+    RecipientService,
+    RecipientHistory,
+    ContactService,
+    ContactRecipient,
+    userToRecipient,
+    isSameRecipient,
+    getRecipientKey,
+    recipientsToEmails,
+    recipientsFromEmails,
+    ResolvedEmailAddress,
+    parseEmailAddresses,
+    resolveEmailAddresses,
+    UserSearchMatch,
+    renderHighlightedText,
+    LatestRequestTracker,
+    RequestToken,
+    isRequestCancelled,
+    LocalizedStrings,
+    getControlTheme,
+    getControlColors,
+    forcedColors,
+    getSelectedRowClassName,
+    RecipientRules,
+    DEFAULT_RECIPIENT_RULES,
+    validateRecipients,
+    ForwardDecision,
+    hasDirectorySource,
+    Logger
+} from '../helpers';
+import { OrgChartTree } from './OrgChartTree';
+
+const logger = new Logger('SystemUserForwardComponent');
+
+// Text read by screen readers only
+const screenReaderOnlyClassName = mergeStyles(hiddenContentStyle);
 
 export interface SystemUserForwardComponentProps {
     context: ComponentFramework.Context<any>;
     initialEmails?: string;
+    initialRecipients?: Recipient[];
     onEmailsChanged?: (emails: string) => void;
+    onRecipientsChanged?: (recipients: Recipient[]) => void;
     disabled?: boolean;
+    includeTeams?: boolean;
+    includeQueues?: boolean;
+    includeContacts?: boolean;
+    expandTeamMembers?: boolean;
+    directoryFilters?: DirectoryFilterOptions;
+    directoryCacheMinutes?: number;
+    departmentColumn?: string;
+    /** Saved view or FetchXML the directory is taken from */
+    directorySource?: DirectorySource;
+    /** Levels below a person that the org chart opens and a branch selection includes */
+    hierarchyDepth?: number;
+    recipientRules?: RecipientRules;
+    /** The record's Forward To decision (a Yes needs recipients, a No allows none) */
+    forwardDecision?: ForwardDecision;
 }
 
 export interface SystemUserForwardComponentState {
     selectedEmails: string;
+    selectedRecipients: Recipient[];
+    emailValidation: ResolvedEmailAddress[];
+    validatingEmails: boolean;
     isModalOpen: boolean;
     error: string | null;
 }
@@ -46,16 +102,95 @@ export class SystemUserForwardComponent extends React.Component<
     SystemUserForwardComponentProps,
     SystemUserForwardComponentState
 > {
+    private static readonly validationDelay: number = 600;
+    private static readonly pageSize: number = 5;
+
+    // Shared with the panel, so typed addresses are checked against the same directory and the
+    // page, count and search caches outlive closing the panel
+    private userService: SystemUserService;
+    private userServiceSettings: string = ''; // Directory settings last applied to the user service
+    private recipientService: RecipientService;
+    private strings: LocalizedStrings;
+    private rehydrateRequests: LatestRequestTracker = new LatestRequestTracker();
+    private validationTimeout: ReturnType<typeof setTimeout> | null = null;
+    private validationSequence: number = 0;
+    // Focus goes back to the button that opened the panel when the panel closes
+    private selectUsersButton = React.createRef<IButton>();
+
     constructor(props: SystemUserForwardComponentProps) {
         super(props);
 
+        this.userService = new SystemUserService(props.context);
+        this.userService.setPageSize(SystemUserForwardComponent.pageSize);
+        this.configureUserService();
+        this.recipientService = new RecipientService(props.context, this.userService);
+        this.strings = new LocalizedStrings(props.context);
+
+        // Prefer the structured recipients; fall back to rebuilding them from the email text
+        const initialRecipients = props.initialRecipients || recipientsFromEmails(props.initialEmails || '');
+
         this.state = {
-            selectedEmails: props.initialEmails || '',
+            selectedEmails: props.initialRecipients ? recipientsToEmails(props.initialRecipients) : props.initialEmails || '',
+            selectedRecipients: initialRecipients,
+            emailValidation: [],
+            validatingEmails: false,
             isModalOpen: false,
             error: null
         };
     }
 
+    public async componentDidMount(): Promise<void> {
+        await this.rehydrateSavedRecipients();
+    }
+
+    public componentDidUpdate(): void {
+        this.configureUserService();
+    }
+
+    public componentWillUnmount(): void {
+        this.cancelPendingValidation();
+        this.rehydrateRequests.dispose();
+    }
+
+    /**
+     * Applies the directory settings to the user service. Applying them clears its caches, so this
+     * only happens when the settings differ from the ones last applied.
+     */
+    private configureUserService(): void {
+        const { directoryFilters, directoryCacheMinutes, departmentColumn, directorySource } = this.props;
+        const settings = JSON.stringify([directoryFilters || {}, directoryCacheMinutes || 0, departmentColumn || '', directorySource || {}]);
+        if (settings === this.userServiceSettings) {
+            return;
+        }
+        this.userServiceSettings = settings;
+
+        this.userService.setDirectoryFilters(directoryFilters || {});
+        this.userService.setDirectoryCache(directoryCacheMinutes || 0);
+        this.userService.setDepartmentColumn(departmentColumn || '');
+        this.userService.setDirectorySource(directorySource || {});
+    }
+
+    /**
+     * Looks up names and IDs for saved recipients that only have an email address. The output is
+     * not changed; the richer recipients are saved with the next change of the selection.
+     */
+    private rehydrateSavedRecipients = async (): Promise<void> => {
+        const saved = this.state.selectedRecipients;
+        const token = this.rehydrateRequests.begin();
+
+        try {
+            const recipients = await this.recipientService.rehydrateRecipients(saved);
+
+            // Keep whatever the user picked or typed in the meantime
+            if (token.isCurrent() && this.state.selectedRecipients === saved && recipients !== saved) {
+                this.setState({ selectedRecipients: recipients });
+            }
+
+        } catch (error) {
+            logger.error('Could not re-hydrate saved recipients:', error);
+        }
+    };
+
     private onOpenModal = (): void => {
         this.setState({ isModalOpen: true, error: null });
     };
@@ -64,249 +199,376 @@ export class SystemUserForwardComponent extends React.Component<
         this.setState({ isModalOpen: false });
     };
 
-    private onUsersSelected = (selectedUsers: SystemUser[]): void => {
-        console.log('SystemUserForwardComponent - onUsersSelected called with users:', selectedUsers);
+    private onPanelDismissed = (): void => {
+        if (this.selectUsersButton.current) {
+            this.selectUsersButton.current.focus();
+        }
+    };
+
+    private onRecipientsSelected = (selectedRecipients: Recipient[]): void => {
+        logger.debug('onRecipientsSelected called with recipients:', selectedRecipients);
         
         // Extract email addresses and join with semicolons
-        const emails = selectedUsers
-            .map(user => user.internalemailaddress)
-            .filter(email => email && email.trim()) // Filter out empty emails
-            .join(';');
+        const emails = recipientsToEmails(selectedRecipients);
 
-        console.log('SystemUserForwardComponent - Extracted emails:', emails);
+        logger.debug('Extracted emails:', emails);
+
+        // Picked recipients are already resolved - drop any pending check of typed text
+        this.cancelPendingValidation();
 
         this.setState({ 
             selectedEmails: emails,
+            selectedRecipients: selectedRecipients,
+            emailValidation: [],
+            validatingEmails: false,
             isModalOpen: false,
             error: null 
         });
 
         // Notify parent component of the change
-        if (this.props.onEmailsChanged) {
-            console.log('SystemUserForwardComponent - Calling onEmailsChanged with emails:', emails);
-            this.props.onEmailsChanged(emails);
-        } else {
-            console.log('SystemUserForwardComponent - onEmailsChanged prop is not available');
-        }
+        this.notifySelectionChanged(selectedRecipients, emails);
     };
 
     private onEmailsTextChanged = (event: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string): void => {
         const emails = newValue || '';
         this.setState({ selectedEmails: emails });
 
-        if (this.props.onEmailsChanged) {
-            this.props.onEmailsChanged(emails);
-        }
+        // Typed text is only committed once every address has been validated and resolved
+        this.cancelPendingValidation();
+        this.validationTimeout = setTimeout(() => {
+            this.validationTimeout = null;
+            this.validateAndCommitEmails(emails);
+        }, SystemUserForwardComponent.validationDelay);
     };
 
     private onClearEmails = (): void => {
-        this.setState({ selectedEmails: '' });
+        this.cancelPendingValidation();
+        this.setState({ selectedEmails: '', selectedRecipients: [], emailValidation: [], validatingEmails: false });
         
-        if (this.props.onEmailsChanged) {
-            this.props.onEmailsChanged('');
+        this.notifySelectionChanged([], '');
+    };
+
+    private cancelPendingValidation(): void {
+        if (this.validationTimeout) {
+            clearTimeout(this.validationTimeout);
+            this.validationTimeout = null;
+        }
+        // Results of a validation that is still running are ignored
+        this.validationSequence++;
+    }
+
+    /**
+     * Parses and resolves typed addresses. When every address is a valid, active recipient the
+     * selection is committed; otherwise the problems are shown and the previous output is kept.
+     */
+    private validateAndCommitEmails = async (emails: string): Promise<void> => {
+        const sequence = ++this.validationSequence;
+        const addresses = parseEmailAddresses(emails);
+
+        this.setState({ validatingEmails: true });
+
+        try {
+            const resolved = await resolveEmailAddresses(addresses, this.userService, this.state.selectedRecipients);
+
+            if (sequence !== this.validationSequence) {
+                return; // Superseded by newer text
+            }
+
+            const hasProblems = resolved.some(address => address.status !== 'valid');
+            this.setState({ emailValidation: resolved, validatingEmails: false, error: null });
+
+            if (!hasProblems) {
+                const recipients = resolved
+                    .map(address => address.recipient)
+                    .filter((recipient): recipient is Recipient => !!recipient);
+
+                this.setState({ selectedRecipients: recipients });
+                this.notifySelectionChanged(recipients, recipientsToEmails(recipients));
+            }
+
+        } catch (error) {
+            if (sequence !== this.validationSequence) {
+                return;
+            }
+
+            this.setState({
+                validatingEmails: false,
+                error: this.strings.get('ErrorValidateEmails', String(error))
+            });
         }
     };
 
+    /**
+     * Notifies the parent of a new selection, both as recipients and as the email text
+     */
+    private notifySelectionChanged(recipients: Recipient[], emails: string): void {
+        if (this.props.onRecipientsChanged) {
+            logger.debug('Calling onRecipientsChanged with recipients:', recipients);
+            this.props.onRecipientsChanged(recipients);
+        }
+
+        if (this.props.onEmailsChanged) {
+            logger.debug('Calling onEmailsChanged with emails:', emails);
+            this.props.onEmailsChanged(emails);
+        }
+    }
+
     public render(): React.ReactElement {
-        const { context, disabled } = this.props;
-        const { selectedEmails, isModalOpen, error } = this.state;
+        const { context, disabled, includeTeams, includeQueues, includeContacts, expandTeamMembers, directoryCacheMinutes, departmentColumn, directorySource, hierarchyDepth, recipientRules, forwardDecision } = this.props;
+        const { selectedEmails, selectedRecipients, emailValidation, validatingEmails, isModalOpen, error } = this.state;
+        const invalidAddresses = emailValidation.filter(address => address.status !== 'valid');
+        const strings = this.strings;
+        const validation = validateRecipients(selectedRecipients, recipientRules || DEFAULT_RECIPIENT_RULES, forwardDecision || 'unset', strings);
+        const theme = getControlTheme(context, strings.isRtl);
+        const colors = getControlColors(theme);
+        const emailCount = selectedEmails.split(';').filter(email => email.trim()).length;
 
         return (
-            <Stack tokens={{ childrenGap: 15 }}>
-                {/* Error Message */}
-                {error && (
-                    <MessageBar messageBarType={MessageBarType.error}>
-                        {error}
-                    </MessageBar>
-                )}
+            // The theme carries the host colours and the reading direction to Fluent components, including the panel layer
+            <ThemeProvider theme={theme}>
+                <Stack tokens={{ childrenGap: 15 }}>
+                    {/* Error Message */}
+                    {error && (
+                        <MessageBar messageBarType={MessageBarType.error}>
+                            {error}
+                        </MessageBar>
+                    )}
 
-                {/* Main Input Area */}
-                <Stack tokens={{ childrenGap: 20 }} 
-                       styles={{ 
-                           root: { 
-                               background: 'linear-gradient(135deg, #f8f9fa 0%, #e9ecef 100%)',
-                               padding: '24px',
-                               borderRadius: '12px',
-                               border: '1px solid #dee2e6',
-                               boxShadow: '0 4px 12px rgba(0,0,0,0.05)'
-                           } 
-                       }}>
+                    {/* Main Input Area */}
+                    <Stack tokens={{ childrenGap: 20 }} 
+                           styles={{ 
+                               root: { 
+                                   background: colors.surfaceAlt,
+                                   padding: '24px',
+                                   borderRadius: '12px',
+                                   border: `1px solid ${colors.border}`,
+                                   boxShadow: theme.effects.elevation4
+                               } 
+                           }}>
                     
-                    {/* Header Section with Primary Button */}
-                    <Stack tokens={{ childrenGap: 16 }}>
-                        <Stack horizontal horizontalAlign="start">
-                            <PrimaryButton
-                                text="Select Users"
-                                iconProps={{ iconName: 'People' }}
-                                onClick={this.onOpenModal}
+                        {/* Header Section with Primary Button */}
+                        <Stack tokens={{ childrenGap: 16 }}>
+                            <Stack horizontal horizontalAlign="start">
+                                <PrimaryButton
+                                    componentRef={this.selectUsersButton}
+                                    text={strings.get('SelectUsers')}
+                                    iconProps={{ iconName: 'People' }}
+                                    onClick={this.onOpenModal}
+                                    disabled={disabled}
+                                    styles={{
+                                        root: { 
+                                            minWidth: '200px',
+                                            height: '44px',
+                                            borderRadius: '8px',
+                                            backgroundColor: colors.accent,
+                                            border: 'none',
+                                            fontWeight: 600,
+                                            fontSize: '14px',
+                                            boxShadow: theme.effects.elevation4,
+                                            transition: 'all 0.2s ease'
+                                        },
+                                        rootHovered: {
+                                            backgroundColor: colors.accentHover,
+                                            transform: 'translateY(-1px)',
+                                            boxShadow: theme.effects.elevation8
+                                        },
+                                        rootPressed: {
+                                            transform: 'translateY(0px)'
+                                        }
+                                    }}
+                                />
+                            </Stack>
+                        
+                            {/* Clear Button Row */}
+                            {selectedEmails && (
+                                <Stack horizontal horizontalAlign="end">
+                                    <DefaultButton
+                                        text={strings.get('ClearAll')}
+                                        iconProps={{ iconName: 'ClearFormatting' }}
+                                        onClick={this.onClearEmails}
+                                        disabled={disabled}
+                                        styles={{
+                                            root: { 
+                                                minWidth: '100px',
+                                                height: '36px',
+                                                borderRadius: '6px',
+                                                border: `2px solid ${colors.danger}`,
+                                                color: colors.danger,
+                                                backgroundColor: 'transparent',
+                                                fontWeight: 500
+                                            },
+                                            rootHovered: {
+                                                backgroundColor: colors.danger,
+                                                color: colors.onAccent,
+                                                transform: 'translateY(-1px)'
+                                            }
+                                        }}
+                                    />
+                                </Stack>
+                            )}
+                        </Stack>
+                    
+                        {/* Email Text Area with Enhanced Styling */}
+                        <Stack tokens={{ childrenGap: 8 }}>
+                            <Text variant="small" 
+                                  styles={{ 
+                                      root: { 
+                                          color: colors.textSecondary, 
+                                          fontWeight: 500,
+                                          textTransform: 'uppercase',
+                                          letterSpacing: '0.5px',
+                                          fontSize: '12px'
+                                      } 
+                                  }}>
+                                {strings.get('SelectedEmailAddresses')}
+                            </Text>
+                            <TextField
+                                placeholder={strings.get('EmailsPlaceholder')}
+                                value={selectedEmails}
+                                onChange={this.onEmailsTextChanged}
+                                multiline
+                                rows={4}
                                 disabled={disabled}
+                                description={validatingEmails
+                                    ? strings.get('CheckingEmails')
+                                    : strings.get('EmailsDescription')}
+                                errorMessage={invalidAddresses.length > 0
+                                    ? strings.plural('AddressesNeedAttention', invalidAddresses.length)
+                                    : undefined}
                                 styles={{
-                                    root: { 
-                                        minWidth: '200px',
-                                        height: '44px',
-                                        borderRadius: '8px',
-                                        backgroundColor: '#0078d4',
-                                        border: 'none',
-                                        fontWeight: 600,
-                                        fontSize: '14px',
-                                        boxShadow: '0 2px 8px rgba(0,120,212,0.3)',
+                                    root: { width: '100%' },
+                                    fieldGroup: { 
+                                        borderRadius: '8px', 
+                                        border: `2px solid ${colors.border}`,
+                                        backgroundColor: colors.surface,
+                                        boxShadow: 'none',
                                         transition: 'all 0.2s ease'
                                     },
-                                    rootHovered: {
-                                        backgroundColor: '#106ebe',
-                                        transform: 'translateY(-1px)',
-                                        boxShadow: '0 4px 12px rgba(0,120,212,0.4)'
+
+                                    field: { 
+                                        padding: '12px 16px',
+                                        fontSize: '14px',
+                                        lineHeight: '1.5',
+                                        fontFamily: 'Segoe UI, sans-serif'
                                     },
-                                    rootPressed: {
-                                        transform: 'translateY(0px)'
+                                    description: {
+                                        color: colors.textSecondary,
+                                        fontSize: '12px',
+                                        fontStyle: 'italic',
+                                        marginTop: '6px'
                                     }
                                 }}
                             />
+
+                            {/* Inline markers for addresses that could not be resolved */}
+                            {invalidAddresses.length > 0 && (
+                                <Stack tokens={{ childrenGap: 4 }}>
+                                    {invalidAddresses.map(address => (
+                                        <Stack key={address.email} horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
+                                            <Icon
+                                                iconName={address.status === 'invalid' ? 'ErrorBadge' : 'Warning'}
+                                                styles={{ root: { color: address.status === 'invalid' ? colors.danger : colors.warning } }}
+                                            />
+                                            <Text variant="small" styles={{ root: { fontWeight: 600 } }}>
+                                                {address.input}
+                                            </Text>
+                                            <Text variant="small" styles={{ root: { color: colors.textSecondary } }}>
+                                                {strings.get(`EmailStatus_${address.status}` as const)}
+                                            </Text>
+                                        </Stack>
+                                    ))}
+                                </Stack>
+                            )}
+
+                            {/* Rules the saved selection breaks (e.g. typed addresses outside the allowed domains) */}
+                            {!validation.isValid && (
+                                <MessageBar messageBarType={MessageBarType.warning}>
+                                    {validation.message}
+                                </MessageBar>
+                            )}
                         </Stack>
-                        
-                        {/* Clear Button Row */}
+                    
+                        {/* Selection Counter */}
                         {selectedEmails && (
-                            <Stack horizontal horizontalAlign="end">
-                                <DefaultButton
-                                    text="Clear All"
-                                    iconProps={{ iconName: 'ClearFormatting' }}
-                                    onClick={this.onClearEmails}
-                                    disabled={disabled}
-                                    styles={{
-                                        root: { 
-                                            minWidth: '100px',
-                                            height: '36px',
-                                            borderRadius: '6px',
-                                            border: '2px solid #dc3545',
-                                            color: '#dc3545',
-                                            backgroundColor: 'transparent',
-                                            fontWeight: 500
-                                        },
-                                        rootHovered: {
-                                            backgroundColor: '#dc3545',
-                                            color: 'white',
-                                            transform: 'translateY(-1px)'
-                                        }
-                                    }}
-                                />
+                            <Stack horizontal horizontalAlign="space-between" 
+                                   styles={{ 
+                                       root: { 
+                                           padding: '12px 16px',
+                                           backgroundColor: colors.accentSubtle,
+                                           borderRadius: '6px',
+                                           border: `1px solid ${colors.border}`
+                                       } 
+                                   }}>
+                                <Text variant="small" styles={{ root: { color: colors.accent, fontWeight: 600 } }}>
+                                    <Icon iconName="Mail" /> {strings.plural('EmailsSelected', emailCount)}
+                                </Text>
+                                <Text variant="small" styles={{ root: { color: colors.textSecondary } }}>
+                                    {strings.get('ReadyToForward')}
+                                </Text>
                             </Stack>
                         )}
                     </Stack>
-                    
-                    {/* Email Text Area with Enhanced Styling */}
-                    <Stack tokens={{ childrenGap: 8 }}>
-                        <Text variant="small" 
-                              styles={{ 
-                                  root: { 
-                                      color: '#6c757d', 
-                                      fontWeight: 500,
-                                      textTransform: 'uppercase',
-                                      letterSpacing: '0.5px',
-                                      fontSize: '12px'
-                                  } 
-                              }}>
-                            Selected Email Addresses
-                        </Text>
-                        <TextField
-                            placeholder="Selected email addresses will appear here..."
-                            value={selectedEmails}
-                            onChange={this.onEmailsTextChanged}
-                            multiline
-                            rows={4}
-                            disabled={disabled}
-                            description="Email addresses are automatically separated by semicolons (;)"
-                            styles={{
-                                root: { width: '100%' },
-                                fieldGroup: { 
-                                    borderRadius: '8px', 
-                                    border: '2px solid #e9ecef',
-                                    backgroundColor: 'white',
-                                    boxShadow: 'inset 0 2px 4px rgba(0,0,0,0.05)',
-                                    transition: 'all 0.2s ease'
-                                },
-
-                                field: { 
-                                    padding: '12px 16px',
-                                    fontSize: '14px',
-                                    lineHeight: '1.5',
-                                    fontFamily: 'Segoe UI, sans-serif'
-                                },
-                                description: {
-                                    color: '#6c757d',
-                                    fontSize: '12px',
-                                    fontStyle: 'italic',
-                                    marginTop: '6px'
-                                }
-                            }}
-                        />
-                    </Stack>
-                    
-                    {/* Selection Counter */}
+
+                    {/* Selected Users Count */}
                     {selectedEmails && (
-                        <Stack horizontal horizontalAlign="space-between" 
-                               styles={{ 
-                                   root: { 
-                                       padding: '12px 16px',
-                                       backgroundColor: 'rgba(0,120,212,0.1)',
-                                       borderRadius: '6px',
-                                       border: '1px solid rgba(0,120,212,0.2)'
-                                   } 
-                               }}>
-                            <Text variant="small" styles={{ root: { color: '#0078d4', fontWeight: 600 } }}>
-                                📧 {selectedEmails.split(';').filter(email => email.trim()).length} email(s) selected
-                            </Text>
-                            <Text variant="small" styles={{ root: { color: '#6c757d' } }}>
-                                Ready to forward
-                            </Text>
-                        </Stack>
+                        <Text variant="small">
+                            {strings.plural('RecipientsSelected', emailCount)}
+                        </Text>
                     )}
-                </Stack>
 
-                {/* Selected Users Count */}
-                {selectedEmails && (
-                    <Text variant="small">
-                        {selectedEmails.split(';').filter(email => email.trim()).length} recipient(s) selected
-                    </Text>
-                )}
-
-                {/* Modal Dialog */}
-                <Panel
-                    headerText="� Select Active AD Users to Forward To"
-                    isOpen={isModalOpen}
-                    onDismiss={this.onCloseModal}
-                    type={PanelType.medium}
-                    isBlocking={true}
-                    closeButtonAriaLabel="Close"
-                    styles={{
-                        main: { 
-                            background: 'linear-gradient(135deg, #f8f9fa 0%, #ffffff 100%)',
-                        },
-                        header: {
-                            background: 'linear-gradient(90deg, #0078d4 0%, #106ebe 100%)',
-                            color: 'white',
-                            paddingTop: '20px',
-                            paddingBottom: '20px'
-                        },
-                        headerText: {
-                            color: 'white',
-                            fontSize: '18px',
-                            fontWeight: 700,
-                            letterSpacing: '0.5px'
-                        },
-                        content: {
-                            paddingLeft: '0px',
-                            paddingRight: '0px'
-                        }
-                    }}
-                >
-                    <SystemUserSearchContent
-                        context={context}
-                        onUsersSelected={this.onUsersSelected}
-                        onCancel={this.onCloseModal}
-                        initialSelectedEmails={selectedEmails}
-                    />
-                </Panel>
-            </Stack>
+                    {/* Modal Dialog */}
+                    <Panel
+                        headerText={strings.get('PanelHeader')}
+                        isOpen={isModalOpen}
+                        onDismiss={this.onCloseModal}
+                        onDismissed={this.onPanelDismissed}
+                        type={PanelType.medium}
+                        isBlocking={true}
+                        closeButtonAriaLabel={strings.get('Close')}
+                        focusTrapZoneProps={{ firstFocusableSelector: 'forward-search-input' }}
+                        styles={{
+                            main: { 
+                                background: colors.surface,
+                            },
+                            header: {
+                                background: colors.accent,
+                                color: colors.onAccent,
+                                paddingTop: '20px',
+                                paddingBottom: '20px'
+                            },
+                            headerText: {
+                                color: colors.onAccent,
+                                fontSize: '18px',
+                                fontWeight: 700,
+                                letterSpacing: '0.5px'
+                            },
+                            content: {
+                                paddingLeft: '0px',
+                                paddingRight: '0px'
+                            }
+                        }}
+                    >
+                        <SystemUserSearchContent
+                            context={context}
+                            userService={this.userService}
+                            onRecipientsSelected={this.onRecipientsSelected}
+                            onCancel={this.onCloseModal}
+                            initialSelectedRecipients={selectedRecipients}
+                            includeTeams={includeTeams}
+                            includeQueues={includeQueues}
+                            includeContacts={includeContacts}
+                            expandTeamMembers={expandTeamMembers}
+                            directoryCacheMinutes={directoryCacheMinutes}
+                            departmentColumn={departmentColumn}
+                            directorySource={directorySource}
+                            hierarchyDepth={hierarchyDepth}
+                            recipientRules={recipientRules}
+                            strings={strings}
+                            theme={theme}
+                        />
+                    </Panel>
+                </Stack>
+            </ThemeProvider>
         );
     }
 }
@@ -314,23 +576,48 @@ export class SystemUserForwardComponent extends React.Component<
 // Inline Search Content Component to avoid circular dependencies
 interface SystemUserSearchContentProps {
     context: ComponentFramework.Context<any>;
-    onUsersSelected: (users: SystemUser[]) => void;
+    /** User service configured by the forward component */
+    userService: SystemUserService;
+    onRecipientsSelected: (recipients: Recipient[]) => void;
     onCancel: () => void;
-    initialSelectedEmails?: string;
+    initialSelectedRecipients?: Recipient[];
+    includeTeams?: boolean;
+    includeQueues?: boolean;
+    includeContacts?: boolean;
+    expandTeamMembers?: boolean;
+    directoryCacheMinutes?: number;
+    departmentColumn?: string;
+    /** Saved view or FetchXML the directory is taken from */
+    directorySource?: DirectorySource;
+    hierarchyDepth?: number;
+    recipientRules?: RecipientRules;
+    strings: LocalizedStrings;
+    theme: Theme;
 }
 
 interface SystemUserSearchContentState {
     searchTerm: string;
     searchResults: SystemUser[];
-    selectedUsers: SystemUser[];
+    searchMatches: Record<string, UserSearchMatch>;
+    groupResults: Recipient[];
+    contactResults: ContactRecipient[];
+    contactPage: number;
+    contactHasNextPage: boolean;
+    contactHasPreviousPage: boolean;
+    recentRecipients: Recipient[];
+    favouriteRecipients: Recipient[];
+    orgChartUserId: string | null; // User the org chart is shown around, or null when it is closed
+    selectedRecipients: Recipient[];
     loading: boolean;
     error: string | null;
     hasSearched: boolean;
     currentPage: number;
     totalPages: number;
     totalRecords: number;
+    pageSize: number;
     hasNextPage: boolean;
     hasPreviousPage: boolean;
+    activeRowKey: string | null; // Result row that Tab moves to; the arrow keys move it within the grid
 }
 
 class SystemUserSearchContent extends React.Component<
@@ -338,51 +625,133 @@ class SystemUserSearchContent extends React.Component<
     SystemUserSearchContentState
 > {
     private userService: SystemUserService;
+    private recipientService: RecipientService;
+    private contactService: ContactService;
+    private history: RecipientHistory;
+    // Only the latest request of each kind may update the panel; the rest are discarded
+    private resultRequests: LatestRequestTracker = new LatestRequestTracker();
+    private contactRequests: LatestRequestTracker = new LatestRequestTracker();
+    private confirmRequests: LatestRequestTracker = new LatestRequestTracker();
+    private quickPickRequests: LatestRequestTracker = new LatestRequestTracker();
+    // Users of Recent and Favourites the directory view does not list; null until checked
+    private unlistedUserIds: Set<string> | null = null;
+    private keyboardHintId: string = getId('forward-results-hint');
 
     constructor(props: SystemUserSearchContentProps) {
         super(props);
 
-        this.userService = new SystemUserService(props.context);
-        this.userService.setPageSize(5); // Show 5 records as requested
+        this.userService = props.userService;
+        this.recipientService = new RecipientService(props.context, this.userService, {
+            expandTeamMembers: props.expandTeamMembers
+        });
+        this.contactService = new ContactService(props.context);
+        this.contactService.setPageSize(5);
+        this.history = new RecipientHistory(props.context.userSettings.userId);
 
-        // Pre-populate selected users based on initial emails
-        const initialSelectedUsers = this.parseEmailsToUsers(props.initialSelectedEmails || '');
+        // Pre-populate selected recipients from the current selection
+        const initialSelectedRecipients = props.initialSelectedRecipients || [];
 
         this.state = {
             searchTerm: '',
             searchResults: [],
-            selectedUsers: initialSelectedUsers,
+            searchMatches: {},
+            groupResults: [],
+            contactResults: [],
+            contactPage: 1,
+            contactHasNextPage: false,
+            contactHasPreviousPage: false,
+            ...this.getQuickPicks(),
+            orgChartUserId: null,
+            selectedRecipients: initialSelectedRecipients,
             loading: false,
             error: null,
             hasSearched: false,
             currentPage: 1,
             totalPages: 1,
             totalRecords: 0,
+            pageSize: 5,
             hasNextPage: false,
-            hasPreviousPage: false
+            hasPreviousPage: false,
+            activeRowKey: null
         };
     }
 
     public async componentDidMount(): Promise<void> {
         // Load first 5 users automatically when component mounts
-        await this.loadInitialUsers();
+        await Promise.all([this.loadInitialUsers(), this.checkQuickPicks()]);
     }
 
+    public componentWillUnmount(): void {
+        // The panel unmounts its content when it closes; responses still on their way are dropped
+        this.resultRequests.dispose();
+        this.contactRequests.dispose();
+        this.confirmRequests.dispose();
+        this.quickPickRequests.dispose();
+    }
+
+    /**
+     * Gets Recent and Favourites without the users the directory view does not list. With a view,
+     * users are only offered once they have been checked against it.
+     */
+    private getQuickPicks(): Pick<SystemUserSearchContentState, 'recentRecipients' | 'favouriteRecipients'> {
+        const unlisted = this.unlistedUserIds;
+        const checkViews = hasDirectorySource(this.props.directorySource || {});
+        const offered = (recipient: Recipient): boolean => recipient.entityType !== 'systemuser'
+            || (unlisted ? !unlisted.has(recipient.id.toLowerCase()) : !checkViews);
+
+        return {
+            recentRecipients: this.history.getRecent().filter(offered),
+            favouriteRecipients: this.history.getFavourites().filter(offered)
+        };
+    }
+
+    /**
+     * Checks the users of Recent and Favourites against the directory view, since they may have
+     * been picked on another form or before the view changed
+     */
+    private checkQuickPicks = async (): Promise<void> => {
+        const token = this.quickPickRequests.begin();
+        const userIds = [...this.history.getRecent(), ...this.history.getFavourites()]
+            .filter(recipient => recipient.entityType === 'systemuser' && recipient.id)
+            .map(recipient => recipient.id);
+
+        let listed: string[];
+        try {
+            listed = await this.userService.filterIdsToDirectory(userIds);
+        } catch (error) {
+            // Without the view nobody can be confirmed to be in it
+            logger.warn('Could not check recent recipients against the directory view:', error);
+            listed = [];
+        }
+        if (!token.isCurrent()) return;
+
+        this.unlistedUserIds = new Set(userIds.filter(id => listed.indexOf(id) === -1).map(id => id.toLowerCase()));
+        this.setState(this.getQuickPicks());
+    };
+
     private loadInitialUsers = async (): Promise<void> => {
+        const token = this.resultRequests.begin();
+
         this.setState({ loading: true, error: null });
 
         try {
-            // Clear any cached pagination data
-            this.userService.clearCache();
-            
-            // Load first 5 users without search filter
-            const result = await this.userService.getActiveUsers(1);
+            // Load first 5 users (and matching teams/queues/contacts) without search filter
+            const [result, groupResults] = await Promise.all([
+                this.userService.getActiveUsers(1, undefined, token),
+                this.loadGroupRecipients(),
+                this.loadContacts(1, undefined, this.contactRequests.begin())
+            ]);
+
+            if (!token.isCurrent()) return;
 
             this.setState({
                 searchResults: result.users,
+                searchMatches: result.matches || {},
+                groupResults,
                 currentPage: result.pagination.currentPage,
                 totalPages: result.pagination.totalPages,
                 totalRecords: result.pagination.totalRecords,
+                pageSize: result.pagination.pageSize,
                 hasNextPage: result.pagination.hasNextPage,
                 hasPreviousPage: result.pagination.hasPreviousPage,
                 loading: false,
@@ -390,50 +759,93 @@ class SystemUserSearchContent extends React.Component<
             });
 
         } catch (error) {
+            if (isRequestCancelled(error) || !token.isCurrent()) return;
+
             this.setState({
                 loading: false,
-                error: `Failed to load users: ${error}`,
+                error: this.props.strings.get('ErrorLoadUsers', String(error)),
                 hasSearched: true
             });
         }
     };
 
-    private parseEmailsToUsers(emails: string): SystemUser[] {
-        if (!emails) return [];
-
-        return emails
-            .split(';')
-            .map(email => email.trim())
-            .filter(email => email)
-            .map(email => ({
-                systemuserid: '',
-                firstname: '',
-                lastname: '',
-                internalemailaddress: email
-            }));
-    }
+    /**
+     * Loads the teams and queues matching the search term, as enabled by the control configuration
+     */
+    private loadGroupRecipients = async (searchTerm?: string): Promise<Recipient[]> => {
+        const { includeTeams, includeQueues } = this.props;
+
+        const [teams, queues] = await Promise.all([
+            includeTeams ? this.recipientService.searchTeams(searchTerm) : Promise.resolve([]),
+            includeQueues ? this.recipientService.searchQueues(searchTerm) : Promise.resolve([])
+        ]);
+
+        return [...teams, ...queues];
+    };
+
+    /**
+     * Loads a page of external contacts matching the current search term, when contacts are enabled.
+     * Contacts page independently of the users, so they have their own Previous/Next buttons.
+     */
+    private loadContacts = async (page: number, searchTerm: string | undefined, token: RequestToken): Promise<void> => {
+        if (!this.props.includeContacts) return;
+
+        const result = await this.contactService.searchContacts(page, searchTerm);
+        if (!token.isCurrent()) return;
+
+        this.setState({
+            contactResults: result.contacts,
+            contactPage: result.currentPage,
+            contactHasNextPage: result.hasNextPage,
+            contactHasPreviousPage: result.hasPreviousPage
+        });
+    };
+
+    private onContactPageChange = async (page: number): Promise<void> => {
+        const token = this.contactRequests.begin();
+
+        this.setState({ loading: true, error: null });
+
+        try {
+            await this.loadContacts(page, this.state.searchTerm.trim() || undefined, token);
+            if (!token.isCurrent()) return;
+
+            this.setState({ loading: false });
+
+        } catch (error) {
+            if (!token.isCurrent()) return;
+
+            this.setState({
+                loading: false,
+                error: this.props.strings.get('ErrorLoadContacts', String(error))
+            });
+        }
+    };
 
     private onSearch = async (page: number = 1): Promise<void> => {
         const { searchTerm } = this.state;
+        const token = this.resultRequests.begin();
 
         this.setState({ loading: true, error: null });
 
         try {
-            // Clear cache when starting a new search
-            if (page === 1) {
-                this.userService.clearCache();
-            }
-            
             // If no search term, get all users, otherwise search with the term
-            const result = searchTerm.trim() 
-                ? await this.userService.getActiveUsers(page, searchTerm.trim())
-                : await this.userService.getActiveUsers(page);
+            const [result, groupResults] = await Promise.all([
+                this.userService.getActiveUsers(page, searchTerm.trim() || undefined, token),
+                page === 1 ? this.loadGroupRecipients(searchTerm.trim() || undefined) : Promise.resolve(this.state.groupResults),
+                page === 1 ? this.loadContacts(1, searchTerm.trim() || undefined, this.contactRequests.begin()) : Promise.resolve()
+            ]);
+
+            if (!token.isCurrent()) return;
 
             this.setState({
                 searchResults: result.users,
+                searchMatches: result.matches || {},
+                groupResults,
                 currentPage: result.pagination.currentPage,
                 totalPages: result.pagination.totalPages,
                 totalRecords: result.pagination.totalRecords,
+                pageSize: result.pagination.pageSize,
                 hasNextPage: result.pagination.hasNextPage,
                 hasPreviousPage: result.pagination.hasPreviousPage,
                 loading: false,
@@ -441,9 +853,11 @@ class SystemUserSearchContent extends React.Component<
             });
 
         } catch (error) {
+            if (isRequestCancelled(error) || !token.isCurrent()) return;
+
             this.setState({
                 loading: false,
-                error: `Failed to load users: ${error}`,
+                error: this.props.strings.get('ErrorLoadUsers', String(error)),
                 hasSearched: true
             });
         }
@@ -459,46 +873,108 @@ class SystemUserSearchContent extends React.Component<
         await this.loadInitialUsers();
     };
 
-    private isUserSelected = (user: SystemUser): boolean => {
-        return this.state.selectedUsers.some(selectedUser => 
-            (user.systemuserid && user.systemuserid === selectedUser.systemuserid) ||
-            (user.internalemailaddress === selectedUser.internalemailaddress)
-        );
+    /**
+     * Drops the cached directory so that recently added or changed users show up, then reloads
+     */
+    private onRefreshDirectory = async (): Promise<void> => {
+        await this.userService.invalidateDirectoryCache();
+
+        if (this.state.searchTerm.trim()) {
+            await this.onSearch(1);
+        } else {
+            await this.loadInitialUsers();
+        }
     };
 
-    private onUserCheckboxChange = (user: SystemUser, checked: boolean): void => {
-        const { selectedUsers } = this.state;
+    private isRecipientSelected = (recipient: Recipient): boolean => {
+        return this.state.selectedRecipients.some(selectedRecipient => isSameRecipient(recipient, selectedRecipient));
+    };
+
+    private onRecipientCheckboxChange = (recipient: Recipient, checked: boolean): void => {
+        const { selectedRecipients } = this.state;
         
-        let newSelectedUsers: SystemUser[];
+        let newSelectedRecipients: Recipient[];
         
         if (checked) {
-            if (!this.isUserSelected(user)) {
-                newSelectedUsers = [...selectedUsers, user];
+            if (!this.isRecipientSelected(recipient)) {
+                newSelectedRecipients = [...selectedRecipients, recipient];
             } else {
-                newSelectedUsers = selectedUsers;
+                newSelectedRecipients = selectedRecipients;
             }
         } else {
-            newSelectedUsers = selectedUsers.filter(selectedUser => 
-                !(
-                    (user.systemuserid && user.systemuserid === selectedUser.systemuserid) ||
-                    (user.internalemailaddress === selectedUser.internalemailaddress)
-                )
-            );
+            newSelectedRecipients = selectedRecipients.filter(selectedRecipient => !isSameRecipient(recipient, selectedRecipient));
         }
         
-        this.setState({ selectedUsers: newSelectedUsers });
+        this.setState({ selectedRecipients: newSelectedRecipients });
+    };
+
+    private onToggleFavourite = (recipient: Recipient): void => {
+        this.history.toggleFavourite(recipient);
+        this.setState(this.getQuickPicks());
+    };
+
+    /**
+     * Shows the org chart around a user, or closes it when it already shows that user
+     */
+    private onShowOrgChart = (userId: string): void => {
+        this.setState({ orgChartUserId: this.state.orgChartUserId === userId ? null : userId });
     };
 
-    private onConfirmSelection = (): void => {
-        console.log('SystemUserForwardComponent - onConfirmSelection called');
-        console.log('SystemUserForwardComponent - Selected users:', this.state.selectedUsers);
-        this.props.onUsersSelected(this.state.selectedUsers);
+    private onSelectBranch = (recipients: Recipient[]): void => {
+        const added = recipients.filter(recipient => !this.isRecipientSelected(recipient));
+        this.setState({ selectedRecipients: [...this.state.selectedRecipients, ...added] });
+    };
+
+    private onConfirmSelection = async (): Promise<void> => {
+        logger.debug('onConfirmSelection called with recipients:', this.state.selectedRecipients);
+
+        const picked = this.state.selectedRecipients;
+        const token = this.confirmRequests.begin();
+
+        this.setState({ loading: true, error: null });
+
+        try {
+            // Teams are replaced by their members when the control is configured to expand them
+            const recipients = await this.recipientService.expandTeams(this.state.selectedRecipients);
+            if (!token.isCurrent()) return;
+
+            // Team members count towards the limits and must be in the allowed domains too
+            const validation = validateRecipients(recipients, this.getRules(), 'unset', this.props.strings);
+            if (!validation.isValid) {
+                this.setState({ loading: false, error: validation.message });
+                return;
+            }
+
+            this.setState({ loading: false });
+            this.props.onRecipientsSelected(recipients);
+
+            // Remember what was picked (teams as teams, before expansion) for the Recent section,
+            // once the selection has been accepted
+            this.history.recordUse(picked);
+
+        } catch (error) {
+            if (!token.isCurrent()) return;
+
+            this.setState({
+                loading: false,
+                error: this.props.strings.get('ErrorExpandTeams', String(error))
+            });
+        }
     };
 
     private onClearSelection = (): void => {
-        this.setState({ selectedUsers: [] });
+        this.setState({ selectedRecipients: [] });
     };
 
+    private getRules(): RecipientRules {
+        return this.props.recipientRules || DEFAULT_RECIPIENT_RULES;
+    }
+
+    private canConfirm(): boolean {
+        const { selectedRecipients, loading } = this.state;
+        return selectedRecipients.length > 0 && !loading && validateRecipients(selectedRecipients, this.getRules(), 'unset', this.props.strings).isValid;
+    }
+
     private onSearchButtonClick = (): void => {
         this.onSearch(1);
     };
@@ -509,71 +985,416 @@ class SystemUserSearchContent extends React.Component<
         }
     };
 
+    /**
+     * Moves the focus between result rows: up and down one row, Home and End to the first and last
+     */
+    private onResultsKeyDown = (event: React.KeyboardEvent<HTMLDivElement>): void => {
+        const rows = Array.prototype.slice.call(event.currentTarget.querySelectorAll('[data-result-row]')) as HTMLElement[];
+        const current = rows.indexOf(event.target as HTMLElement);
+        if (current === -1) {
+            return;
+        }
+
+        let next: number;
+        switch (event.key) {
+            case 'ArrowDown':
+                next = Math.min(current + 1, rows.length - 1);
+                break;
+            case 'ArrowUp':
+                next = Math.max(current - 1, 0);
+                break;
+            case 'Home':
+                next = 0;
+                break;
+            case 'End':
+                next = rows.length - 1;
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+        rows[next].focus();
+    };
+
+    private onRowFocus = (key: string): void => {
+        if (this.state.activeRowKey !== key) {
+            this.setState({ activeRowKey: key });
+        }
+    };
+
+    /**
+     * Space adds or removes the focused recipient; Enter confirms the selection
+     */
+    private onRowKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, recipient: Recipient, isSelected: boolean): void => {
+        // Keys pressed on the buttons and links inside the row keep their own meaning
+        if (event.target !== event.currentTarget) {
+            return;
+        }
+
+        if (event.key === ' ') {
+            event.preventDefault();
+            this.onRecipientCheckboxChange(recipient, !isSelected);
+        } else if (event.key === 'Enter' && this.canConfirm()) {
+            event.preventDefault();
+            this.onConfirmSelection();
+        }
+    };
+
     private onNextPage = async (): Promise<void> => {
         const { currentPage, hasNextPage, searchTerm } = this.state;
         if (!hasNextPage) return;
 
+        const token = this.resultRequests.begin();
+
         this.setState({ loading: true, error: null });
 
         try {
-            const result = await this.userService.getNextPage(currentPage, searchTerm.trim() || undefined);
+            const result = await this.userService.getNextPage(currentPage, searchTerm.trim() || undefined, token);
+            if (!token.isCurrent()) return;
+
 
             this.setState({
                 searchResults: result.users,
+                searchMatches: result.matches || {},
                 currentPage: result.pagination.currentPage,
                 totalPages: result.pagination.totalPages,
                 totalRecords: result.pagination.totalRecords,
+                pageSize: result.pagination.pageSize,
                 hasNextPage: result.pagination.hasNextPage,
                 hasPreviousPage: result.pagination.hasPreviousPage,
                 loading: false
             });
 
         } catch (error) {
+            if (isRequestCancelled(error) || !token.isCurrent()) return;
+
             this.setState({
                 loading: false,
-                error: `Failed to load next page: ${error}`
+                error: this.props.strings.get('ErrorNextPage', String(error))
             });
         }
     };
 
     private onPreviousPage = async (): Promise<void> => {
-        const { hasPreviousPage, searchTerm } = this.state;
+        const { currentPage, hasPreviousPage, searchTerm } = this.state;
         if (!hasPreviousPage) return;
 
+        const token = this.resultRequests.begin();
+
         this.setState({ loading: true, error: null });
 
         try {
-            // For now, go back to first page (simplified approach)
-            const result = await this.userService.getActiveUsers(1, searchTerm.trim() || undefined);
+            // Pages already visited come straight from the service's page cache
+            const result = await this.userService.getPreviousPage(currentPage, searchTerm.trim() || undefined, token);
+            if (!token.isCurrent()) return;
+
 
             this.setState({
                 searchResults: result.users,
+                searchMatches: result.matches || {},
                 currentPage: result.pagination.currentPage,
                 totalPages: result.pagination.totalPages,
                 totalRecords: result.pagination.totalRecords,
+                pageSize: result.pagination.pageSize,
                 hasNextPage: result.pagination.hasNextPage,
                 hasPreviousPage: result.pagination.hasPreviousPage,
                 loading: false
             });
 
         } catch (error) {
+            if (isRequestCancelled(error) || !token.isCurrent()) return;
+
             this.setState({
                 loading: false,
-                error: `Failed to load previous page: ${error}`
+                error: this.props.strings.get('ErrorPreviousPage', String(error))
             });
         }
     };
 
+    private renderTypeBadge(entityType: RecipientEntityType): React.ReactElement {
+        const iconNames: Record<RecipientEntityType, string> = {
+            systemuser: 'Contact',
+            team: 'People',
+            queue: 'Inbox',
+            contact: 'ContactCard'
+        };
+        const colors = getControlColors(this.props.theme);
+        const foregrounds: Record<RecipientEntityType, string> = {
+            systemuser: colors.accent,
+            team: colors.group,
+            queue: colors.group,
+            contact: colors.external
+        };
+        const backgrounds: Record<RecipientEntityType, string> = {
+            systemuser: colors.accentSubtle,
+            team: colors.groupSubtle,
+            queue: colors.groupSubtle,
+            contact: colors.externalSubtle
+        };
+
+        return (
+            <span style={{ 
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '2px 8px',
+                borderRadius: '10px',
+                fontSize: '11px',
+                fontWeight: 600,
+                color: foregrounds[entityType],
+                backgroundColor: backgrounds[entityType],
+                // Badges are told apart by colour only, so give them an outline in high contrast
+                border: '1px solid transparent'
+            }}>
+                <Icon iconName={iconNames[entityType]} />
+                {this.props.strings.get(`RecipientType_${entityType}` as const)}
+            </span>
+        );
+    }
+
+    /**
+     * Renders one result row
+     * @param recipient The recipient
+     * @param tabbable Whether Tab stops on the row; the other rows are reached with the arrow keys
+     */
+    private renderRecipientRow(recipient: Recipient, tabbable: boolean): React.ReactElement {
+        const isSelected = this.isRecipientSelected(recipient);
+        const key = getRecipientKey(recipient);
+        const highlights = recipient.entityType === 'systemuser' && this.state.searchMatches[recipient.id]
+            ? this.state.searchMatches[recipient.id].highlights
+            : {};
+        const colors = getControlColors(this.props.theme);
+        const cellStyle: React.CSSProperties = { 
+            fontSize: '14px', 
+            color: colors.text,
+            padding: '4px 0'
+        };
+
+        return (
+            <div key={key}
+                 role="row"
+                 aria-selected={isSelected}
+                 data-result-row
+                 tabIndex={tabbable ? 0 : -1}
+                 onFocus={() => this.onRowFocus(key)}
+                 onKeyDown={(event) => this.onRowKeyDown(event, recipient, isSelected)}
+                 className={isSelected ? getSelectedRowClassName() : undefined}
+                 style={{ 
+                    display: 'grid', 
+                    gridTemplateColumns: '40px 1fr 1fr 80px 2fr 36px', 
+                    gap: '0',
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    alignItems: 'center',
+                    background: isSelected ? colors.accentSubtle : colors.surface,
+                    cursor: 'pointer'
+                 }}
+                 onClick={() => this.onRecipientCheckboxChange(recipient, !isSelected)}>
+                <div role="gridcell">
+                    <input
+                        type="checkbox"
+                        checked={isSelected}
+                        tabIndex={-1}
+                        aria-label={this.props.strings.get('SelectRecipientLabel', recipient.displayName || recipient.email)}
+                        onChange={(e) => {
+                            e.stopPropagation();
+                            this.onRecipientCheckboxChange(recipient, e.target.checked);
+                        }}
+                        style={{ 
+                            cursor: 'pointer',
+                            transform: 'scale(1.2)'
+                        }}
+                    />
+                </div>
+                {recipient.entityType === 'systemuser' ? (
+                    <>
+                        <div role="gridcell" style={cellStyle}>
+                            {recipient.user.firstname ? renderHighlightedText(recipient.user.firstname, highlights.firstname, colors.searchHighlight) : this.props.strings.get('NotAvailable')}
+                        </div>
+                        <div role="gridcell" style={cellStyle}>
+                            {recipient.user.lastname ? renderHighlightedText(recipient.user.lastname, highlights.lastname, colors.searchHighlight) : this.props.strings.get('NotAvailable')}
+                        </div>
+                    </>
+                ) : (
+                    <div role="gridcell" aria-colspan={2} style={{ ...cellStyle, gridColumn: 'span 2' }}>
+                        {recipient.displayName || this.props.strings.get('NotAvailable')}
+                        {recipient.entityType === 'contact' && recipient.accountName && (
+                            <span style={{ color: colors.textSecondary, fontSize: '12px' }}> • {recipient.accountName}</span>
+                        )}
+                    </div>
+                )}
+                <div role="gridcell">
+                    {this.renderTypeBadge(recipient.entityType)}
+                </div>
+                <div role="gridcell" style={{ ...cellStyle, color: colors.textSecondary }}>
+                    {recipient.email
+                        ? renderHighlightedText(recipient.email, highlights.internalemailaddress, colors.searchHighlight)
+                        : this.props.strings.get(recipient.entityType === 'team' ? 'MembersWillBeAdded' : 'NoEmail')}
+                </div>
+                <div role="gridcell">
+                    {this.renderFavouriteButton(recipient)}
+                </div>
+                {recipient.entityType === 'systemuser' && this.renderUserDetails(recipient.user, highlights)}
+            </div>
+        );
+    }
+
+    /**
+     * Renders job title, department, business unit, phone (or the directory view's columns) and manager
+     * under a user's name (when known), with a link to the org chart around the user
+     */
+    private renderUserDetails(user: SystemUser, highlights: UserSearchMatch['highlights']): React.ReactElement {
+        const colors = getControlColors(this.props.theme);
+        const details: { key: string; value: React.ReactNode }[] = [];
+        const addDetail = (field: 'title' | 'department' | 'businessunitname' | 'address1_telephone1', iconName: string): void => {
+            const value = user[field];
+            if (value) {
+                details.push({
+                    key: field,
+                    value: <><Icon iconName={iconName} styles={{ root: { fontSize: '11px', marginInlineEnd: '4px' } }} />{renderHighlightedText(value, highlights[field], colors.searchHighlight)}</>
+                });
+            }
+        };
+
+        if (user.viewColumns) {
+            // A directory view's layout decides the columns; the ones the search covers keep their highlights
+            const searchedFields: Record<string, keyof UserSearchMatch['highlights']> = {
+                title: 'title',
+                businessunitid: 'businessunitname',
+                address1_telephone1: 'address1_telephone1',
+                ...(this.props.departmentColumn ? { [this.props.departmentColumn]: 'department' } : {})
+            };
+            user.viewColumns.forEach(column => {
+                const field = searchedFields[column.name];
+                details.push({
+                    key: `view-${column.name}`,
+                    value: <>{renderHighlightedText(column.value, field ? highlights[field] : undefined, colors.searchHighlight)}</>
+                });
+            });
+        } else {
+            addDetail('title', 'Work');
+            addDetail('department', 'Org');
+            addDetail('businessunitname', 'CityNext');
+            addDetail('address1_telephone1', 'Phone');
+        }
+
+        if (user.managername) {
+            details.push({ key: 'manager', value: <>{this.props.strings.get('ReportsTo', user.managername)}</> });
+        }
+
+        details.push({
+            key: 'orgchart',
+            value: (
+                <Link
+                    onClick={(event) => {
+                        event.stopPropagation();
+                        this.onShowOrgChart(user.systemuserid);
+                    }}
+                    styles={{ root: { fontSize: '12px' } }}
+                >
+                    {this.props.strings.get('OrgChart')}
+                </Link>
+            )
+        });
+
+        return (
+            <div role="gridcell" aria-colspan={4} style={{ gridColumn: '2 / span 4', display: 'flex', flexWrap: 'wrap', gap: '12px', fontSize: '12px', color: colors.textSecondary, paddingTop: '2px' }}>
+                {details.map(detail => <span key={detail.key}>{detail.value}</span>)}
+            </div>
+        );
+    }
+
+    private renderFavouriteButton(recipient: Recipient): React.ReactElement {
+        const { strings, theme } = this.props;
+        const colors = getControlColors(theme);
+        const isFavourite = this.state.favouriteRecipients.some(favourite => isSameRecipient(favourite, recipient));
+
+        return (
+            <IconButton
+                iconProps={{ iconName: isFavourite ? 'FavoriteStarFill' : 'FavoriteStar' }}
+                title={strings.get(isFavourite ? 'RemoveFavourite' : 'AddFavourite')}
+                ariaLabel={strings.get(isFavourite ? 'RemoveFavouriteLabel' : 'AddFavouriteLabel', recipient.displayName)}
+                onClick={(event) => {
+                    event.stopPropagation();
+                    this.onToggleFavourite(recipient);
+                }}
+                styles={{ root: { color: isFavourite ? colors.favourite : colors.textDisabled, width: '32px', height: '32px' } }}
+            />
+        );
+    }
+
+    /**
+     * Renders one line of quick-pick chips (favourites or recents); a click adds or removes the recipient
+     */
+    private renderQuickPickRow(label: string, iconName: string, recipients: Recipient[]): React.ReactElement | null {
+        if (recipients.length === 0) {
+            return null;
+        }
+
+        const colors = getControlColors(this.props.theme);
+
+        return (
+            <Stack horizontal wrap tokens={{ childrenGap: 8 }} verticalAlign="center">
+                <Text variant="small" styles={{ root: { color: colors.textSecondary, fontWeight: 600, minWidth: '80px' } }}>
+                    <Icon iconName={iconName} /> {label}
+                </Text>
+                {recipients.map(recipient => {
+                    const isSelected = this.isRecipientSelected(recipient);
+
+                    return (
+                        <DefaultButton
+                            key={getRecipientKey(recipient)}
+                            text={recipient.displayName || recipient.email}
+                            title={recipient.email}
+                            iconProps={{ iconName: isSelected ? 'CheckMark' : 'Add' }}
+                            toggle
+                            checked={isSelected}
+                            onClick={() => this.onRecipientCheckboxChange(recipient, !isSelected)}
+                            styles={{
+                                root: { height: '28px', borderRadius: '14px', padding: '0 10px', fontSize: '12px' },
+                                rootChecked: [
+                                    { backgroundColor: colors.accentSubtle, borderColor: colors.accent },
+                                    forcedColors({ borderColor: 'Highlight', outline: '1px solid Highlight' })
+                                ]
+                            }}
+                        />
+                    );
+                })}
+            </Stack>
+        );
+    }
+
     public render(): React.ReactElement {
-        const { onCancel } = this.props;
-        const { searchTerm, searchResults, selectedUsers, loading, error, hasSearched, currentPage, totalPages, totalRecords, hasNextPage, hasPreviousPage } = this.state;
+        const { onCancel, strings, theme } = this.props;
+        const colors = getControlColors(theme);
+        const { searchTerm, searchResults, groupResults, contactResults, contactPage, contactHasNextPage, contactHasPreviousPage, recentRecipients, favouriteRecipients, orgChartUserId, selectedRecipients, loading, error, hasSearched, currentPage, totalPages, totalRecords, pageSize, hasNextPage, hasPreviousPage } = this.state;
+        const externalCount = selectedRecipients.filter(recipient => recipient.isExternal).length;
+        // An empty selection cannot be confirmed anyway, so only the other rules are explained here
+        const validation = validateRecipients(selectedRecipients, this.getRules(), 'unset', strings);
+        const hasResults = searchResults.length > 0 || groupResults.length > 0 || contactResults.length > 0;
+        const firstRecord = searchResults.length > 0 ? (currentPage - 1) * pageSize + 1 : 0;
+        const lastRecord = searchResults.length > 0 ? firstRecord + searchResults.length - 1 : 0;
+        const resultRecipients = [...searchResults.map(user => userToRecipient(user)), ...groupResults, ...contactResults];
+        const resultKeys = resultRecipients.map(recipient => getRecipientKey(recipient));
+        const tabbableKey = this.state.activeRowKey && resultKeys.indexOf(this.state.activeRowKey) !== -1 ? this.state.activeRowKey : resultKeys[0];
+        const renderRow = (recipient: Recipient): React.ReactElement => this.renderRecipientRow(recipient, getRecipientKey(recipient) === tabbableKey);
+
+        // Errors and "no results" are read from their message bars; searches and result counts from here
+        const announcement = loading
+            ? strings.get('SearchingUsers')
+            : hasSearched && hasResults && !error
+                ? strings.plural('ResultsFound', totalRecords + groupResults.length + contactResults.length)
+                : undefined;
 
         return (
+            // The panel is rendered in a layer outside the form, so it sets the reading direction itself
             <Stack tokens={{ childrenGap: 24 }} 
+                   dir={strings.isRtl ? 'rtl' : 'ltr'}
                    styles={{ 
                        root: { 
                            padding: '24px',
-                           background: 'linear-gradient(145deg, #f8f9fa 0%, #ffffff 50%, #f1f3f5 100%)',
+                           background: colors.surfaceAlt,
                            minHeight: '500px',
                            fontFamily: 'Segoe UI, "Segoe UI Web (West European)", "Segoe UI", -apple-system, BlinkMacSystemFont, Roboto, "Helvetica Neue", sans-serif'
                        } 
@@ -582,51 +1403,55 @@ class SystemUserSearchContent extends React.Component<
                 <Stack tokens={{ childrenGap: 18 }} 
                        styles={{ 
                            root: { 
-                               background: 'linear-gradient(135deg, #ffffff 0%, #f8f9fa 100%)', 
+                               background: colors.surface, 
                                padding: '24px', 
                                borderRadius: '12px', 
-                               border: '2px solid #e9ecef',
-                               boxShadow: '0 4px 16px rgba(0,0,0,0.08)',
+                               border: `2px solid ${colors.border}`,
+                               boxShadow: theme.effects.elevation4,
                                position: 'relative',
                                overflow: 'hidden'
                            } 
                        }}>
                     <Stack tokens={{ childrenGap: 8 }}>
-                        <Text variant="mediumPlus" styles={{ root: { fontWeight: 600, color: '#323130' } }}>
-                            Search Active AD Users
+                        <Text variant="mediumPlus" styles={{ root: { fontWeight: 600, color: colors.text } }}>
+                            {strings.get('SearchHeader')}
                         </Text>
-                        <Text variant="small" styles={{ root: { color: '#605e5c', fontStyle: 'italic' } }}>
-                            Showing only enabled users from Active Directory with assigned departments
+                        <Text variant="small" styles={{ root: { color: colors.textSecondary, fontStyle: 'italic' } }}>
+                            {strings.get('SearchSubheader')}
                         </Text>
                     </Stack>
                     <Stack horizontal tokens={{ childrenGap: 15 }} verticalAlign="end">
                         <Stack.Item grow={3}>
                             <TextField
-                                label="Search by Name"
-                                placeholder="Enter first name, last name, or email..."
+                                label={strings.get('SearchLabel')}
+                                placeholder={strings.get(this.props.includeContacts ? 'SearchPlaceholderWithContacts' : 'SearchPlaceholder')}
+                                description={strings.get('SearchDescription')}
                                 value={searchTerm}
                                 onChange={(_, newValue) => this.setState({ searchTerm: newValue || '' })}
                                 onKeyPress={this.onKeyPress}
-                                disabled={loading}
+                                inputClassName="forward-search-input"
+                                // Stays enabled while results load, so the panel's initial focus and the
+                                // caret of someone typing are not lost
+                                aria-busy={loading}
                                 styles={{
                                     root: { width: '100%', minWidth: '400px' },
-                                    fieldGroup: { borderRadius: '4px', border: '2px solid #e1e5e9' },
+                                    fieldGroup: { borderRadius: '4px', border: `2px solid ${colors.borderStrong}` },
                                     field: { padding: '8px 12px' }
                                 }}
                             />
                         </Stack.Item>
                         <PrimaryButton
-                            text="Search"
+                            text={strings.get('SearchButton')}
                             iconProps={{ iconName: 'Search' }}
                             onClick={this.onSearchButtonClick}
                             disabled={loading || !searchTerm.trim()}
                             styles={{
                                 root: { minWidth: '100px', height: '32px', borderRadius: '4px' },
-                                rootHovered: { backgroundColor: '#106ebe' }
+                                rootHovered: { backgroundColor: colors.accentHover }
                             }}
                         />
                         <DefaultButton
-                            text="Clear"
+                            text={strings.get('Clear')}
                             iconProps={{ iconName: 'Clear' }}
                             onClick={this.onClear}
                             disabled={loading}
@@ -634,11 +1459,37 @@ class SystemUserSearchContent extends React.Component<
                                 root: { minWidth: '80px', height: '32px', borderRadius: '4px' }
                             }}
                         />
+                        <DefaultButton
+                            text={strings.get('OrgChart')}
+                            title={strings.get('OrgChartTitle')}
+                            iconProps={{ iconName: 'Org' }}
+                            onClick={() => this.onShowOrgChart(this.props.context.userSettings.userId)}
+                            toggle
+                            checked={this.state.orgChartUserId !== null}
+                            disabled={loading}
+                            styles={{
+                                root: { minWidth: '80px', height: '32px', borderRadius: '4px' }
+                            }}
+                        />
+                        {!!this.props.directoryCacheMinutes && (
+                            <DefaultButton
+                                text={strings.get('Refresh')}
+                                title={strings.get('RefreshTitle')}
+                                iconProps={{ iconName: 'Refresh' }}
+                                onClick={this.onRefreshDirectory}
+                                disabled={loading}
+                                styles={{
+                                    root: { minWidth: '80px', height: '32px', borderRadius: '4px' }
+                                }}
+                            />
+                        )}
                     </Stack>
                 </Stack>
 
                 <Separator />
 
+                <Announced message={announcement} />
+
                 {/* Error Display */}
                 {error && (
                     <MessageBar messageBarType={MessageBarType.error}>
@@ -646,41 +1497,80 @@ class SystemUserSearchContent extends React.Component<
                     </MessageBar>
                 )}
 
-                {/* Selected Users Info */}
-                {selectedUsers.length > 0 && (
+                {/* Selected Recipients Info */}
+                {selectedRecipients.length > 0 && (
                     <MessageBar messageBarType={MessageBarType.info}>
-                        {selectedUsers.length} user(s) selected
+                        {strings.plural('RecipientsSelected', selectedRecipients.length)}
+                        {externalCount > 0 && ` ${strings.get('ExternalCount', externalCount)}`}
                     </MessageBar>
                 )}
 
+                {/* Why the selection cannot be confirmed */}
+                {!validation.isValid && (
+                    <MessageBar messageBarType={MessageBarType.warning}>
+                        {validation.message}
+                    </MessageBar>
+                )}
+
+                {/* Favourites and Recent - one click adds them to the selection */}
+                {(favouriteRecipients.length > 0 || recentRecipients.length > 0) && (
+                    <Stack tokens={{ childrenGap: 10 }}
+                           styles={{ 
+                               root: { 
+                                   background: colors.surface, 
+                                   padding: '16px 20px', 
+                                   borderRadius: '12px', 
+                                   border: `2px solid ${colors.border}`
+                               } 
+                           }}>
+                        {this.renderQuickPickRow(strings.get('Favourites'), 'FavoriteStarFill', favouriteRecipients)}
+                        {this.renderQuickPickRow(strings.get('Recent'), 'History', recentRecipients)}
+                    </Stack>
+                )}
+
+                {/* Org chart - whole branches can be selected at once */}
+                {orgChartUserId && (
+                    <OrgChartTree
+                        userService={this.userService}
+                        focusUserId={orgChartUserId}
+                        maxDepth={Math.min(Math.max(this.props.hierarchyDepth || 3, 1), 10)}
+                        isSelected={this.isRecipientSelected}
+                        onToggle={this.onRecipientCheckboxChange}
+                        onSelectBranch={this.onSelectBranch}
+                        onClose={() => this.setState({ orgChartUserId: null })}
+                        strings={strings}
+                        theme={theme}
+                    />
+                )}
+
                 {/* Search Results */}
-                {hasSearched && !loading && searchResults.length === 0 && !error && (
+                {hasSearched && !loading && !hasResults && !error && (
                     <MessageBar messageBarType={MessageBarType.info}>
-                        No users found. Try adjusting your search criteria.
+                        {strings.get('NoRecipientsFound')}
                     </MessageBar>
                 )}
 
-                {hasSearched && !loading && searchResults.length > 0 && (
+                {hasSearched && !loading && hasResults && (
                     <Stack tokens={{ childrenGap: 16 }}
                            styles={{ 
                                root: { 
-                                   background: 'linear-gradient(135deg, #ffffff 0%, #f8f9fa 100%)', 
+                                   background: colors.surface, 
                                    borderRadius: '12px', 
-                                   border: '2px solid #e9ecef',
-                                   boxShadow: '0 6px 20px rgba(0,0,0,0.1)',
+                                   border: `2px solid ${colors.border}`,
+                                   boxShadow: theme.effects.elevation8,
                                    overflow: 'hidden'
                                } 
                            }}>
                         
                         {/* Action Buttons - Moved to top */}
                         <Stack horizontal horizontalAlign="space-between" tokens={{ childrenGap: 15 }}
-                               styles={{ root: { padding: '20px 20px 16px', borderBottom: '2px solid #f3f2f1', backgroundColor: '#f8f9fa' } }}>
-                            <Text variant="medium" styles={{ root: { fontWeight: 600, color: '#2c3e50' } }}>
-                                📋 Active AD Users (A-Z)
+                               styles={{ root: { padding: '20px 20px 16px', borderBottom: `2px solid ${colors.border}`, backgroundColor: colors.surfaceAlt } }}>
+                            <Text variant="medium" styles={{ root: { fontWeight: 600, color: colors.text } }}>
+                                <Icon iconName="ClipboardList" /> {strings.get('RecipientsHeader')}
                             </Text>
                             <Stack horizontal tokens={{ childrenGap: 12 }}>
                                 <DefaultButton
-                                    text="Cancel"
+                                    text={strings.get('Cancel')}
                                     onClick={onCancel}
                                     disabled={loading}
                                     styles={{
@@ -688,24 +1578,24 @@ class SystemUserSearchContent extends React.Component<
                                             minWidth: '100px', 
                                             height: '36px',
                                             borderRadius: '4px',
-                                            border: '1px solid #d1d1d1'
+                                            border: `1px solid ${colors.borderStrong}`
                                         }
                                     }}
                                 />
                                 <PrimaryButton
-                                    text={selectedUsers.length > 0 ? `Select ${selectedUsers.length} User(s)` : 'Select Users'}
+                                    text={selectedRecipients.length > 0 ? strings.plural('SelectRecipientsCount', selectedRecipients.length) : strings.get('SelectRecipients')}
                                     onClick={this.onConfirmSelection}
-                                    disabled={selectedUsers.length === 0 || loading}
+                                    disabled={selectedRecipients.length === 0 || !validation.isValid || loading}
                                     styles={{
                                         root: { 
                                             minWidth: '140px', 
                                             height: '36px',
                                             borderRadius: '4px',
-                                            backgroundColor: '#0078d4',
+                                            backgroundColor: colors.accent,
                                             border: 'none'
                                         },
                                         rootHovered: {
-                                            backgroundColor: '#106ebe'
+                                            backgroundColor: colors.accentHover
                                         }
                                     }}
                                 />
@@ -716,103 +1606,122 @@ class SystemUserSearchContent extends React.Component<
                         <Stack horizontal horizontalAlign="space-between" verticalAlign="center" 
                                styles={{ root: { padding: '0 20px' } }}>
                             <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="center">
-                                <Text variant="small" styles={{ root: { color: '#0078d4', fontWeight: 600 } }}>
-                                    {searchResults.length} users • Page {currentPage} of {totalPages}
+                                <Text variant="small" styles={{ root: { color: colors.accent, fontWeight: 600 } }}>
+                                    {strings.get('UsersRange', firstRecord, lastRecord, totalRecords)} • {strings.get('PageOf', currentPage, totalPages)}
                                 </Text>
-                                <Text variant="small" styles={{ root: { color: '#6c757d', fontWeight: 500 } }}>
-                                    • Sorted A-Z by first name
+                                <Text variant="small" styles={{ root: { color: colors.textSecondary, fontWeight: 500 } }}>
+                                    {Object.keys(this.state.searchMatches).length > 0
+                                        ? `• ${strings.get('BestMatchesFirst')}`
+                                        : `• ${strings.get('SortedByFirstName')}`}
                                 </Text>
                             </Stack>
                         </Stack>
 
                         {/* Results Grid */}
-                        <div style={{ 
+                        <span id={this.keyboardHintId} className={screenReaderOnlyClassName}>
+                            {strings.get('ResultsKeyboardHint')}
+                        </span>
+                        <div role="grid"
+                             aria-multiselectable={true}
+                             aria-label={strings.get('ResultsGridLabel')}
+                             aria-describedby={this.keyboardHintId}
+                             onKeyDown={this.onResultsKeyDown}
+                             style={{ 
                             maxHeight: '300px', 
                             overflowY: 'auto',
                             margin: '0 20px',
-                            border: '1px solid #edebe9',
+                            border: `1px solid ${colors.border}`,
                             borderRadius: '4px'
                         }}>
-                            <div style={{ 
+                            <div role="row" style={{ 
                                 display: 'grid', 
-                                gridTemplateColumns: '40px 1fr 1fr 2fr', 
+                                gridTemplateColumns: '40px 1fr 1fr 80px 2fr 36px', 
                                 gap: '0',
-                                background: '#f8f9fa',
+                                background: colors.surfaceAlt,
                                 padding: '12px 16px',
                                 fontWeight: 600,
                                 fontSize: '14px',
-                                color: '#323130',
-                                borderBottom: '2px solid #e1e5e9'
+                                color: colors.text,
+                                borderBottom: `2px solid ${colors.borderStrong}`
                             }}>
-                                <div></div>
-                                <div>First Name</div>
-                                <div>Last Name</div>
-                                <div>Email</div>
+                                <div role="columnheader"></div>
+                                <div role="columnheader">{strings.get('ColumnFirstName')}</div>
+                                <div role="columnheader">{strings.get('ColumnLastName')}</div>
+                                <div role="columnheader">{strings.get('ColumnType')}</div>
+                                <div role="columnheader">{strings.get('ColumnEmail')}</div>
+                                <div role="columnheader"></div>
                             </div>
-                            {searchResults.map((user, index) => (
-                                <div key={user.systemuserid || user.internalemailaddress || index} 
-                                     style={{ 
-                                        display: 'grid', 
-                                        gridTemplateColumns: '40px 1fr 1fr 2fr', 
-                                        gap: '0',
-                                        padding: '12px 16px',
-                                        borderBottom: '1px solid #f3f2f1',
-                                        alignItems: 'center',
-                                        background: this.isUserSelected(user) ? '#f0f6ff' : 'white',
-                                        cursor: 'pointer'
-                                     }}
-                                     onClick={() => this.onUserCheckboxChange(user, !this.isUserSelected(user))}>
-                                    <input
-                                        type="checkbox"
-                                        checked={this.isUserSelected(user)}
-                                        onChange={(e) => {
-                                            e.stopPropagation();
-                                            this.onUserCheckboxChange(user, e.target.checked);
-                                        }}
-                                        style={{ 
-                                            cursor: 'pointer',
-                                            transform: 'scale(1.2)'
-                                        }}
-                                    />
-                                    <div style={{ 
-                                        fontSize: '14px', 
-                                        color: '#323130',
-                                        padding: '4px 0'
-                                    }}>
-                                        {user.firstname || 'N/A'}
-                                    </div>
-                                    <div style={{ 
-                                        fontSize: '14px', 
-                                        color: '#323130',
-                                        padding: '4px 0'
-                                    }}>
-                                        {user.lastname || 'N/A'}
-                                    </div>
-                                    <div style={{ 
-                                        fontSize: '14px', 
-                                        color: '#605e5c',
-                                        padding: '4px 0'
-                                    }}>
-                                        {user.internalemailaddress || 'No email'}
-                                    </div>
+                            {searchResults.map(user => renderRow(userToRecipient(user)))}
+                            {groupResults.length > 0 && (
+                                <div role="row" style={{ 
+                                    padding: '8px 16px',
+                                    background: colors.surfaceAlt,
+                                    fontWeight: 600,
+                                    fontSize: '12px',
+                                    color: colors.textSecondary,
+                                    borderBottom: `1px solid ${colors.borderStrong}`,
+                                    textTransform: 'uppercase',
+                                    letterSpacing: '0.5px'
+                                }}>
+                                    <span role="gridcell" aria-colspan={6}>{strings.get('TeamsAndQueues')}</span>
+                                </div>
+                            )}
+                            {groupResults.map(renderRow)}
+                            {contactResults.length > 0 && (
+                                <div role="row" style={{ 
+                                    display: 'flex',
+                                    justifyContent: 'space-between',
+                                    alignItems: 'center',
+                                    padding: '8px 16px',
+                                    background: colors.surfaceAlt,
+                                    fontWeight: 600,
+                                    fontSize: '12px',
+                                    color: colors.textSecondary,
+                                    borderBottom: `1px solid ${colors.borderStrong}`,
+                                    textTransform: 'uppercase',
+                                    letterSpacing: '0.5px'
+                                }}>
+                                    <span role="gridcell" aria-colspan={4}>{strings.get('ExternalContactsPage', contactPage)}</span>
+                                    <Stack horizontal role="navigation" aria-label={strings.get('ContactPaginationLabel')} tokens={{ childrenGap: 4 }}>
+                                        <IconButton
+                                            iconProps={{ iconName: strings.isRtl ? 'ChevronRight' : 'ChevronLeft' }}
+                                            title={strings.get('PreviousContacts')}
+                                            ariaLabel={strings.get('PreviousContacts')}
+                                            onClick={() => this.onContactPageChange(contactPage - 1)}
+                                            disabled={!contactHasPreviousPage || loading}
+                                            styles={{ root: { width: '32px', height: '24px' } }}
+                                        />
+                                        <IconButton
+                                            iconProps={{ iconName: strings.isRtl ? 'ChevronLeft' : 'ChevronRight' }}
+                                            title={strings.get('NextContacts')}
+                                            ariaLabel={strings.get('NextContacts')}
+                                            onClick={() => this.onContactPageChange(contactPage + 1)}
+                                            disabled={!contactHasNextPage || loading}
+                                            styles={{ root: { width: '32px', height: '24px' } }}
+                                        />
+                                    </Stack>
                                 </div>
-                            ))}
+                            )}
+                            {contactResults.map(renderRow)}
                         </div>
 
                         {/* Pagination - Always show when we have results */}
                         {searchResults.length > 0 && (
                             <Stack horizontal horizontalAlign="space-between" verticalAlign="center"
+                                   role="navigation"
+                                   aria-label={strings.get('PaginationLabel')}
                                    styles={{ 
                                        root: { 
                                            padding: '16px 20px', 
-                                           borderTop: '1px solid #f3f2f1',
-                                           backgroundColor: '#f8f9fa',
+                                           borderTop: `1px solid ${colors.border}`,
+                                           backgroundColor: colors.surfaceAlt,
                                            borderRadius: '0 0 12px 12px'
                                        } 
                                    }}>
                                 <Stack horizontal tokens={{ childrenGap: 12 }} verticalAlign="center">
                                     <DefaultButton
-                                        text="⬅ Previous"
+                                        text={strings.get('PreviousPage')}
+                                        iconProps={{ iconName: strings.isRtl ? 'ChevronRight' : 'ChevronLeft' }}
                                         onClick={this.onPreviousPage}
                                         disabled={currentPage <= 1 || loading}
                                         styles={{ 
@@ -825,28 +1734,29 @@ class SystemUserSearchContent extends React.Component<
                                         }}
                                     />
                                     <DefaultButton
-                                        text="Next ➡"
+                                        text={strings.get('NextPage')}
+                                        menuIconProps={{ iconName: strings.isRtl ? 'ChevronLeft' : 'ChevronRight' }}
                                         onClick={this.onNextPage}
-                                        disabled={currentPage >= 99 || loading} // 495/5 = 99 pages max
+                                        disabled={!hasNextPage || loading}
                                         styles={{ 
                                             root: { 
                                                 minWidth: '110px',
                                                 height: '36px',
                                                 borderRadius: '6px',
                                                 fontWeight: 500,
-                                                backgroundColor: hasNextPage ? '#0078d4' : undefined,
-                                                color: hasNextPage ? 'white' : undefined,
+                                                backgroundColor: hasNextPage ? colors.accent : undefined,
+                                                color: hasNextPage ? colors.onAccent : undefined,
                                                 border: hasNextPage ? 'none' : undefined
                                             } 
                                         }}
                                     />
                                 </Stack>
                                 <Stack tokens={{ childrenGap: 4 }}>
-                                    <Text variant="small" styles={{ root: { color: '#605e5c', fontWeight: 600 } }}>
-                                        Page {currentPage}
+                                    <Text variant="small" styles={{ root: { color: colors.textSecondary, fontWeight: 600 } }}>
+                                        {strings.get('PageOf', currentPage, totalPages)}
                                     </Text>
-                                    <Text variant="small" styles={{ root: { color: '#6c757d', fontSize: '12px' } }}>
-                                        Showing {searchResults.length} users
+                                    <Text variant="small" styles={{ root: { color: colors.textSecondary, fontSize: '12px' } }}>
+                                        {strings.get('ShowingUsers', searchResults.length, totalRecords)}
                                     </Text>
                                 </Stack>
                             </Stack>
@@ -857,17 +1767,10 @@ class SystemUserSearchContent extends React.Component<
                 {/* Loading Indicator */}
                 {loading && (
                     <Stack horizontalAlign="center" tokens={{ childrenGap: 10 }}
-                           styles={{ root: { padding: '40px', background: 'white', borderRadius: '8px', border: '1px solid #e1e5e9' } }}>
-                        <div style={{ 
-                            width: '40px', 
-                            height: '40px', 
-                            border: '4px solid #f3f3f3', 
-                            borderTop: '4px solid #0078d4', 
-                            borderRadius: '50%', 
-                            animation: 'spin 1s linear infinite' 
-                        }}></div>
-                        <Text variant="medium" styles={{ root: { color: '#605e5c' } }}>
-                            Searching users...
+                           styles={{ root: { padding: '40px', background: colors.surface, borderRadius: '8px', border: `1px solid ${colors.borderStrong}` } }}>
+                        <Spinner size={SpinnerSize.large} />
+                        <Text variant="medium" styles={{ root: { color: colors.textSecondary } }}>
+                            {strings.get('SearchingUsers')}
                         </Text>
                     </Stack>
                 )}
@@ -875,19 +1778,19 @@ class SystemUserSearchContent extends React.Component<
                 <Separator styles={{ root: { margin: '20px 0' } }} />
 
                 {/* Clear Selection - Keep this at bottom */}
-                {selectedUsers.length > 0 && (
+                {selectedRecipients.length > 0 && (
                     <Stack horizontalAlign="center">
                         <DefaultButton
-                            text="Clear Selection"
+                            text={strings.get('ClearSelection')}
                             iconProps={{ iconName: 'Clear' }}
                             onClick={this.onClearSelection}
-                            disabled={selectedUsers.length === 0 || loading}
+                            disabled={selectedRecipients.length === 0 || loading}
                             styles={{
                                 root: { 
                                     minWidth: '120px', 
                                     height: '36px',
                                     borderRadius: '4px',
-                                    border: '1px solid #d1d1d1'
+                                    border: `1px solid ${colors.borderStrong}`
                                 }
                             }}
                         />
@@ -1,2 +1,8 @@
 // Main Component with integrated search functionality
-export { SystemUserForwardComponent } from './SystemUserForwardComponent';
\ No newline at end of file
+export { SystemUserForwardComponent } from './SystemUserForwardComponent';
+
+// Inline typeahead picker (alternative display mode)
+export { RecipientPeoplePicker } from './RecipientPeoplePicker';
+
+// Summary shown when the recipients cannot be edited
+export { ReadOnlyRecipients } from './ReadOnlyRecipients';
\ No newline at end of file
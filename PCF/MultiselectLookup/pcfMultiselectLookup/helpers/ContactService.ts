@@ -0,0 +1,130 @@
+/**
+ * Service for searching external contacts as forward recipients, with its own paging
+ */
+
+import { ContactRecipient } from './Recipient';
+import { Logger } from './Logger';
+
+const logger = new Logger('ContactService');
+
+export interface ContactSearchResult {
+    contacts: ContactRecipient[];
+    currentPage: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+}
+
+export class ContactService {
+    private context: ComponentFramework.Context<unknown>;
+    private webAPI: ComponentFramework.WebApi; // Timed when Web API timings are on
+    private pageSize: number = 5;
+    private pagedSearchKey: string = ''; // Search term the page caches belong to
+    private pageData: Map<number, ContactRecipient[]> = new Map(); // Cache page data
+    private nextLinks: Map<number, string> = new Map(); // Server paging link following each page
+
+    constructor(context: ComponentFramework.Context<unknown>) {
+        this.context = context;
+        this.webAPI = logger.timeWebApi(context.webAPI);
+    }
+
+    /**
+     * Searches active contacts with an email address by name, email or parent account name.
+     * Pages are read forwards with the server's paging links and cached, so going back is local.
+     * @param page Page number (1-based)
+     * @param searchTerm Optional search term
+     * @returns Promise with the contacts of the page
+     */
+    public async searchContacts(page: number = 1, searchTerm?: string): Promise<ContactSearchResult> {
+        try {
+            const searchKey = (searchTerm || '').trim().toLowerCase();
+            if (searchKey !== this.pagedSearchKey) {
+                this.clearCache();
+                this.pagedSearchKey = searchKey;
+            }
+
+            // Pages can only be reached in order; walk forward to the requested page if needed
+            let targetPage = 1;
+            if (!this.pageData.has(1)) {
+                await this.fetchPage(1, searchTerm);
+            }
+
+            while (targetPage < page && this.nextLinks.has(targetPage)) {
+                targetPage++;
+                if (!this.pageData.has(targetPage)) {
+                    await this.fetchPage(targetPage, searchTerm);
+                }
+            }
+
+            return {
+                contacts: this.pageData.get(targetPage) || [],
+                currentPage: targetPage,
+                hasNextPage: this.nextLinks.has(targetPage),
+                hasPreviousPage: targetPage > 1
+            };
+
+        } catch (error) {
+            logger.error('Error retrieving contacts:', error);
+            throw new Error(`Failed to retrieve contacts: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Clears the contact page caches
+     */
+    public clearCache(): void {
+        this.pageData.clear();
+        this.nextLinks.clear();
+    }
+
+    /**
+     * Sets the page size for contact paging
+     * @param size Number of records per page
+     */
+    public setPageSize(size: number): void {
+        this.pageSize = size;
+        this.clearCache();
+    }
+
+    private async fetchPage(page: number, searchTerm?: string): Promise<void> {
+        const previousLink = page > 1 ? this.nextLinks.get(page - 1) : undefined;
+        const query = previousLink ? new URL(previousLink).search : this.buildODataQuery(searchTerm);
+        logger.debug(`Query for page ${page}: ${query}`);
+
+        const result = await this.webAPI.retrieveMultipleRecords("contact", query, this.pageSize);
+
+        this.pageData.set(page, result.entities.map((entity): ContactRecipient => ({
+            id: entity.contactid,
+            entityType: 'contact',
+            displayName: entity.fullname || '',
+            email: entity.emailaddress1 || '',
+            isExternal: true,
+            accountName: entity['_parentcustomerid_value@OData.Community.Display.V1.FormattedValue'] || ''
+        })));
+
+        if (result.nextLink) {
+            this.nextLinks.set(page, result.nextLink);
+        } else {
+            this.nextLinks.delete(page);
+        }
+    }
+
+    private buildODataQuery(searchTerm?: string): string {
+        let query = "?$select=contactid,fullname,emailaddress1,_parentcustomerid_value";
+
+        const filters: string[] = [];
+
+        // Active contacts that can receive email
+        filters.push("statecode eq 0");
+        filters.push("emailaddress1 ne null");
+
+        if (searchTerm && searchTerm.trim()) {
+            const escapedSearchTerm = searchTerm.trim().replace(/'/g, "''");
+            filters.push(`(startswith(fullname,'${escapedSearchTerm}') or startswith(emailaddress1,'${escapedSearchTerm}') or startswith(parentcustomerid_account/name,'${escapedSearchTerm}'))`);
+        }
+
+        query += `&$filter=${filters.join(' and ')}`;
+        query += "&$orderby=fullname asc,contactid asc";
+
+        return query;
+    }
+}
@@ -0,0 +1,224 @@
+/**
+ * Client-side cache of the user directory, shared by every instance of the control on the page.
+ * Snapshots are kept in memory and persisted to IndexedDB (when the browser allows it), so a
+ * reopened panel or a second control on the form does not repeat the same directory queries.
+ */
+
+import { SystemUser } from './SystemUserService';
+import { Logger } from './Logger';
+
+const logger = new Logger('DirectoryCache');
+
+/**
+ * Directory contents for one environment, user and filter set
+ */
+export interface DirectorySnapshot {
+    key: string;
+    users: SystemUser[];
+    /** Time the snapshot was loaded (milliseconds since epoch) */
+    loadedAt: number;
+    /** The directory was too large to cache; users is empty and the server answers until the snapshot expires */
+    tooLarge?: boolean;
+}
+
+export class DirectoryCache {
+    private static readonly databaseName: string = 'pcfMultiselectLookup';
+    private static readonly storeName: string = 'directorySnapshots';
+    private static sharedInstance: DirectoryCache | null = null;
+
+    private memory: Map<string, DirectorySnapshot> = new Map(); // In-memory copy, also the fallback store
+    private refreshes: Map<string, Promise<DirectorySnapshot | null>> = new Map(); // Loads in progress per key
+    private database: Promise<IDBDatabase | null> | null = null;
+
+    /**
+     * Gets the cache shared by all control instances on the page
+     */
+    public static getShared(): DirectoryCache {
+        if (!DirectoryCache.sharedInstance) {
+            DirectoryCache.sharedInstance = new DirectoryCache();
+        }
+        return DirectoryCache.sharedInstance;
+    }
+
+    /**
+     * Gets a stored snapshot, from memory or else from IndexedDB
+     * @param key Snapshot key
+     * @returns Promise with the snapshot, or null when nothing is stored
+     */
+    public async get(key: string): Promise<DirectorySnapshot | null> {
+        const cached = this.memory.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const stored = await this.readStored(key);
+        if (stored) {
+            this.memory.set(key, stored);
+        }
+        return stored;
+    }
+
+    /**
+     * Stores a snapshot in memory and in IndexedDB
+     * @param snapshot Snapshot to store
+     */
+    public async set(snapshot: DirectorySnapshot): Promise<void> {
+        this.memory.set(snapshot.key, snapshot);
+        await this.writeStored(snapshot);
+    }
+
+    /**
+     * Loads a snapshot with the given loader and stores it. Concurrent refreshes of the same key
+     * (for example from several control instances) share one load.
+     * @param key Snapshot key
+     * @param loader Reads the users from the server; returns null when the directory is too large to
+     * cache, which is stored as well so the download is not repeated for every request
+     * @returns Promise with the new snapshot, or null when the load failed
+     */
+    public refresh(key: string, loader: () => Promise<SystemUser[] | null>): Promise<DirectorySnapshot | null> {
+        const running = this.refreshes.get(key);
+        if (running) {
+            return running;
+        }
+
+        const load = (async (): Promise<DirectorySnapshot | null> => {
+            try {
+                const users = await loader();
+                const snapshot: DirectorySnapshot = users
+                    ? { key, users, loadedAt: Date.now() }
+                    : { key, users: [], loadedAt: Date.now(), tooLarge: true };
+
+                await this.set(snapshot);
+                logger.debug(users ? `Stored ${users.length} users` : 'Stored that the directory is too large to cache');
+                return snapshot;
+
+            } catch (error) {
+                logger.error('Refresh failed:', error);
+                return null;
+            } finally {
+                this.refreshes.delete(key);
+            }
+        })();
+
+        this.refreshes.set(key, load);
+        return load;
+    }
+
+    /**
+     * Removes a snapshot, or every snapshot when no key is given
+     * @param key Optional snapshot key
+     */
+    public async invalidate(key?: string): Promise<void> {
+        if (key) {
+            this.memory.delete(key);
+        } else {
+            this.memory.clear();
+        }
+
+        const database = await this.openDatabase();
+        if (!database) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            try {
+                const transaction = database.transaction(DirectoryCache.storeName, 'readwrite');
+                const store = transaction.objectStore(DirectoryCache.storeName);
+                if (key) {
+                    store.delete(key);
+                } else {
+                    store.clear();
+                }
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => resolve();
+                transaction.onabort = () => resolve();
+            } catch (error) {
+                logger.error('Could not remove stored snapshots:', error);
+                resolve();
+            }
+        });
+    }
+
+    /**
+     * Opens the IndexedDB database once. Resolves to null when IndexedDB is unavailable
+     * (private browsing, blocked storage), in which case only the in-memory cache is used.
+     */
+    private openDatabase(): Promise<IDBDatabase | null> {
+        if (this.database) {
+            return this.database;
+        }
+
+        this.database = new Promise<IDBDatabase | null>(resolve => {
+            try {
+                if (typeof indexedDB === 'undefined') {
+                    resolve(null);
+                    return;
+                }
+
+                const request = indexedDB.open(DirectoryCache.databaseName, 1);
+                request.onupgradeneeded = () => {
+                    const database = request.result;
+                    if (!database.objectStoreNames.contains(DirectoryCache.storeName)) {
+                        database.createObjectStore(DirectoryCache.storeName, { keyPath: 'key' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    logger.warn('IndexedDB unavailable, using memory only:', request.error);
+                    resolve(null);
+                };
+                request.onblocked = () => resolve(null);
+            } catch (error) {
+                logger.warn('IndexedDB unavailable, using memory only:', error);
+                resolve(null);
+            }
+        });
+
+        return this.database;
+    }
+
+    private async readStored(key: string): Promise<DirectorySnapshot | null> {
+        const database = await this.openDatabase();
+        if (!database) {
+            return null;
+        }
+
+        return new Promise<DirectorySnapshot | null>(resolve => {
+            try {
+                const request = database
+                    .transaction(DirectoryCache.storeName, 'readonly')
+                    .objectStore(DirectoryCache.storeName)
+                    .get(key);
+                request.onsuccess = () => resolve(request.result || null);
+                request.onerror = () => resolve(null);
+            } catch (error) {
+                logger.error('Could not read stored snapshot:', error);
+                resolve(null);
+            }
+        });
+    }
+
+    private async writeStored(snapshot: DirectorySnapshot): Promise<void> {
+        const database = await this.openDatabase();
+        if (!database) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            try {
+                const transaction = database.transaction(DirectoryCache.storeName, 'readwrite');
+                transaction.objectStore(DirectoryCache.storeName).put(snapshot);
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => {
+                    // Quota exceeded and similar - the in-memory copy still serves this page
+                    logger.warn('Could not persist snapshot:', transaction.error);
+                    resolve();
+                };
+                transaction.onabort = () => resolve();
+            } catch (error) {
+                logger.error('Could not persist snapshot:', error);
+                resolve();
+            }
+        });
+    }
+}
@@ -0,0 +1,315 @@
+/**
+ * Directory taken from a saved systemuser view or a FetchXML query configured on the control,
+ * instead of the built-in query. The view decides who can be found; the control adds the columns
+ * it needs, the search conditions and the paging (page number and paging cookie).
+ */
+
+import { Logger } from './Logger';
+
+const logger = new Logger('DirectoryView');
+
+/**
+ * Where the directory comes from, as configured on the control
+ */
+export interface DirectorySource {
+    /** Saved systemuser view, by ID or name */
+    view?: string;
+    /** FetchXML of a systemuser query; used instead of the view when both are set */
+    fetchXml?: string;
+}
+
+/**
+ * Column of the view layout, in layout order
+ */
+export interface ViewColumn {
+    /** Logical name; linked columns are written alias.column */
+    name: string;
+}
+
+/**
+ * One search condition. A search is a list of groups: a user matches when every group has a
+ * matching condition.
+ */
+export interface UserSearchCondition {
+    /** Logical name of the systemuser column, or of the business unit column */
+    column: string;
+    operator: 'contains' | 'startswith';
+    /** Value as typed, not escaped */
+    value: string;
+    /** The column belongs to the user's business unit */
+    onBusinessUnit?: boolean;
+}
+
+export interface DirectoryFetchOptions {
+    /** Page number (1-based) */
+    page: number;
+    /** Records per page */
+    count: number;
+    /** Paging cookie returned with the previous page */
+    pagingCookie?: string | null;
+    /** Columns the control reads; added when the query does not select them */
+    columns: string[];
+    search?: UserSearchCondition[][];
+    /** Only the rows whose column holds one of the values, e.g. users looked up by ID */
+    restrictTo?: { column: string; values: string[] };
+    /** Ask for the total number of records (at most 5000) */
+    returnTotalCount?: boolean;
+}
+
+/**
+ * Thrown when the configured view cannot be found or its query cannot be used. The directory is
+ * not widened to every user in that case, since the view may be what restricts it.
+ */
+export class DirectoryViewError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DirectoryViewError';
+    }
+}
+
+const guidPattern = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+const formattedValue = '@OData.Community.Display.V1.FormattedValue';
+const businessUnitAlias = 'directorysearch_bu';
+
+/**
+ * Whether a view or FetchXML is configured
+ */
+export function hasDirectorySource(source: DirectorySource): boolean {
+    return !!((source.view || '').trim() || (source.fetchXml || '').trim());
+}
+
+/**
+ * A systemuser query (from a view or FetchXML) with the columns of its layout
+ */
+export class DirectoryQuery {
+    public readonly name: string;
+    private document: Document;
+    private columns: ViewColumn[];
+
+    private constructor(name: string, document: Document, columns: ViewColumn[]) {
+        this.name = name;
+        this.document = document;
+        this.columns = columns;
+    }
+
+    /**
+     * Reads a query
+     * @param name View name, for messages
+     * @param fetchXml FetchXML of the query; it must list systemuser records and may not aggregate
+     * @param layoutXml Layout of the view; without one, the query's attributes are the columns
+     */
+    public static parse(name: string, fetchXml: string, layoutXml?: string | null): DirectoryQuery {
+        const document = parseXml(fetchXml, name);
+        const entity = getEntity(document);
+
+        if (!entity || entity.getAttribute('name') !== 'systemuser') {
+            throw new DirectoryViewError(`"${name}" does not list users (systemuser)`);
+        }
+        if (document.documentElement.getAttribute('aggregate') === 'true') {
+            throw new DirectoryViewError(`"${name}" is an aggregate query and cannot list users`);
+        }
+
+        const columns = layoutXml
+            ? Array.from(parseXml(layoutXml, name).getElementsByTagName('cell'))
+                .filter(cell => cell.getAttribute('ishidden') !== '1')
+                .map(cell => ({ name: cell.getAttribute('name') || '' }))
+            : childElements(entity, 'attribute').map(attribute => ({ name: attribute.getAttribute('name') || '' }));
+
+        return new DirectoryQuery(name, document, columns.filter(column => column.name));
+    }
+
+    /**
+     * Gets the columns of the view layout, in layout order
+     */
+    public getColumns(): ViewColumn[] {
+        return this.columns;
+    }
+
+    /**
+     * Builds the FetchXML for one page: the view's query with the control's columns, a stable sort
+     * order, the search conditions and the paging attributes
+     */
+    public buildFetchXml(options: DirectoryFetchOptions): string {
+        const document = this.document.cloneNode(true) as Document;
+        const fetch = document.documentElement;
+        const entity = getEntity(document)!;
+
+        // $top-style limits cannot be combined with paging
+        fetch.removeAttribute('top');
+        fetch.setAttribute('page', String(options.page));
+        fetch.setAttribute('count', String(options.count));
+        if (options.pagingCookie) {
+            fetch.setAttribute('paging-cookie', options.pagingCookie);
+        } else {
+            fetch.removeAttribute('paging-cookie');
+        }
+        if (options.returnTotalCount) {
+            fetch.setAttribute('returntotalrecordcount', 'true');
+        }
+
+        if (childElements(entity, 'all-attributes').length === 0) {
+            const selected = childElements(entity, 'attribute').map(attribute => attribute.getAttribute('name'));
+            options.columns
+                .filter(column => selected.indexOf(column) === -1)
+                .forEach(column => appendElement(entity, 'attribute', { name: column }));
+        }
+
+        // Paging cookies need a sort order that ends in a unique column
+        const orders = childElements(entity, 'order').map(order => order.getAttribute('attribute'));
+        if (orders.length === 0) {
+            appendElement(entity, 'order', { attribute: 'fullname' });
+        }
+        if (orders.indexOf('systemuserid') === -1) {
+            appendElement(entity, 'order', { attribute: 'systemuserid' });
+        }
+
+        if (options.search && options.search.length > 0) {
+            this.appendSearch(entity, options.search);
+        }
+        if (options.restrictTo) {
+            const condition = appendElement(appendElement(entity, 'filter', { type: 'and' }), 'condition', {
+                attribute: options.restrictTo.column,
+                operator: 'in'
+            });
+            options.restrictTo.values.forEach(value => {
+                appendElement(condition, 'value', {}).textContent = value;
+            });
+        }
+
+        return new XMLSerializer().serializeToString(document);
+    }
+
+    /**
+     * Adds the search conditions next to the view's own filter; sibling filters of an entity must all match
+     */
+    private appendSearch(entity: Element, search: UserSearchCondition[][]): void {
+        const searchFilter = appendElement(entity, 'filter', { type: 'and' });
+
+        search.forEach(group => {
+            const groupFilter = appendElement(searchFilter, 'filter', { type: 'or' });
+            group.forEach(condition => {
+                const pattern = condition.operator === 'startswith'
+                    ? `${escapeLike(condition.value)}%`
+                    : `%${escapeLike(condition.value)}%`;
+                appendElement(groupFilter, 'condition', {
+                    ...(condition.onBusinessUnit ? { entityname: businessUnitAlias } : {}),
+                    attribute: condition.column,
+                    operator: 'like',
+                    value: pattern
+                });
+            });
+        });
+
+        // Conditions on the business unit name need the unit joined; outer, so the other
+        // conditions of a group still match users on their own
+        if (search.some(group => group.some(condition => condition.onBusinessUnit))) {
+            appendElement(entity, 'link-entity', {
+                name: 'businessunit',
+                from: 'businessunitid',
+                to: 'businessunitid',
+                alias: businessUnitAlias,
+                'link-type': 'outer'
+            });
+        }
+    }
+}
+
+/**
+ * Loads the configured query: the FetchXML when set, otherwise the saved view
+ * @param webAPI Web API to read the view with
+ * @param source Configured view or FetchXML
+ * @throws DirectoryViewError when the view does not exist or cannot list users
+ */
+export async function loadDirectoryQuery(webAPI: ComponentFramework.WebApi, source: DirectorySource): Promise<DirectoryQuery> {
+    const fetchXml = (source.fetchXml || '').trim();
+    if (fetchXml) {
+        return DirectoryQuery.parse('FetchXML', fetchXml);
+    }
+
+    const view = (source.view || '').trim();
+    const viewFilter = guidPattern.test(view)
+        ? `savedqueryid eq ${view.replace(/[{}]/g, '')}`
+        : `name eq '${view.replace(/'/g, "''")}'`;
+    const query = `?$select=savedqueryid,name,fetchxml,layoutxml&$filter=returnedtypecode eq 'systemuser' and ${viewFilter}`;
+
+    const result = await webAPI.retrieveMultipleRecords('savedquery', query);
+    if (result.entities.length === 0) {
+        throw new DirectoryViewError(`No user view "${view}" was found`);
+    }
+    if (result.entities.length > 1) {
+        logger.warn(`Several user views are named "${view}"; using the first. Configure the view ID to choose one.`);
+    }
+
+    const record = result.entities[0];
+    return DirectoryQuery.parse(record.name || view, record.fetchxml || '', record.layoutxml);
+}
+
+/**
+ * Reads the paging cookie of a FetchXML page, ready to be set on the query for the next page
+ * @returns The cookie, or null when the page did not return one
+ */
+export function readPagingCookie(result: ComponentFramework.WebApi.RetrieveMultipleResponse): string | null {
+    const response = result as unknown as Record<string, unknown>;
+    const cookie = response.fetchXmlPagingCookie || response['@Microsoft.Dynamics.CRM.fetchxmlpagingcookie'];
+    const match = typeof cookie === 'string' ? /pagingcookie="([^"]*)"/.exec(cookie) : null;
+    if (!match) {
+        return null;
+    }
+
+    // The cookie inside the annotation is URL-encoded twice
+    try {
+        return decodeURIComponent(decodeURIComponent(match[1]));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads the total record count of a FetchXML page
+ * @returns The count, or null when the server did not return it or there are more than 5000 records
+ */
+export function readTotalRecordCount(result: ComponentFramework.WebApi.RetrieveMultipleResponse): number | null {
+    const response = result as unknown as Record<string, unknown>;
+    const count = response['@Microsoft.Dynamics.CRM.totalrecordcount'];
+    const limitExceeded = response['@Microsoft.Dynamics.CRM.totalrecordcountlimitexceeded'] === true;
+    return typeof count === 'number' && count >= 0 && !limitExceeded ? count : null;
+}
+
+/**
+ * Gets the text of a view column for a record: the formatted value (choices, lookups, dates) when
+ * the server returned one, the plain value otherwise
+ */
+export function readColumnValue(entity: ComponentFramework.WebApi.Entity, column: string): string {
+    const lookupKey = `_${column}_value`;
+    const value = entity[`${column}${formattedValue}`] ?? entity[`${lookupKey}${formattedValue}`] ?? entity[column];
+    return value === null || value === undefined ? '' : String(value);
+}
+
+function parseXml(xml: string, name: string): Document {
+    const document = new DOMParser().parseFromString(xml, 'text/xml');
+    if (document.getElementsByTagName('parsererror').length > 0 || !document.documentElement) {
+        throw new DirectoryViewError(`The query of "${name}" is not valid XML`);
+    }
+    return document;
+}
+
+function getEntity(document: Document): Element | undefined {
+    return childElements(document.documentElement, 'entity')[0];
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+    return Array.from(parent.childNodes)
+        .filter((node): node is Element => node.nodeType === 1 && (node as Element).tagName === tagName);
+}
+
+function appendElement(parent: Element, tagName: string, attributes: Record<string, string>): Element {
+    const element = parent.ownerDocument!.createElement(tagName);
+    Object.keys(attributes).forEach(name => element.setAttribute(name, attributes[name]));
+    parent.appendChild(element);
+    return element;
+}
+
+// like treats %, _ and [ as wildcards; brackets make them literal
+function escapeLike(value: string): string {
+    return value.replace(/[[%_]/g, character => `[${character}]`);
+}
@@ -0,0 +1,134 @@
+/**
+ * Decides whether the recipients may be edited: the form or field can be read-only, field security
+ * can withhold update (or read) access, and inactive records keep the recipients they were sent to
+ */
+
+import { Logger } from './Logger';
+import { LatestRequestTracker } from './RequestTracker';
+
+const logger = new Logger('RecordStateService');
+
+/**
+ * Record the form shows; the typings leave context.page out, and hosts without a record omit it
+ */
+interface FormPage {
+    entityTypeName?: string;
+    entityId?: string;
+}
+
+/**
+ * Why editing is blocked; each reason has its own message (ReadOnly_<reason> in the resx files)
+ */
+export type ReadOnlyReason = 'noReadAccess' | 'fieldSecurity' | 'inactiveRecord' | 'controlDisabled';
+
+/**
+ * Gets the reason the recipients cannot be edited, the most specific one first
+ * @param context PCF context
+ * @param fields Bound fields the control writes; each needs update access
+ * @param recordInactive Whether the record is inactive (see RecordStateService)
+ * @returns The reason, or null when the recipients can be edited
+ */
+export function getReadOnlyReason(
+    context: ComponentFramework.Context<unknown>,
+    fields: ComponentFramework.PropertyTypes.Property[],
+    recordInactive: boolean
+): ReadOnlyReason | null {
+    // Unsecured fields have no security values
+    const secured = fields.filter(field => !!field.security);
+
+    if (secured.some(field => !field.security!.readable)) {
+        return 'noReadAccess';
+    }
+    if (secured.some(field => !field.security!.editable)) {
+        return 'fieldSecurity';
+    }
+    if (recordInactive) {
+        return 'inactiveRecord';
+    }
+    if (context.mode.isControlDisabled) {
+        return 'controlDisabled';
+    }
+    return null;
+}
+
+/**
+ * Reads the state of the record the form shows. The form disables its fields on inactive records
+ * too, but only the record state tells that reason apart from a read-only form.
+ */
+export class RecordStateService {
+    private context: ComponentFramework.Context<unknown>;
+    private loadedKey: string | null = null; // Record and disabled flag the state was read for
+    private inactive: boolean = false;
+    private requests: LatestRequestTracker = new LatestRequestTracker(); // Only the latest read may set the state
+
+    constructor(context: ComponentFramework.Context<unknown>) {
+        this.context = context;
+    }
+
+    public setContext(context: ComponentFramework.Context<unknown>): void {
+        this.context = context;
+    }
+
+    /**
+     * Whether the record was inactive when last read
+     */
+    public isInactive(): boolean {
+        return this.inactive;
+    }
+
+    /**
+     * Reads the record state when the record changed (e.g. a new record was saved) or the form was
+     * enabled or disabled since the last read (e.g. the record was deactivated)
+     * @returns True when the state changed
+     */
+    public async refresh(): Promise<boolean> {
+        const page = (this.context as { page?: FormPage }).page;
+        const entityTypeName = page?.entityTypeName;
+        const entityId = page?.entityId;
+        const key = `${entityTypeName}|${entityId}|${this.context.mode.isControlDisabled}`;
+
+        if (key === this.loadedKey) {
+            return false;
+        }
+        this.loadedKey = key;
+        const token = this.requests.begin();
+
+        // New records and hosts without a record (e.g. a custom page) are always active
+        if (!entityTypeName || !entityId) {
+            return this.setInactive(false);
+        }
+
+        try {
+            const record = await logger.timeWebApi(this.context.webAPI).retrieveRecord(entityTypeName, entityId.replace(/[{}]/g, ''), '?$select=statecode');
+            if (!token.isCurrent()) {
+                return false;
+            }
+
+            // Active is state 0 on standard and custom tables (Open on activities)
+            return this.setInactive(typeof record.statecode === 'number' && record.statecode !== 0);
+
+        } catch (error) {
+            if (!token.isCurrent()) {
+                return false;
+            }
+
+            // Keep the state last read; the next refresh tries again
+            logger.warn('Could not read the record state:', error);
+            this.loadedKey = null;
+            return false;
+        }
+    }
+
+    /**
+     * Stops for good: a read still running resolves without changing the state
+     */
+    public dispose(): void {
+        this.requests.dispose();
+    }
+
+    private setInactive(inactive: boolean): boolean {
+        const changed = inactive !== this.inactive;
+        this.inactive = inactive;
+        return changed;
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Parsing, validation and resolution of hand-typed recipient email addresses
+ */
+
+import { SystemUserService } from './SystemUserService';
+import { Recipient, userToRecipient } from './Recipient';
+
+export type EmailAddressStatus = 'valid' | 'invalid' | 'unknown' | 'disabled' | 'outsideDirectory';
+
+export interface ParsedEmailAddress {
+    /** Text of the entry as typed */
+    input: string;
+    /** Normalised (lower-case) address */
+    email: string;
+    /** Name from a "Name <address>" entry, if any */
+    displayName: string;
+    isValidSyntax: boolean;
+}
+
+export interface ResolvedEmailAddress extends ParsedEmailAddress {
+    status: EmailAddressStatus;
+    /** Recipient the address resolved to (only for valid entries) */
+    recipient?: Recipient;
+}
+
+// Pragmatic address check: one @, no spaces, and a dotted domain
+const emailPattern = /^[^\s@<>;,]+@[^\s@<>;,]+\.[^\s@<>;,]+$/;
+
+// "Jane Doe <jane@contoso.com>" or "<jane@contoso.com>"
+const namedAddressPattern = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/;
+
+/**
+ * Checks the syntax of a single email address
+ */
+export function isValidEmailSyntax(email: string): boolean {
+    return emailPattern.test(email);
+}
+
+/**
+ * Splits free text on semicolons, commas and new lines, unwraps "Name <address>" entries,
+ * normalises case and removes duplicates
+ * @param text Free text typed or pasted by the user
+ * @returns Parsed entries in the order they were typed
+ */
+export function parseEmailAddresses(text: string): ParsedEmailAddress[] {
+    if (!text) return [];
+
+    const parsed: ParsedEmailAddress[] = [];
+
+    text
+        .split(/[;,\r\n]+/)
+        .map(entry => entry.trim())
+        .filter(entry => entry)
+        .forEach(entry => {
+            const namedMatch = namedAddressPattern.exec(entry);
+            const address = namedMatch ? namedMatch[2].trim() : entry;
+            const email = address.toLowerCase();
+
+            if (parsed.some(existing => existing.email === email)) {
+                return;
+            }
+
+            parsed.push({
+                input: entry,
+                email,
+                displayName: namedMatch ? namedMatch[1].trim() : '',
+                isValidSyntax: isValidEmailSyntax(email)
+            });
+        });
+
+    return parsed;
+}
+
+/**
+ * Resolves parsed addresses against systemuser. Addresses of already known recipients
+ * (for example teams or queues picked in the panel) are accepted without a lookup; users the
+ * directory view does not list are refused like disabled ones.
+ * @param addresses Parsed addresses
+ * @param userService Service used for the systemuser lookup
+ * @param knownRecipients Recipients that are already resolved
+ * @returns Promise with every address and its status
+ */
+export async function resolveEmailAddresses(
+    addresses: ParsedEmailAddress[],
+    userService: SystemUserService,
+    knownRecipients: Recipient[] = []
+): Promise<ResolvedEmailAddress[]> {
+    const findKnown = (email: string): Recipient | undefined =>
+        knownRecipients.find(recipient => recipient.id && recipient.email.toLowerCase() === email);
+
+    const lookupEmails = addresses
+        .filter(address => address.isValidSyntax && !findKnown(address.email))
+        .map(address => address.email);
+
+    const users = lookupEmails.length > 0 ? await userService.getUsersByEmails(lookupEmails) : [];
+    const listedIds = users.length > 0 ? await userService.filterIdsToDirectory(users.map(user => user.systemuserid)) : [];
+
+    return addresses.map((address): ResolvedEmailAddress => {
+        if (!address.isValidSyntax) {
+            return { ...address, status: 'invalid' };
+        }
+
+        const known = findKnown(address.email);
+        if (known) {
+            return { ...address, status: 'valid', recipient: known };
+        }
+
+        const user = users.find(candidate => candidate.internalemailaddress.toLowerCase() === address.email);
+        if (!user) {
+            return { ...address, status: 'unknown' };
+        }
+
+        if (user.isdisabled) {
+            return { ...address, status: 'disabled' };
+        }
+
+        if (listedIds.indexOf(user.systemuserid) === -1) {
+            return { ...address, status: 'outsideDirectory' };
+        }
+
+        return { ...address, status: 'valid', recipient: userToRecipient(user) };
+    });
+}
@@ -0,0 +1,118 @@
+/**
+ * The Forward To flag: whether the correspondence is forwarded. The bound column can be text
+ * (YES/NO), two options or a choice column with its own values (e.g. 900000000 Yes and
+ * 900000002 Select on the correspondence form), so values are mapped to a decision and back.
+ */
+
+import { Logger } from './Logger';
+
+const logger = new Logger('ForwardToFlag');
+
+export type ForwardDecision = 'yes' | 'no' | 'unset';
+
+/**
+ * Column values for each decision, as configured on the control. Text columns compare them
+ * ignoring case; choice columns read them as numbers; two options columns ignore them.
+ */
+export interface ForwardToValues {
+    yes: string;
+    no: string;
+    /** Empty for a blank column */
+    unset: string;
+}
+
+/**
+ * Value written to the column: undefined clears it
+ */
+export type ForwardToValue = string | number | boolean | undefined;
+
+export const DEFAULT_FORWARD_TO_VALUES: ForwardToValues = {
+    yes: 'YES',
+    no: 'NO',
+    unset: ''
+};
+
+// Configuration problems already reported, so each one is logged once per page
+const reportedProblems: Set<string> = new Set();
+
+/**
+ * Gets the values used when the inputs are left empty. Only text columns have defaults; a choice
+ * column's values differ per column, so they have to be configured.
+ * @param type Type of the bound column (property.type)
+ */
+export function getDefaultForwardToValues(type: string): ForwardToValues {
+    return type === 'OptionSet' || type === 'TwoOptions'
+        ? { yes: '', no: '', unset: '' }
+        : DEFAULT_FORWARD_TO_VALUES;
+}
+
+/**
+ * Reads the decision from the bound column
+ * @param property The bound forwardTo property; its type tells how the value is stored
+ * @param values Configured column values
+ * @returns The decision; values that match neither yes nor no count as unset
+ */
+export function readForwardDecision(property: ComponentFramework.PropertyTypes.Property, values: ForwardToValues): ForwardDecision {
+    const raw = property.raw;
+
+    if (raw === null || raw === undefined || raw === '') {
+        return 'unset';
+    }
+    if (property.type === 'TwoOptions') {
+        // Never blank, so a new record reads as No; the control treats that as its default
+        return raw ? 'yes' : 'no';
+    }
+    if (property.type === 'OptionSet') {
+        // Values that are not choice values never match, rather than comparing against NaN
+        return raw === readChoiceValue(values.yes) ? 'yes' : raw === readChoiceValue(values.no) ? 'no' : 'unset';
+    }
+
+    const text = String(raw).trim().toLowerCase();
+    return text === values.yes.trim().toLowerCase() ? 'yes' : text === values.no.trim().toLowerCase() ? 'no' : 'unset';
+}
+
+/**
+ * Gets the column value for a decision
+ * @param type Type of the bound column (property.type)
+ * @param decision The decision
+ * @param values Configured column values
+ * @returns The value to output (undefined clears the column), or null when the configured value
+ * cannot be written to a column of this type and the column has to be left as it is
+ */
+export function toForwardToValue(type: string, decision: ForwardDecision, values: ForwardToValues): ForwardToValue | null {
+    const value = values[decision].trim();
+
+    if (type === 'TwoOptions') {
+        // Two options columns cannot be blank; undecided reads as No
+        return decision === 'yes';
+    }
+    if (type === 'OptionSet') {
+        if (!value && decision === 'unset') {
+            return undefined;
+        }
+        const option = readChoiceValue(value);
+        if (option === null) {
+            reportProblem(value
+                ? `"${value}" is not a choice value; Forward To is left unchanged until the ${decision} value is set to one of the column's choice values`
+                : `No choice value is set for ${decision}; Forward To is left unchanged until the Forward To values are configured`);
+            return null;
+        }
+        return option;
+    }
+    return value || undefined;
+}
+
+/**
+ * Reads a configured choice value; null when it is empty or not a whole number
+ */
+function readChoiceValue(value: string): number | null {
+    const text = value.trim();
+    return /^-?\d+$/.test(text) ? Number(text) : null;
+}
+
+function reportProblem(message: string): void {
+    if (!reportedProblems.has(message)) {
+        reportedProblems.add(message);
+        logger.error(message);
+    }
+}
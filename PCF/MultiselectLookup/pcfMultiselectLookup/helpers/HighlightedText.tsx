@@ -0,0 +1,60 @@
+import * as React from 'react';
+import { mergeStyles } from '@fluentui/react';
+import { HighlightRange } from './UserSearchRanker';
+import { forcedColors } from './Theme';
+
+const defaultHighlightColor = 'rgba(255,185,0,0.35)';
+
+/**
+ * Class of the highlight; in high contrast the fragments use the system highlight colours
+ */
+function getHighlightClassName(highlightColor: string): string {
+    return mergeStyles(
+        {
+            backgroundColor: highlightColor,
+            color: 'inherit',
+            fontWeight: 600,
+            padding: 0,
+            borderRadius: '2px'
+        },
+        forcedColors({ backgroundColor: 'Highlight', color: 'HighlightText', forcedColorAdjust: 'none' })
+    );
+}
+
+/**
+ * Renders a text with the given fragments highlighted (used for matched search words)
+ * @param text Field value
+ * @param ranges Matched fragments; overlapping ranges are merged
+ * @param highlightColor Background of the fragments (see ControlColors.searchHighlight)
+ * @returns The text, with each fragment wrapped in a mark element
+ */
+export function renderHighlightedText(text: string, ranges?: HighlightRange[], highlightColor: string = defaultHighlightColor): React.ReactNode {
+    if (!text || !ranges || ranges.length === 0) {
+        return text;
+    }
+
+    const className = getHighlightClassName(highlightColor);
+
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+
+    [...ranges]
+        .sort((a, b) => a.start - b.start)
+        .forEach(range => {
+            const start = Math.max(range.start, position);
+            const end = Math.min(range.start + range.length, text.length);
+            if (end <= start) return;
+
+            if (start > position) {
+                parts.push(text.substring(position, start));
+            }
+            parts.push(<mark key={start} className={className}>{text.substring(start, end)}</mark>);
+            position = end;
+        });
+
+    if (position < text.length) {
+        parts.push(text.substring(position));
+    }
+
+    return <>{parts}</>;
+}
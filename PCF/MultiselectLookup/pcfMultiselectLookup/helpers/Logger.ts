@@ -0,0 +1,252 @@
+/**
+ * Logging for the control: one logger per module (its category), a verbosity set on the control
+ * (off unless the maker turns it on), and redaction of email addresses and GUIDs so logs can be
+ * shared. Web API calls can also be timed, to find slow directory queries.
+ */
+
+export enum LogLevel {
+    Off = 0,
+    Error = 1,
+    Warn = 2,
+    Info = 3,
+    Debug = 4
+}
+
+/**
+ * Duration of one Web API call
+ */
+export interface WebApiTiming {
+    /** Module that made the call */
+    category: string;
+    /** Web API method, e.g. retrieveMultipleRecords */
+    operation: string;
+    entityType: string;
+    /** Query or record ID, redacted */
+    detail: string;
+    durationMs: number;
+    /** Records returned, for retrieveMultipleRecords */
+    recordCount?: number;
+    succeeded: boolean;
+}
+
+/**
+ * Receives the timing of every Web API call while timings are on
+ */
+export type TimingSink = (timing: WebApiTiming) => void;
+
+export interface LoggingOptions {
+    level: LogLevel;
+    /** Where Web API timings go; null turns timing off */
+    timingSink?: TimingSink | null;
+}
+
+// Shared by every logger of the bundle; control instances on one page share the last setting
+let currentLevel: LogLevel = LogLevel.Off;
+let currentTimingSink: TimingSink | null = null;
+
+const logLevelNames: Record<string, LogLevel> = {
+    off: LogLevel.Off,
+    error: LogLevel.Error,
+    warn: LogLevel.Warn,
+    warning: LogLevel.Warn,
+    info: LogLevel.Info,
+    debug: LogLevel.Debug
+};
+
+const emailPattern = /([A-Za-z0-9._%+-]+)@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const guidPattern = /\{?[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\}?/g;
+const maxDetailLength = 500;
+const maxRedactDepth = 4;
+
+/**
+ * Sets the verbosity and the timing sink of every logger
+ */
+export function configureLogging(options: LoggingOptions): void {
+    currentLevel = options.level;
+    currentTimingSink = options.timingSink || null;
+}
+
+/**
+ * Reads a level name from the manifest ("off", "error", "warn", "info", "debug"); unknown names are off
+ */
+export function parseLogLevel(value: string | null | undefined): LogLevel {
+    const level = logLevelNames[(value || '').trim().toLowerCase()];
+    return level === undefined ? LogLevel.Off : level;
+}
+
+/**
+ * Replaces email addresses (the domain is kept) and GUIDs in text
+ */
+export function redactText(text: string): string {
+    return text
+        .replace(emailPattern, (_match, _local, domain) => `***@${domain}`)
+        .replace(guidPattern, '<id>');
+}
+
+/**
+ * Redacts a value for logging: text, and the text inside errors, arrays and plain objects
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+    if (typeof value === 'string') {
+        return redactText(value);
+    }
+    if (value instanceof Error) {
+        return `${value.name}: ${redactText(value.message)}`;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= maxRedactDepth) {
+        return '[…]';
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, depth + 1));
+    }
+
+    const copy: Record<string, unknown> = {};
+    Object.keys(value as Record<string, unknown>).forEach(key => {
+        copy[key] = redact((value as Record<string, unknown>)[key], depth + 1);
+    });
+    return copy;
+}
+
+/**
+ * Timing sink that writes every call to the browser console, with slow calls as warnings
+ * @param slowMs Duration from which a call counts as slow
+ */
+export function createConsoleTimingSink(slowMs: number = 1000): TimingSink {
+    return (timing: WebApiTiming): void => {
+        const records = timing.recordCount === undefined ? '' : `, ${timing.recordCount} records`;
+        const text = `[${timing.category}] ${timing.operation} ${timing.entityType} took ${Math.round(timing.durationMs)} ms` +
+            `${records}${timing.succeeded ? '' : ' (failed)'}: ${timing.detail}`;
+
+        if (timing.durationMs >= slowMs) {
+            console.warn(`${text} (slow)`);
+        } else {
+            console.info(text);
+        }
+    };
+}
+
+/**
+ * Logger of one module. Messages and details are redacted before they reach the console.
+ */
+export class Logger {
+    private category: string;
+
+    constructor(category: string) {
+        this.category = category;
+    }
+
+    public error(message: string, ...details: unknown[]): void {
+        this.write(LogLevel.Error, message, details);
+    }
+
+    public warn(message: string, ...details: unknown[]): void {
+        this.write(LogLevel.Warn, message, details);
+    }
+
+    public info(message: string, ...details: unknown[]): void {
+        this.write(LogLevel.Info, message, details);
+    }
+
+    public debug(message: string, ...details: unknown[]): void {
+        this.write(LogLevel.Debug, message, details);
+    }
+
+    /**
+     * Whether messages of a level are written; lets callers skip building expensive details
+     */
+    public isEnabled(level: LogLevel): boolean {
+        return level !== LogLevel.Off && level <= currentLevel;
+    }
+
+    /**
+     * Wraps a Web API so every call is reported to the timing sink (when one is set)
+     */
+    public timeWebApi(webAPI: ComponentFramework.WebApi): ComponentFramework.WebApi {
+        return {
+            createRecord: (entityType, data) =>
+                this.time('createRecord', entityType, '', () => webAPI.createRecord(entityType, data)),
+            updateRecord: (entityType, id, data) =>
+                this.time('updateRecord', entityType, id, () => webAPI.updateRecord(entityType, id, data)),
+            deleteRecord: (entityType, id) =>
+                this.time('deleteRecord', entityType, id, () => webAPI.deleteRecord(entityType, id)),
+            retrieveRecord: (entityType, id, options) =>
+                this.time('retrieveRecord', entityType, `${id} ${options || ''}`, () => webAPI.retrieveRecord(entityType, id, options)),
+            retrieveMultipleRecords: (entityType, options, maxPageSize) =>
+                this.time('retrieveMultipleRecords', entityType, options || '', () => webAPI.retrieveMultipleRecords(entityType, options, maxPageSize),
+                    result => result.entities.length)
+        };
+    }
+
+    private async time<T>(operation: string, entityType: string, detail: string, call: () => Promise<T>, countRecords?: (result: T) => number): Promise<T> {
+        const sink = currentTimingSink;
+        if (!sink) {
+            return call();
+        }
+
+        const started = now();
+        const report = (succeeded: boolean, recordCount?: number): void => {
+            try {
+                sink({
+                    category: this.category,
+                    operation,
+                    entityType,
+                    detail: redactText(decodeQuery(detail)).slice(0, maxDetailLength),
+                    durationMs: now() - started,
+                    recordCount,
+                    succeeded
+                });
+            } catch (error) {
+                // A failing sink must not fail the call it measured
+                this.warn('Timing sink failed:', error);
+            }
+        };
+
+        try {
+            const result = await call();
+            report(true, countRecords ? countRecords(result) : undefined);
+            return result;
+        } catch (error) {
+            report(false);
+            throw error;
+        }
+    }
+
+    private write(level: LogLevel, message: string, details: unknown[]): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+
+        const text = `[${this.category}] ${redactText(message)}`;
+        const redacted = details.map(detail => redact(detail));
+
+        switch (level) {
+            case LogLevel.Error:
+                console.error(text, ...redacted);
+                break;
+            case LogLevel.Warn:
+                console.warn(text, ...redacted);
+                break;
+            case LogLevel.Info:
+                console.info(text, ...redacted);
+                break;
+            default:
+                console.debug(text, ...redacted);
+        }
+    }
+}
+
+function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+// Queries are URL-encoded; decode them so addresses in filters are found and redacted
+function decodeQuery(query: string): string {
+    try {
+        return decodeURIComponent(query);
+    } catch {
+        return query;
+    }
+}
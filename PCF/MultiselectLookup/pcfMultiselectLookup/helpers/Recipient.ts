@@ -0,0 +1,120 @@
+/**
+ * Recipient model shared by the forward picker: a selection can hold system users, teams, queues
+ * and external contacts
+ */
+
+import { SystemUser } from './SystemUserService';
+
+export type RecipientEntityType = 'systemuser' | 'team' | 'queue' | 'contact';
+
+export type RecipientRole = 'to' | 'cc';
+
+interface RecipientBase {
+    id: string;
+    entityType: RecipientEntityType;
+    displayName: string;
+    email: string;
+    role?: RecipientRole;
+    /** Recipient outside the organisation (contacts) - downstream flows may handle these differently */
+    isExternal?: boolean;
+}
+
+export interface UserRecipient extends RecipientBase {
+    entityType: 'systemuser';
+    user: SystemUser;
+}
+
+export interface TeamRecipient extends RecipientBase {
+    entityType: 'team';
+    teamType?: number;
+}
+
+export interface QueueRecipient extends RecipientBase {
+    entityType: 'queue';
+}
+
+export interface ContactRecipient extends RecipientBase {
+    entityType: 'contact';
+    isExternal: true;
+    accountName?: string;
+}
+
+export type Recipient = UserRecipient | TeamRecipient | QueueRecipient | ContactRecipient;
+
+/**
+ * Wraps a system user as a recipient
+ * @param user System user
+ * @returns User recipient
+ */
+export function userToRecipient(user: SystemUser): UserRecipient {
+    const fullName = `${user.firstname} ${user.lastname}`.trim();
+
+    return {
+        id: user.systemuserid,
+        entityType: 'systemuser',
+        displayName: fullName || user.internalemailaddress,
+        email: user.internalemailaddress,
+        user
+    };
+}
+
+/**
+ * Checks whether two recipients are the same record, or share an email address
+ * when one of them has no ID (e.g. recipients rebuilt from saved email text)
+ */
+export function isSameRecipient(a: Recipient, b: Recipient): boolean {
+    if (a.id && b.id) {
+        return a.entityType === b.entityType && a.id === b.id;
+    }
+
+    return !!a.email && a.email.toLowerCase() === b.email.toLowerCase();
+}
+
+/**
+ * Gets a stable React key for a recipient
+ */
+export function getRecipientKey(recipient: Recipient): string {
+    return `${recipient.entityType}_${recipient.id || recipient.email}`;
+}
+
+/**
+ * Splits a semicolon-separated email string into trimmed, non-empty addresses
+ */
+export function parseEmailList(emails: string): string[] {
+    if (!emails) return [];
+
+    return emails
+        .split(';')
+        .map(email => email.trim())
+        .filter(email => email);
+}
+
+/**
+ * Joins recipient email addresses into the semicolon-separated format of the selectedEmails field
+ */
+export function recipientsToEmails(recipients: Recipient[]): string {
+    return recipients
+        .map(recipient => recipient.email)
+        .filter(email => email && email.trim())
+        .join(';');
+}
+
+/**
+ * Builds recipients for a semicolon-separated email string. Addresses that belong to an already
+ * known recipient keep that recipient (with its ID, type and name); other addresses become
+ * placeholder user recipients without an ID.
+ * @param emails Semicolon-separated email addresses
+ * @param knownRecipients Recipients to reuse when their email address matches
+ */
+export function recipientsFromEmails(emails: string, knownRecipients: Recipient[] = []): Recipient[] {
+    return parseEmailList(emails).map(email => {
+        const known = knownRecipients.find(recipient => recipient.email && recipient.email.toLowerCase() === email.toLowerCase());
+
+        return known || userToRecipient({
+            systemuserid: '',
+            firstname: '',
+            lastname: '',
+            internalemailaddress: email
+        });
+    });
+}
@@ -0,0 +1,134 @@
+/**
+ * Versioned JSON document for storing the selected recipients in a bound text field.
+ * Unlike the semicolon email string, the document keeps IDs, names, types and roles,
+ * so a saved selection is restored exactly when the panel reopens.
+ */
+
+import { Recipient, RecipientEntityType, RecipientRole } from './Recipient';
+import { Logger } from './Logger';
+
+const logger = new Logger('RecipientDocument');
+
+export const RECIPIENT_DOCUMENT_VERSION = 1;
+
+export interface RecipientDocumentEntry {
+    id: string | null;
+    entityType: RecipientEntityType;
+    displayName: string;
+    email: string;
+    role: RecipientRole;
+    isExternal: boolean;
+}
+
+export interface RecipientDocument {
+    version: number;
+    recipients: RecipientDocumentEntry[];
+}
+
+const recipientEntityTypes: RecipientEntityType[] = ['systemuser', 'team', 'queue', 'contact'];
+const recipientRoles: RecipientRole[] = ['to', 'cc'];
+
+/**
+ * Serializes recipients into the JSON recipient document
+ * @param recipients Selected recipients
+ * @returns JSON string, or an empty string when nothing is selected (so the field is cleared)
+ */
+export function serializeRecipients(recipients: Recipient[]): string {
+    if (recipients.length === 0) {
+        return '';
+    }
+
+    const document: RecipientDocument = {
+        version: RECIPIENT_DOCUMENT_VERSION,
+        recipients: recipients.map(recipient => recipientToEntry(recipient))
+    };
+
+    return JSON.stringify(document);
+}
+
+/**
+ * Converts a recipient into a document entry
+ */
+export function recipientToEntry(recipient: Recipient): RecipientDocumentEntry {
+    return {
+        id: recipient.id || null,
+        entityType: recipient.entityType,
+        displayName: recipient.displayName,
+        email: recipient.email,
+        role: recipient.role || 'to',
+        isExternal: !!recipient.isExternal
+    };
+}
+
+/**
+ * Parses a JSON recipient document back into recipients
+ * @param json Stored document text
+ * @returns Recipients, or null when the text is empty, not valid JSON or of an unsupported version
+ */
+export function parseRecipientDocument(json: string | null | undefined): Recipient[] | null {
+    if (!json || !json.trim()) {
+        return null;
+    }
+
+    let document: RecipientDocument;
+    try {
+        document = JSON.parse(json);
+    } catch (error) {
+        logger.error('Stored recipients are not valid JSON:', error);
+        return null;
+    }
+
+    if (!document || typeof document !== 'object' || !Array.isArray(document.recipients)) {
+        logger.error('Stored recipients have an unexpected shape');
+        return null;
+    }
+
+    if (document.version !== RECIPIENT_DOCUMENT_VERSION) {
+        logger.error(`Unsupported recipient document version ${document.version}`);
+        return null;
+    }
+
+    return document.recipients
+        .filter(entry => isRecipientDocumentEntry(entry))
+        .map(entry => entryToRecipient(entry));
+}
+
+/**
+ * Checks that a stored value looks like a document entry of a supported recipient type
+ */
+export function isRecipientDocumentEntry(entry: RecipientDocumentEntry | null | undefined): entry is RecipientDocumentEntry {
+    return !!entry && recipientEntityTypes.indexOf(entry.entityType) !== -1;
+}
+
+/**
+ * Converts a document entry into a recipient
+ */
+export function entryToRecipient(entry: RecipientDocumentEntry): Recipient {
+    const id = entry.id || '';
+    const displayName = entry.displayName || '';
+    const email = entry.email || '';
+    const role: RecipientRole = recipientRoles.indexOf(entry.role) !== -1 ? entry.role : 'to';
+
+    switch (entry.entityType) {
+        case 'team':
+            return { id, entityType: 'team', displayName, email, role };
+        case 'queue':
+            return { id, entityType: 'queue', displayName, email, role };
+        case 'contact':
+            return { id, entityType: 'contact', displayName, email, role, isExternal: true };
+        default:
+            return {
+                id,
+                entityType: 'systemuser',
+                displayName,
+                email,
+                role,
+                user: {
+                    systemuserid: id,
+                    firstname: '',
+                    lastname: '',
+                    internalemailaddress: email
+                }
+            };
+    }
+}
@@ -0,0 +1,185 @@
+/**
+ * Recent and favourite forward recipients of the signed-in user, kept in the browser's local storage.
+ * Recents are ranked by a usage score that halves every two weeks, so people who are no longer
+ * forwarded to drop out of the list by themselves.
+ */
+
+import { Recipient, isSameRecipient } from './Recipient';
+import {
+    RecipientDocumentEntry,
+    recipientToEntry,
+    entryToRecipient,
+    isRecipientDocumentEntry
+} from './RecipientDocument';
+import { Logger } from './Logger';
+
+const logger = new Logger('RecipientHistory');
+
+interface RecentEntry {
+    recipient: RecipientDocumentEntry;
+    /** Usage score at the time of the last use */
+    score: number;
+    /** Time of the last use (milliseconds since epoch) */
+    lastUsed: number;
+}
+
+interface RecipientHistoryData {
+    version: number;
+    recents: RecentEntry[];
+    favourites: RecipientDocumentEntry[];
+}
+
+export class RecipientHistory {
+    private static readonly storagePrefix: string = 'pcfMultiselectLookup.recipientHistory.';
+    private static readonly version: number = 1;
+    private static readonly halfLifeDays: number = 14;
+    private static readonly minimumScore: number = 0.1; // Recents that decayed below this are forgotten
+    private static readonly maxRecents: number = 20;
+    private static memoryStore: Map<string, string> = new Map(); // Fallback when local storage is blocked
+
+    private storageKey: string;
+
+    /**
+     * @param userId ID of the signed-in user; every user has their own history
+     */
+    constructor(userId: string) {
+        this.storageKey = `${RecipientHistory.storagePrefix}${(userId || '').replace(/[{}]/g, '').toLowerCase()}`;
+    }
+
+    /**
+     * Gets the most used recent recipients that are not favourites, best first
+     * @param max Maximum number of recipients
+     */
+    public getRecent(max: number = 5): Recipient[] {
+        const data = this.load();
+        const now = Date.now();
+        const favourites = data.favourites.map(entry => entryToRecipient(entry));
+
+        return data.recents
+            .map(entry => ({ entry, score: this.getDecayedScore(entry, now) }))
+            .sort((a, b) => b.score - a.score)
+            .map(ranked => entryToRecipient(ranked.entry.recipient))
+            .filter(recipient => !favourites.some(favourite => isSameRecipient(favourite, recipient)))
+            .slice(0, max);
+    }
+
+    /**
+     * Gets the pinned recipients in the order they were pinned
+     */
+    public getFavourites(): Recipient[] {
+        return this.load().favourites.map(entry => entryToRecipient(entry));
+    }
+
+    public isFavourite(recipient: Recipient): boolean {
+        return this.getFavourites().some(favourite => isSameRecipient(favourite, recipient));
+    }
+
+    /**
+     * Pins or unpins a recipient
+     * @param recipient Recipient to toggle
+     * @returns Whether the recipient is a favourite now
+     */
+    public toggleFavourite(recipient: Recipient): boolean {
+        const data = this.load();
+        const index = data.favourites.findIndex(entry => isSameRecipient(entryToRecipient(entry), recipient));
+
+        if (index !== -1) {
+            data.favourites.splice(index, 1);
+        } else {
+            data.favourites.push(recipientToEntry(recipient));
+        }
+
+        this.save(data);
+        return index === -1;
+    }
+
+    /**
+     * Records that the recipients were forwarded to, raising their recent score
+     * @param recipients Recipients of a confirmed selection
+     */
+    public recordUse(recipients: Recipient[]): void {
+        if (recipients.length === 0) return;
+
+        const data = this.load();
+        const now = Date.now();
+
+        recipients.forEach(recipient => {
+            const existing = data.recents.find(entry => isSameRecipient(entryToRecipient(entry.recipient), recipient));
+
+            if (existing) {
+                existing.score = this.getDecayedScore(existing, now) + 1;
+                existing.lastUsed = now;
+                existing.recipient = recipientToEntry(recipient);
+            } else {
+                data.recents.push({ recipient: recipientToEntry(recipient), score: 1, lastUsed: now });
+            }
+        });
+
+        // Forget recipients that faded out, and keep the list short
+        data.recents = data.recents
+            .filter(entry => this.getDecayedScore(entry, now) >= RecipientHistory.minimumScore)
+            .sort((a, b) => this.getDecayedScore(b, now) - this.getDecayedScore(a, now))
+            .slice(0, RecipientHistory.maxRecents);
+
+        this.save(data);
+    }
+
+    /**
+     * Forgets all recent recipients (favourites are kept)
+     */
+    public clearRecent(): void {
+        const data = this.load();
+        data.recents = [];
+        this.save(data);
+    }
+
+    private getDecayedScore(entry: RecentEntry, now: number): number {
+        const elapsedDays = Math.max(0, now - entry.lastUsed) / (24 * 60 * 60 * 1000);
+        return entry.score * Math.pow(0.5, elapsedDays / RecipientHistory.halfLifeDays);
+    }
+
+    private load(): RecipientHistoryData {
+        const empty: RecipientHistoryData = { version: RecipientHistory.version, recents: [], favourites: [] };
+
+        let json: string | null | undefined;
+        try {
+            json = window.localStorage.getItem(this.storageKey);
+        } catch (error) {
+            logger.warn('Local storage unavailable, using memory only:', error);
+            json = RecipientHistory.memoryStore.get(this.storageKey);
+        }
+
+        if (!json) {
+            return empty;
+        }
+
+        try {
+            const data: RecipientHistoryData = JSON.parse(json);
+            if (!data || data.version !== RecipientHistory.version) {
+                return empty;
+            }
+
+            return {
+                version: data.version,
+                recents: (data.recents || []).filter(entry => entry && isRecipientDocumentEntry(entry.recipient)),
+                favourites: (data.favourites || []).filter(entry => isRecipientDocumentEntry(entry))
+            };
+
+        } catch (error) {
+            logger.error('Stored history is not valid JSON:', error);
+            return empty;
+        }
+    }
+
+    private save(data: RecipientHistoryData): void {
+        const json = JSON.stringify(data);
+
+        try {
+            window.localStorage.setItem(this.storageKey, json);
+        } catch (error) {
+            // Storage blocked or full - keep the history for this page only
+            logger.warn('Could not save history to local storage:', error);
+            RecipientHistory.memoryStore.set(this.storageKey, json);
+        }
+    }
+}
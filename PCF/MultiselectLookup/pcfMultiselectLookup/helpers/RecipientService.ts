@@ -0,0 +1,178 @@
+/**
+ * Service for searching non-user forward recipients (teams and queues)
+ * and for expanding teams into their member users
+ */
+
+import { SystemUserService } from './SystemUserService';
+import { Recipient, TeamRecipient, QueueRecipient, userToRecipient, isSameRecipient } from './Recipient';
+import { Logger } from './Logger';
+
+const logger = new Logger('RecipientService');
+
+export interface RecipientServiceOptions {
+    /** Allow teams without a mailbox, because they will be expanded to their members */
+    expandTeamMembers?: boolean;
+    /** Maximum number of teams/queues returned per search */
+    maxResults?: number;
+}
+
+export class RecipientService {
+    private context: ComponentFramework.Context<unknown>;
+    private webAPI: ComponentFramework.WebApi; // Timed when Web API timings are on
+    private userService: SystemUserService;
+    private expandTeamMembers: boolean;
+    private maxResults: number;
+
+    constructor(context: ComponentFramework.Context<unknown>, userService: SystemUserService, options: RecipientServiceOptions = {}) {
+        this.context = context;
+        this.webAPI = logger.timeWebApi(context.webAPI);
+        this.userService = userService;
+        this.expandTeamMembers = options.expandTeamMembers || false;
+        this.maxResults = options.maxResults || 5;
+    }
+
+    /**
+     * Searches teams by name or email address
+     * @param searchTerm Optional search term
+     * @returns Promise with matching teams sorted A-Z
+     */
+    public async searchTeams(searchTerm?: string): Promise<TeamRecipient[]> {
+        try {
+            const filters: string[] = [];
+
+            // Business unit default teams contain everybody in the unit - never a forward target
+            filters.push("isdefault eq false");
+
+            // A team can only receive mail directly when it has a mailbox
+            if (!this.expandTeamMembers) {
+                filters.push("emailaddress ne null");
+            }
+
+            if (searchTerm && searchTerm.trim()) {
+                filters.push(this.buildNameOrEmailFilter('name', searchTerm.trim()));
+            }
+
+            const query = `?$select=teamid,name,emailaddress,teamtype&$filter=${filters.join(' and ')}&$orderby=name asc&$top=${this.maxResults}`;
+            logger.debug(`Team query: ${query}`);
+
+            const result = await this.webAPI.retrieveMultipleRecords("team", query);
+
+            return result.entities.map((entity): TeamRecipient => ({
+                id: entity.teamid,
+                entityType: 'team',
+                displayName: entity.name || '',
+                email: entity.emailaddress || '',
+                teamType: entity.teamtype
+            }));
+
+        } catch (error) {
+            logger.error('Error retrieving teams:', error);
+            throw new Error(`Failed to retrieve teams: ${this.getErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Searches active queues with a mailbox by name or email address
+     * @param searchTerm Optional search term
+     * @returns Promise with matching queues sorted A-Z
+     */
+    public async searchQueues(searchTerm?: string): Promise<QueueRecipient[]> {
+        try {
+            const filters: string[] = [];
+
+            // Active queues only, and only those that can receive email
+            filters.push("statecode eq 0");
+            filters.push("emailaddress ne null");
+
+            if (searchTerm && searchTerm.trim()) {
+                filters.push(this.buildNameOrEmailFilter('name', searchTerm.trim()));
+            }
+
+            const query = `?$select=queueid,name,emailaddress&$filter=${filters.join(' and ')}&$orderby=name asc&$top=${this.maxResults}`;
+            logger.debug(`Queue query: ${query}`);
+
+            const result = await this.webAPI.retrieveMultipleRecords("queue", query);
+
+            return result.entities.map((entity): QueueRecipient => ({
+                id: entity.queueid,
+                entityType: 'queue',
+                displayName: entity.name || '',
+                email: entity.emailaddress || ''
+            }));
+
+        } catch (error) {
+            logger.error('Error retrieving queues:', error);
+            throw new Error(`Failed to retrieve queues: ${this.getErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Replaces every team in the selection with its member users, when team expansion is enabled.
+     * Users already in the selection are not added twice.
+     * @param recipients Selected recipients
+     * @returns Promise with the expanded selection
+     */
+    public async expandTeams(recipients: Recipient[]): Promise<Recipient[]> {
+        if (!this.expandTeamMembers) {
+            return recipients;
+        }
+
+        const expanded: Recipient[] = recipients.filter(recipient => recipient.entityType !== 'team');
+
+        for (const team of recipients.filter(recipient => recipient.entityType === 'team')) {
+            const members = await this.userService.getTeamMembers(team.id);
+            logger.debug(`Team "${team.displayName}" expanded to ${members.length} members`);
+
+            members
+                .map(member => userToRecipient(member))
+                .forEach(member => {
+                    if (!expanded.some(existing => isSameRecipient(existing, member))) {
+                        expanded.push(member);
+                    }
+                });
+        }
+
+        return expanded;
+    }
+
+    /**
+     * Re-hydrates saved recipients that only have an email address (records saved before recipients
+     * were stored as JSON): users found by email get their ID and name back. Recipients that are not
+     * found, or whose lookup failed, are kept as they are.
+     * @param recipients Saved recipients
+     * @returns Promise with the recipients in the same order
+     */
+    public async rehydrateRecipients(recipients: Recipient[]): Promise<Recipient[]> {
+        const emailOnly = recipients.filter(recipient => !recipient.id && recipient.entityType === 'systemuser' && recipient.email);
+        if (emailOnly.length === 0) {
+            return recipients;
+        }
+
+        const results = await this.userService.lookupUsersByEmails(emailOnly.map(recipient => recipient.email));
+        const failed = results.filter(result => result.status === 'failed').length;
+        if (failed > 0) {
+            logger.warn(`${failed} saved recipients could not be looked up and are kept as plain addresses`);
+        }
+
+        return recipients.map(recipient => {
+            const index = emailOnly.indexOf(recipient);
+            const user = index !== -1 ? results[index].user : null;
+            return user ? userToRecipient(user) : recipient;
+        });
+    }
+
+    /**
+     * Builds a startswith filter on a name column and the email address
+     */
+    private buildNameOrEmailFilter(nameField: string, searchTerm: string): string {
+        const escapedSearchTerm = searchTerm.replace(/'/g, "''");
+        return `(startswith(${nameField},'${escapedSearchTerm}') or startswith(emailaddress,'${escapedSearchTerm}'))`;
+    }
+
+    private getErrorMessage(error: unknown): string {
+        if (error && typeof error === 'object' && (error as { message?: string }).message) {
+            return (error as { message: string }).message;
+        }
+        return String(error);
+    }
+}
@@ -0,0 +1,105 @@
+/**
+ * Selection rules configured on the control (recipient count limits, allowed email domains) and
+ * the validity the control publishes for form scripts and flows
+ */
+
+import { Recipient } from './Recipient';
+import { LocalizedStrings } from './Strings';
+import { ForwardDecision } from './ForwardToFlag';
+
+export interface RecipientRules {
+    /** Fewest recipients a non-empty selection may have; 0 for no minimum */
+    minRecipients: number;
+    /** Most recipients a selection may have; 0 for no limit */
+    maxRecipients: number;
+    /** Email domains recipients must belong to (subdomains included); empty allows every domain */
+    allowedDomains: string[];
+    /** At least one recipient is needed while the record is set to forward */
+    requireWhenForwarding: boolean;
+}
+
+export const DEFAULT_RECIPIENT_RULES: RecipientRules = {
+    minRecipients: 0,
+    maxRecipients: 0,
+    allowedDomains: [],
+    requireWhenForwarding: false
+};
+
+export type RecipientRuleViolation = 'required' | 'notForwarding' | 'tooFew' | 'tooMany' | 'domain';
+
+export interface RecipientValidationResult {
+    isValid: boolean;
+    /** First rule the selection breaks, or null when it is valid */
+    violation: RecipientRuleViolation | null;
+    /** Explanation for the user, empty when the selection is valid */
+    message: string;
+    /** Recipients whose address is outside the allowed domains */
+    blockedRecipients: Recipient[];
+}
+
+/**
+ * Normalises the configured domain list: "@contoso.com" and "*.contoso.com" both become "contoso.com"
+ * @param value Semicolon- or comma-separated domains
+ */
+export function parseAllowedDomains(value: string | null | undefined): string[] {
+    if (!value) return [];
+
+    return value
+        .split(/[;,\s]/)
+        .map(domain => domain.trim().toLowerCase().replace(/^(\*?\.|@)/, ''))
+        .filter(domain => domain);
+}
+
+/**
+ * Checks whether an address belongs to one of the allowed domains or their subdomains
+ * @param email Email address
+ * @param allowedDomains Normalised domains; an empty list allows every address
+ */
+export function isEmailDomainAllowed(email: string, allowedDomains: string[]): boolean {
+    if (allowedDomains.length === 0) {
+        return true;
+    }
+
+    const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+    return allowedDomains.some(allowed => domain === allowed || domain.endsWith(`.${allowed}`));
+}
+
+/**
+ * Checks a selection against the rules
+ * @param recipients Selected recipients
+ * @param rules Configured rules
+ * @param forwardDecision The record's Forward To decision; 'unset' skips the forwarding checks
+ * @param strings UI text for the message
+ */
+export function validateRecipients(
+    recipients: Recipient[],
+    rules: RecipientRules,
+    forwardDecision: ForwardDecision,
+    strings: LocalizedStrings
+): RecipientValidationResult {
+    // Teams without a mailbox are expanded to their members' addresses, which are checked then
+    const blockedRecipients = recipients.filter(recipient => !!recipient.email && !isEmailDomainAllowed(recipient.email, rules.allowedDomains));
+    const result = (violation: RecipientRuleViolation, message: string): RecipientValidationResult =>
+        ({ isValid: false, violation, message, blockedRecipients });
+
+    if (recipients.length === 0 && rules.requireWhenForwarding && forwardDecision === 'yes') {
+        return result('required', strings.get('ValidationRequired'));
+    }
+    // An explicit No is kept, so recipients picked with it would never receive the record
+    if (recipients.length > 0 && forwardDecision === 'no') {
+        return result('notForwarding', strings.get('ValidationNotForwarding'));
+    }
+    // An empty selection means "do not forward"; the minimum applies once someone is picked
+    if (recipients.length > 0 && recipients.length < rules.minRecipients) {
+        return result('tooFew', strings.plural('ValidationTooFew', rules.minRecipients));
+    }
+    if (rules.maxRecipients > 0 && recipients.length > rules.maxRecipients) {
+        return result('tooMany', strings.plural('ValidationTooMany', rules.maxRecipients));
+    }
+    if (blockedRecipients.length > 0) {
+        const names = blockedRecipients.map(recipient => recipient.displayName || recipient.email).join(', ');
+        return result('domain', strings.get('ValidationDomain', names, rules.allowedDomains.join(', ')));
+    }
+
+    return { isValid: true, violation: null, message: '', blockedRecipients };
+}
@@ -0,0 +1,104 @@
+/**
+ * Stale-response protection for directory requests. The Web API offered to controls cannot abort a
+ * request, so every request is tagged with a token instead: when a newer request starts (or the
+ * owner is torn down) older tokens stop being current, their responses are discarded, and
+ * multi-step work such as walking to a distant page stops at the next step.
+ */
+
+/**
+ * Raised by work that noticed its request was superseded or cancelled
+ */
+export class RequestCancelledError extends Error {
+    constructor() {
+        super('Request was superseded or cancelled');
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * Checks whether an error only means that a request was superseded (and should not be shown)
+ */
+export function isRequestCancelled(error: unknown): boolean {
+    return error instanceof RequestCancelledError;
+}
+
+export interface RequestToken {
+    /** True while no newer request has started and the owner has not been torn down */
+    isCurrent(): boolean;
+    /** Throws RequestCancelledError when the token is no longer current */
+    throwIfCancelled(): void;
+}
+
+/**
+ * Hands out tokens for one stream of requests (for example the result list of a panel);
+ * only the latest token is current
+ */
+export class LatestRequestTracker {
+    private sequence: number = 0;
+    private disposed: boolean = false;
+
+    /**
+     * Starts a new request, superseding every earlier one
+     */
+    public begin(): RequestToken {
+        const id = ++this.sequence;
+        const isCurrent = (): boolean => !this.disposed && id === this.sequence;
+
+        return {
+            isCurrent,
+            throwIfCancelled: () => {
+                if (!isCurrent()) {
+                    throw new RequestCancelledError();
+                }
+            }
+        };
+    }
+
+    /**
+     * Supersedes the running request without starting a new one
+     */
+    public cancel(): void {
+        this.sequence++;
+    }
+
+    /**
+     * Cancels the running request for good (owner unmounted or destroyed)
+     */
+    public dispose(): void {
+        this.disposed = true;
+        this.sequence++;
+    }
+}
+
+/**
+ * Runs the latest scheduled callback after a quiet period
+ */
+export class Debouncer {
+    private delay: number;
+    private timeout: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(delay: number) {
+        this.delay = delay;
+    }
+
+    /**
+     * Schedules the callback, replacing one that has not run yet
+     */
+    public schedule(callback: () => void): void {
+        this.cancel();
+        this.timeout = setTimeout(() => {
+            this.timeout = null;
+            callback();
+        }, this.delay);
+    }
+
+    /**
+     * Drops the scheduled callback, if any
+     */
+    public cancel(): void {
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+            this.timeout = null;
+        }
+    }
+}
@@ -0,0 +1,236 @@
+/**
+ * UI text of the control. Strings are read from the resx files in strings/ (MultiselectLookup.<LCID>.resx)
+ * through context.resources.getString; the English defaults below are used for keys the platform
+ * cannot resolve, for example in the test harness.
+ *
+ * Placeholders are written {0}, {1}, ... Counted strings have one entry per plural category
+ * (Key_zero, Key_one, Key_two, Key_few, Key_many, Key_other) and {0} is the count; English needs
+ * only _one and _other, Arabic uses all six.
+ */
+
+import { Logger } from './Logger';
+
+const logger = new Logger('LocalizedStrings');
+
+// English defaults, the same as strings/MultiselectLookup.1033.resx
+export const defaultStrings = {
+    SelectUsers: 'Select Users',
+    ClearAll: 'Clear All',
+    SelectedEmailAddresses: 'Selected Email Addresses',
+    EmailsPlaceholder: 'Selected email addresses will appear here...',
+    CheckingEmails: 'Checking email addresses...',
+    EmailsDescription: 'Separate email addresses with semicolons (;), commas (,) or new lines',
+    EmailStatus_valid: 'Recipient found',
+    EmailStatus_invalid: 'Not a valid email address',
+    EmailStatus_unknown: 'No user with this email address',
+    EmailStatus_disabled: 'This user is disabled',
+    EmailStatus_outsideDirectory: 'This user cannot receive forwards from this form',
+    ReadyToForward: 'Ready to forward',
+    PanelHeader: 'Select Recipients to Forward To',
+    Close: 'Close',
+    ErrorValidateEmails: 'Failed to validate email addresses: {0}',
+    SearchHeader: 'Search Active AD Users',
+    SearchSubheader: 'Showing only enabled users allowed by this form\'s directory settings',
+    SearchLabel: 'Search',
+    SearchPlaceholder: 'Enter a name, team, queue or email...',
+    SearchPlaceholderWithContacts: 'Enter a name, team, queue, contact or email...',
+    SearchDescription: 'Narrow down with title:, dept:, bu: or phone: - for example title:counsel bu:finance',
+    SearchButton: 'Search',
+    Clear: 'Clear',
+    OrgChart: 'Org chart',
+    OrgChartTitle: 'Browse your managers and reports',
+    Refresh: 'Refresh',
+    RefreshTitle: 'Reload the user directory from the server',
+    ExternalCount: '({0} external)',
+    Favourites: 'Favourites',
+    Recent: 'Recent',
+    NoRecipientsFound: 'No recipients found. Try adjusting your search criteria.',
+    RecipientsHeader: 'Recipients (A-Z)',
+    Cancel: 'Cancel',
+    SelectRecipients: 'Select Recipients',
+    UsersRange: '{0}-{1} of {2} users',
+    PageOf: 'Page {0} of {1}',
+    BestMatchesFirst: 'Best matches first',
+    SortedByFirstName: 'Sorted A-Z by first name',
+    ColumnFirstName: 'First Name',
+    ColumnLastName: 'Last Name',
+    ColumnType: 'Type',
+    ColumnEmail: 'Email',
+    TeamsAndQueues: 'Teams and Queues',
+    ExternalContactsPage: 'External Contacts • Page {0}',
+    PreviousContacts: 'Previous contacts',
+    NextContacts: 'Next contacts',
+    PreviousPage: 'Previous',
+    NextPage: 'Next',
+    ShowingUsers: 'Showing {0} of {1} users',
+    SearchingUsers: 'Searching users...',
+    ClearSelection: 'Clear Selection',
+    NotAvailable: 'N/A',
+    MembersWillBeAdded: 'Members will be added',
+    NoEmail: 'No email',
+    ReportsTo: 'Reports to {0}',
+    AddFavourite: 'Add to favourites',
+    RemoveFavourite: 'Remove from favourites',
+    AddFavouriteLabel: 'Add {0} to favourites',
+    RemoveFavouriteLabel: 'Remove {0} from favourites',
+    ErrorLoadUsers: 'Failed to load users: {0}',
+    ErrorLoadContacts: 'Failed to load contacts: {0}',
+    ErrorExpandTeams: 'Failed to expand teams: {0}',
+    ErrorNextPage: 'Failed to load next page: {0}',
+    ErrorPreviousPage: 'Failed to load previous page: {0}',
+    RecipientType_systemuser: 'User',
+    RecipientType_team: 'Team',
+    RecipientType_queue: 'Queue',
+    RecipientType_contact: 'External',
+    CloseOrgChart: 'Close the org chart',
+    LoadingOrgChart: 'Loading org chart...',
+    ShowReports: 'Show reports',
+    HideReports: 'Hide reports',
+    ShowReportsOf: 'Show the reports of {0}',
+    HideReportsOf: 'Hide the reports of {0}',
+    NotSelectable: 'Disabled or without a mailbox',
+    Loading: 'Loading...',
+    SelectBranch: 'Select branch',
+    FocusPerson: 'Show the org chart around this person',
+    FocusPersonLabel: 'Show the org chart around {0}',
+    NoDirectReports: 'No direct reports',
+    ErrorLoadOrgChart: 'Failed to load the org chart: {0}',
+    ErrorLoadReports: 'Failed to load the reports of {0}: {1}',
+    ErrorLoadBranch: 'Failed to load the branch of {0}: {1}',
+    SuggestedRecipients: 'Suggested recipients',
+    NoSuggestions: 'No recipients found',
+    Searching: 'Searching...',
+    ForwardRecipients: 'Forward recipients',
+    TypeNameOrEmail: 'Type a name or email...',
+    ErrorLoadSuggestions: 'Failed to load suggestions: {0}',
+    ColumnFullName: 'Full Name',
+    ColumnJobTitle: 'Job Title',
+    ColumnDepartment: 'Department',
+    ColumnBusinessUnit: 'Business Unit',
+    ColumnPhone: 'Phone',
+    PageInfo: '{0}-{1} of {2} • Page {3} of {4}',
+    First: 'First',
+    Previous: 'Previous',
+    Next: 'Next',
+    Last: 'Last',
+    LookupSearchPlaceholder: 'Search by name, or title:, dept:, bu:, phone:...',
+    LoadingUsers: 'Loading users...',
+    NoUsersFound: 'No users found.',
+    ResultsGridLabel: 'Search results',
+    ResultsKeyboardHint: 'Use the arrow keys to move through the results, Space to select or clear a recipient and Enter to confirm the selection',
+    SelectRecipientLabel: 'Select {0}',
+    PaginationLabel: 'Result pages',
+    ContactPaginationLabel: 'External contact pages',
+    ReadOnly_noReadAccess: 'You do not have permission to view the recipients of this record.',
+    ReadOnly_fieldSecurity: 'You can view the recipients but not change them: field security does not give you update access to this column.',
+    ReadOnly_inactiveRecord: 'The recipients cannot be changed because this record is inactive.',
+    ReadOnly_controlDisabled: 'The recipients cannot be changed because the form or this field is read-only.',
+    ReadOnlyRecipientsLabel: 'Selected recipients',
+    NoRecipientsSelected: 'No recipients selected',
+    ValidationRequired: 'Select at least one recipient to forward this record',
+    ValidationNotForwarding: 'Forward To is set to No: set it to Yes or remove the recipients',
+    ValidationDomain: '{0} cannot be forwarded to: only addresses at {1} are allowed',
+    AddressesNeedAttention_one: '{0} address needs attention - the selection is not saved until it is fixed or removed',
+    AddressesNeedAttention_other: '{0} addresses need attention - the selection is not saved until they are fixed or removed',
+    EmailsSelected_one: '{0} email selected',
+    EmailsSelected_other: '{0} emails selected',
+    RecipientsSelected_one: '{0} recipient selected',
+    RecipientsSelected_other: '{0} recipients selected',
+    SelectRecipientsCount_one: 'Select {0} Recipient',
+    SelectRecipientsCount_other: 'Select {0} Recipients',
+    UsersSelected_one: '{0} user selected: {1}',
+    UsersSelected_other: '{0} users selected: {1}',
+    OrgChartDepthHint_one: 'Branches include up to {0} level below the person shown in bold',
+    OrgChartDepthHint_other: 'Branches include up to {0} levels below the person shown in bold',
+    SelectBranchTitle_one: 'Select {1} and everyone up to {0} level below',
+    SelectBranchTitle_other: 'Select {1} and everyone up to {0} levels below',
+    ResultsFound_one: '{0} recipient found',
+    ResultsFound_other: '{0} recipients found',
+    ValidationTooFew_one: 'Select at least {0} recipient',
+    ValidationTooFew_other: 'Select at least {0} recipients',
+    ValidationTooMany_one: 'Select no more than {0} recipient',
+    ValidationTooMany_other: 'Select no more than {0} recipients'
+};
+
+export type StringKey = keyof typeof defaultStrings;
+
+/**
+ * Base names of the counted strings (see LocalizedStrings.plural)
+ */
+export type PluralStringKey =
+    'AddressesNeedAttention' | 'EmailsSelected' | 'RecipientsSelected' | 'SelectRecipientsCount' |
+    'UsersSelected' | 'OrgChartDepthHint' | 'SelectBranchTitle' | 'ResultsFound' |
+    'ValidationTooFew' | 'ValidationTooMany';
+
+// Languages with a resx file; other languages fall back to English plural rules
+const languageTags: Record<number, string> = {
+    1025: 'ar',
+    1033: 'en'
+};
+
+export class LocalizedStrings {
+    private resources: ComponentFramework.Resources | null;
+    private pluralRules: Intl.PluralRules;
+
+    /** Language tag matching the user's UI language, for plural rules */
+    public readonly locale: string;
+    /** True when the user's UI language is written right to left */
+    public readonly isRtl: boolean;
+
+    /**
+     * @param context PCF context; the user's language decides the resx file and the plural rules
+     */
+    constructor(context: ComponentFramework.Context<unknown>) {
+        this.resources = context && context.resources ? context.resources : null;
+
+        const userSettings = context ? context.userSettings : null;
+        this.locale = (userSettings && languageTags[userSettings.languageId]) || 'en';
+        this.isRtl = !!(userSettings && userSettings.isRTL);
+        this.pluralRules = new Intl.PluralRules(this.locale);
+    }
+
+    /**
+     * Gets a string, with {0}, {1}, ... replaced by the arguments
+     * @param key String key
+     * @param args Placeholder values
+     */
+    public get(key: StringKey, ...args: (string | number)[]): string {
+        return this.format(this.resolve(key) || key, args);
+    }
+
+    /**
+     * Gets the plural form of a counted string that suits the count, for example
+     * "1 recipient selected" / "3 recipients selected"
+     * @param key Base name of the counted string
+     * @param count The count, available as {0}
+     * @param args Further placeholder values, from {1} on
+     */
+    public plural(key: PluralStringKey, count: number, ...args: (string | number)[]): string {
+        const text = this.resolve(`${key}_${this.pluralRules.select(count)}`) || this.resolve(`${key}_other`) || key;
+        return this.format(text, [count, ...args]);
+    }
+
+    /**
+     * Looks a key up in the resx file, then in the English defaults
+     */
+    private resolve(key: string): string | null {
+        if (this.resources) {
+            try {
+                const value = this.resources.getString(key);
+                // The platform answers with the key itself when the resx file has no such entry
+                if (value && value !== key) {
+                    return value;
+                }
+            } catch (error) {
+                logger.warn(`Could not read resource "${key}":`, error);
+            }
+        }
+
+        return (defaultStrings as Record<string, string>)[key] || null;
+    }
+
+    private format(text: string, args: (string | number)[]): string {
+        return text.replace(/\{(\d+)\}/g, (placeholder: string, index: string) =>
+            args[Number(index)] !== undefined ? String(args[Number(index)]) : placeholder);
+    }
+}
@@ -12,25 +12,35 @@ import {
     MessageBar,
     MessageBarType,
     Spinner,
-    SpinnerSize
+    SpinnerSize,
+    ThemeProvider
 } from '@fluentui/react';
-import { SystemUserService, SystemUser, SystemUserSearchResult } from './SystemUserService';
+import { SystemUserService, SystemUser, SystemUserSearchResult, DirectoryFilterOptions } from './SystemUserService';
+import { SearchableUserField, UserSearchMatch } from './UserSearchRanker';
+import { renderHighlightedText } from './HighlightedText';
+import { LatestRequestTracker, Debouncer, isRequestCancelled } from './RequestTracker';
+import { LocalizedStrings } from './Strings';
+import { getControlTheme, getControlColors } from './Theme';
 
 interface SystemUserLookupProps {
     context: ComponentFramework.Context<any>;
     onSelectionChanged?: (selectedUsers: SystemUser[]) => void;
     allowMultipleSelection?: boolean;
     initialSelectedUsers?: SystemUser[];
+    directoryFilters?: DirectoryFilterOptions;
+    departmentColumn?: string;
 }
 
 interface SystemUserLookupState {
     users: SystemUser[];
+    matches: Record<string, UserSearchMatch>;
     loading: boolean;
     error: string | null;
     searchTerm: string;
     currentPage: number;
     totalPages: number;
     totalRecords: number;
+    pageSize: number;
     hasNextPage: boolean;
     hasPreviousPage: boolean;
     selectedUsers: SystemUser[];
@@ -38,21 +48,30 @@ interface SystemUserLookupState {
 
 export class SystemUserLookup extends React.Component<SystemUserLookupProps, SystemUserLookupState> {
     private userService: SystemUserService;
-    private searchTimeout: NodeJS.Timeout | null = null;
+    private strings: LocalizedStrings;
+    private searchDebouncer: Debouncer = new Debouncer(500);
+    private requests: LatestRequestTracker = new LatestRequestTracker(); // Only the latest load may update the list
 
     constructor(props: SystemUserLookupProps) {
         super(props);
         
         this.userService = new SystemUserService(props.context);
+        if (props.directoryFilters) {
+            this.userService.setDirectoryFilters(props.directoryFilters);
+        }
+        this.userService.setDepartmentColumn(props.departmentColumn || '');
+        this.strings = new LocalizedStrings(props.context);
         
         this.state = {
             users: [],
+            matches: {},
             loading: false,
             error: null,
             searchTerm: '',
             currentPage: 1,
             totalPages: 0,
             totalRecords: 0,
+            pageSize: 0,
             hasNextPage: false,
             hasPreviousPage: false,
             selectedUsers: props.initialSelectedUsers || []
@@ -64,24 +83,31 @@ export class SystemUserLookup extends React.Component<SystemUserLookupProps, Sys
     }
 
     private async loadUsers(page: number = 1, searchTerm?: string): Promise<void> {
+        const token = this.requests.begin();
+
         this.setState({ loading: true, error: null });
 
         try {
-            const result: SystemUserSearchResult = await this.userService.getActiveUsers(page, searchTerm);
+            const result: SystemUserSearchResult = await this.userService.getActiveUsers(page, searchTerm, token);
+            if (!token.isCurrent()) return;
             
             this.setState({
                 users: result.users,
+                matches: result.matches || {},
                 currentPage: result.pagination.currentPage,
                 totalPages: result.pagination.totalPages,
                 totalRecords: result.pagination.totalRecords,
+                pageSize: result.pagination.pageSize,
                 hasNextPage: result.pagination.hasNextPage,
                 hasPreviousPage: result.pagination.hasPreviousPage,
                 loading: false
             });
 
         } catch (error) {
+            if (isRequestCancelled(error) || !token.isCurrent()) return;
+
             this.setState({
-                error: `Failed to load users: ${error}`,
+                error: this.strings.get('ErrorLoadUsers', String(error)),
                 loading: false
             });
         }
@@ -91,15 +117,10 @@ export class SystemUserLookup extends React.Component<SystemUserLookupProps, Sys
         const searchTerm = newValue || '';
         this.setState({ searchTerm });
 
-        // Clear existing timeout
-        if (this.searchTimeout) {
-            clearTimeout(this.searchTimeout);
-        }
-
-        // Set new timeout for debounced search
-        this.searchTimeout = setTimeout(() => {
+        // Debounced search; a load still running for older text is discarded when this one starts
+        this.searchDebouncer.schedule(() => {
             this.loadUsers(1, searchTerm);
-        }, 500);
+        });
     };
 
     private onNextPage = (): void => {
@@ -159,78 +180,141 @@ export class SystemUserLookup extends React.Component<SystemUserLookupProps, Sys
         }
     };
 
+    /**
+     * Renders a field of a row with the matched search words highlighted
+     */
+    private renderField(item: SystemUser, field: SearchableUserField): React.ReactNode {
+        const match = this.state.matches[item.systemuserid];
+        const colors = getControlColors(getControlTheme(this.props.context, this.strings.isRtl));
+        return renderHighlightedText(item[field] || '', match ? match.highlights[field] : undefined, colors.searchHighlight);
+    }
+
     private getColumns(): IColumn[] {
+        const strings = this.strings;
+
         return [
             {
                 key: 'fullname',
-                name: 'Full Name',
+                name: strings.get('ColumnFullName'),
                 fieldName: 'fullname',
                 minWidth: 150,
                 maxWidth: 200,
                 isResizable: true,
                 onRender: (item: SystemUser) => (
-                    <Text>{`${item.firstname} ${item.lastname}`.trim()}</Text>
+                    <Text>{item.fullname ? this.renderField(item, 'fullname') : `${item.firstname} ${item.lastname}`.trim()}</Text>
                 )
             },
             {
                 key: 'firstname',
-                name: 'First Name',
+                name: strings.get('ColumnFirstName'),
                 fieldName: 'firstname',
                 minWidth: 100,
                 maxWidth: 150,
-                isResizable: true
+                isResizable: true,
+                onRender: (item: SystemUser) => this.renderField(item, 'firstname')
             },
             {
                 key: 'lastname',
-                name: 'Last Name',
+                name: strings.get('ColumnLastName'),
                 fieldName: 'lastname',
                 minWidth: 100,
                 maxWidth: 150,
-                isResizable: true
+                isResizable: true,
+                onRender: (item: SystemUser) => this.renderField(item, 'lastname')
             },
             {
                 key: 'internalemailaddress',
-                name: 'Email',
+                name: strings.get('ColumnEmail'),
                 fieldName: 'internalemailaddress',
                 minWidth: 200,
                 maxWidth: 250,
-                isResizable: true
+                isResizable: true,
+                onRender: (item: SystemUser) => this.renderField(item, 'internalemailaddress')
+            },
+            {
+                key: 'title',
+                name: strings.get('ColumnJobTitle'),
+                fieldName: 'title',
+                minWidth: 120,
+                maxWidth: 180,
+                isResizable: true,
+                onRender: (item: SystemUser) => this.renderField(item, 'title')
+            },
+            ...(this.props.departmentColumn ? [{
+                key: 'department',
+                name: strings.get('ColumnDepartment'),
+                fieldName: 'department',
+                minWidth: 120,
+                maxWidth: 180,
+                isResizable: true,
+                onRender: (item: SystemUser) => this.renderField(item, 'department')
+            }] : []),
+            {
+                key: 'businessunitname',
+                name: strings.get('ColumnBusinessUnit'),
+                fieldName: 'businessunitname',
+                minWidth: 120,
+                maxWidth: 180,
+                isResizable: true,
+                onRender: (item: SystemUser) => this.renderField(item, 'businessunitname')
+            },
+            {
+                key: 'address1_telephone1',
+                name: strings.get('ColumnPhone'),
+                fieldName: 'address1_telephone1',
+                minWidth: 100,
+                maxWidth: 140,
+                isResizable: true,
+                onRender: (item: SystemUser) => this.renderField(item, 'address1_telephone1')
             }
         ];
     }
 
+    private getPageInfoText(): string {
+        const { currentPage, totalPages, totalRecords, pageSize, users } = this.state;
+        const firstRecord = users.length > 0 ? (currentPage - 1) * pageSize + 1 : 0;
+        const lastRecord = users.length > 0 ? firstRecord + users.length - 1 : 0;
+
+        return this.strings.get('PageInfo', firstRecord, lastRecord, totalRecords, currentPage, totalPages);
+    }
+
     private getCommandBarItems(): ICommandBarItemProps[] {
+        const strings = this.strings;
+        // Chevrons point the way the pages turn, which is mirrored in right-to-left languages
+        const back = strings.isRtl ? 'Right' : 'Left';
+        const forward = strings.isRtl ? 'Left' : 'Right';
+
         return [
             {
                 key: 'firstPage',
-                text: 'First',
-                iconProps: { iconName: 'DoubleChevronLeft' },
+                text: strings.get('First'),
+                iconProps: { iconName: `DoubleChevron${back}` },
                 disabled: !this.state.hasPreviousPage || this.state.loading,
                 onClick: this.onGoToFirstPage
             },
             {
                 key: 'previousPage',
-                text: 'Previous',
-                iconProps: { iconName: 'ChevronLeft' },
+                text: strings.get('Previous'),
+                iconProps: { iconName: `Chevron${back}` },
                 disabled: !this.state.hasPreviousPage || this.state.loading,
                 onClick: this.onPreviousPage
             },
             {
                 key: 'pageInfo',
-                text: `Page ${this.state.currentPage} of ${this.state.totalPages} (${this.state.totalRecords} total)`,
+                text: this.getPageInfoText(),
                 disabled: true
             },
             {
                 key: 'nextPage',
-                text: 'Next',
-                iconProps: { iconName: 'ChevronRight' },
+                text: strings.get('Next'),
+                iconProps: { iconName: `Chevron${forward}` },
                 disabled: !this.state.hasNextPage || this.state.loading,
                 onClick: this.onNextPage
             },
             {
                 key: 'lastPage',
-                text: 'Last',
-                iconProps: { iconName: 'DoubleChevronRight' },
+                text: strings.get('Last'),
+                iconProps: { iconName: `DoubleChevron${forward}` },
                 disabled: !this.state.hasNextPage || this.state.loading,
                 onClick: this.onGoToLastPage
             }
@@ -239,67 +323,69 @@ export class SystemUserLookup extends React.Component<SystemUserLookupProps, Sys
 
     public render(): React.ReactElement {
         const { loading, error, users, selectedUsers } = this.state;
+        const strings = this.strings;
 
         return (
-            <Stack tokens={{ childrenGap: 10 }}>
-                {/* Search Box */}
-                <SearchBox
-                    placeholder="Search by name..."
-                    value={this.state.searchTerm}
-                    onChange={this.onSearchChange}
-                    disabled={loading}
-                />
-
-                {/* Error Message */}
-                {error && (
-                    <MessageBar messageBarType={MessageBarType.error}>
-                        {error}
-                    </MessageBar>
-                )}
-
-                {/* Selected Users Info */}
-                {selectedUsers.length > 0 && (
-                    <MessageBar messageBarType={MessageBarType.info}>
-                        {selectedUsers.length} user(s) selected: {selectedUsers.map(u => `${u.firstname} ${u.lastname}`.trim()).join(', ')}
-                    </MessageBar>
-                )}
-
-                {/* Loading Spinner */}
-                {loading && (
-                    <Stack horizontalAlign="center">
-                        <Spinner size={SpinnerSize.large} label="Loading users..." />
-                    </Stack>
-                )}
-
-                {/* Users List */}
-                {!loading && users.length > 0 && (
-                    <>
-                        <DetailsList
-                            items={users}
-                            columns={this.getColumns()}
-                            selectionMode={this.props.allowMultipleSelection ? SelectionMode.multiple : SelectionMode.single}
-                            onActiveItemChanged={this.onActiveItemChanged}
-                            compact={true}
-                        />
-
-                        {/* Pagination Controls */}
-                        <CommandBar items={this.getCommandBarItems()} />
-                    </>
-                )}
-
-                {/* No Results */}
-                {!loading && users.length === 0 && !error && (
-                    <MessageBar messageBarType={MessageBarType.info}>
-                        No users found.
-                    </MessageBar>
-                )}
-            </Stack>
+            <ThemeProvider theme={getControlTheme(this.props.context, strings.isRtl)}>
+                <Stack tokens={{ childrenGap: 10 }}>
+                    {/* Search Box */}
+                    <SearchBox
+                        placeholder={strings.get('LookupSearchPlaceholder')}
+                        value={this.state.searchTerm}
+                        onChange={this.onSearchChange}
+                        disabled={loading}
+                    />
+
+                    {/* Error Message */}
+                    {error && (
+                        <MessageBar messageBarType={MessageBarType.error}>
+                            {error}
+                        </MessageBar>
+                    )}
+
+                    {/* Selected Users Info */}
+                    {selectedUsers.length > 0 && (
+                        <MessageBar messageBarType={MessageBarType.info}>
+                            {strings.plural('UsersSelected', selectedUsers.length, selectedUsers.map(u => `${u.firstname} ${u.lastname}`.trim()).join(', '))}
+                        </MessageBar>
+                    )}
+
+                    {/* Loading Spinner */}
+                    {loading && (
+                        <Stack horizontalAlign="center">
+                            <Spinner size={SpinnerSize.large} label={strings.get('LoadingUsers')} />
+                        </Stack>
+                    )}
+
+                    {/* Users List */}
+                    {!loading && users.length > 0 && (
+                        <>
+                            <DetailsList
+                                items={users}
+                                columns={this.getColumns()}
+                                selectionMode={this.props.allowMultipleSelection ? SelectionMode.multiple : SelectionMode.single}
+                                onActiveItemChanged={this.onActiveItemChanged}
+                                compact={true}
+                            />
+
+                            {/* Pagination Controls */}
+                            <CommandBar items={this.getCommandBarItems()} />
+                        </>
+                    )}
+
+                    {/* No Results */}
+                    {!loading && users.length === 0 && !error && (
+                        <MessageBar messageBarType={MessageBarType.info}>
+                            {strings.get('NoUsersFound')}
+                        </MessageBar>
+                    )}
+                </Stack>
+            </ThemeProvider>
         );
     }
 
     public componentWillUnmount(): void {
-        if (this.searchTimeout) {
-            clearTimeout(this.searchTimeout);
-        }
+        this.searchDebouncer.cancel();
+        this.requests.dispose();
     }
 }
\ No newline at end of file
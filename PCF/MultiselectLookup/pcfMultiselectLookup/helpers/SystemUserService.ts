@@ -2,6 +2,24 @@
  * Service for handling SystemUser table operations with pagination and search
  */
 
+import { DirectoryCache, DirectorySnapshot } from './DirectoryCache';
+import { UserSearchMatch, RankedUser, rankUsers, tokeniseSearch } from './UserSearchRanker';
+import { UserSearchScope, parseUserSearch } from './UserSearchQuery';
+import { RequestToken, isRequestCancelled } from './RequestTracker';
+import {
+    DirectorySource,
+    DirectoryQuery,
+    UserSearchCondition,
+    hasDirectorySource,
+    loadDirectoryQuery,
+    readPagingCookie,
+    readTotalRecordCount,
+    readColumnValue
+} from './DirectoryView';
+import { Logger } from './Logger';
+
+const logger = new Logger('SystemUserService');
+
 export interface SystemUser {
     systemuserid: string;
     firstname: string;
@@ -10,6 +28,16 @@ export interface SystemUser {
     isdisabled?: boolean;
     domainname?: string;
     title?: string;
+    fullname?: string;
+    nickname?: string;
+    department?: string;
+    businessunitname?: string;
+    address1_telephone1?: string;
+    /** ID of the user's manager */
+    parentsystemuserid?: string;
+    managername?: string;
+    /** Values of the directory view's layout columns not shown otherwise (only with a directory view) */
+    viewColumns?: { name: string; value: string }[];
 }
 
 export interface PaginationInfo {
@@ -24,76 +52,225 @@ export interface PaginationInfo {
 export interface SystemUserSearchResult {
     users: SystemUser[];
     pagination: PaginationInfo;
+    /** Ranking score and matched fragments per systemuserid (only for searches) */
+    matches?: Record<string, UserSearchMatch>;
+}
+
+/**
+ * A user in the reporting tree below a manager
+ */
+export interface UserHierarchyNode {
+    user: SystemUser;
+    /** 1 for direct reports, 2 for their reports, and so on */
+    depth: number;
+    children: UserHierarchyNode[];
+    /** True when the depth or size limit stopped the tree here, so reports may be missing */
+    truncated: boolean;
+}
+
+/**
+ * Lists the users of a reporting tree, parents before their reports
+ */
+export function flattenHierarchy(nodes: UserHierarchyNode[]): SystemUser[] {
+    return nodes.reduce<SystemUser[]>((users, node) => [...users, node.user, ...flattenHierarchy(node.children)], []);
+}
+
+/**
+ * Outcome of looking up one requested ID or email address
+ */
+export type UserLookupStatus = 'found' | 'notFound' | 'failed';
+
+export interface UserLookupResult {
+    /** ID or email address as passed by the caller */
+    key: string;
+    status: UserLookupStatus;
+    /** The user, when found */
+    user: SystemUser | null;
+    /** Why the lookup failed (only for 'failed') */
+    error?: string;
+}
+
+type UserLookupOutcome = Omit<UserLookupResult, 'key'>;
+
+const notFoundOutcome: UserLookupOutcome = { status: 'notFound', user: null };
+
+/**
+ * Directory filters deciding which users can be found. Configured per form through the
+ * control manifest, and applied to search, paging, counts and lookups by ID.
+ */
+export interface DirectoryFilterOptions {
+    /** Only users with a job title */
+    requireJobTitle?: boolean;
+    /** Business unit IDs or names; users must belong to one of them */
+    businessUnits?: string[];
+    /** Security role names; users must hold one of them */
+    securityRoles?: string[];
+    /** Also include licensed users without an AD domain name */
+    includeLicensedNonAdUsers?: boolean;
+    /** Leave out application (non-interactive) users */
+    excludeApplicationUsers?: boolean;
+}
+
+export const DEFAULT_DIRECTORY_FILTERS: DirectoryFilterOptions = {
+    requireJobTitle: false,
+    businessUnits: [],
+    securityRoles: [],
+    includeLicensedNonAdUsers: false,
+    excludeApplicationUsers: true
+};
+
+/**
+ * Splits a configured list (separated by semicolons, commas or new lines) into trimmed entries
+ * @param value Raw manifest value
+ * @returns List of non-empty entries
+ */
+export function parseDirectoryFilterList(value: string | null | undefined): string[] {
+    if (!value) return [];
+
+    return value
+        .split(/[;,\n]/)
+        .map(entry => entry.trim())
+        .filter(entry => entry);
+}
+
+/**
+ * Host page; the typings leave context.page out, and hosts outside a model-driven app may not have one
+ */
+interface HostPage {
+    getClientUrl?: () => string;
+}
+
+/**
+ * Retrieve response with the record count asked for with $count=true
+ */
+type CountedResponse = ComponentFramework.WebApi.RetrieveMultipleResponse & { "@odata.count"?: number };
+
+/**
+ * Shape of the errors the Web API rejects with
+ */
+interface WebApiErrorDetails {
+    message?: string;
+    errorCode?: number;
+    errorMessage?: string;
+}
+
+/**
+ * Values of the sort columns (firstname, lastname, systemuserid) for one row.
+ * Used as the keyset cursor so paging follows exactly the same order as $orderby.
+ */
+interface UserSortKey {
+    firstname: string | null;
+    lastname: string | null;
+    systemuserid: string;
+}
+
+/**
+ * First and last sort keys of a loaded page
+ */
+interface PageBoundary {
+    first: UserSortKey;
+    last: UserSortKey;
+}
+
+/**
+ * Keyset cursor: fetch the rows sorted directly after or directly before a key
+ */
+interface PageCursor {
+    key: UserSortKey;
+    direction: 'after' | 'before';
 }
 
 export class SystemUserService {
     private context: ComponentFramework.Context<any>;
+    private webAPI: ComponentFramework.WebApi; // Timed when Web API timings are on
+    private static readonly countPageSize: number = 5000; // Maximum page size allowed by the Web API
+    private static readonly guidPattern: RegExp = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    private static readonly maxCachedUsers: number = 20000; // Larger directories are always queried on the server
+    private static readonly searchCandidateLimit: number = 250; // Candidates fetched for client-side ranking
+    private static readonly userColumns: string = "systemuserid,firstname,lastname,fullname,nickname,internalemailaddress,isdisabled,domainname,title,address1_telephone1,_businessunitid_value,_parentsystemuserid_value";
+    private static readonly viewAttributes: string[] = ["systemuserid", "firstname", "lastname", "fullname", "nickname", "internalemailaddress", "isdisabled", "domainname", "title", "address1_telephone1", "businessunitid", "parentsystemuserid"];
+    private static readonly namedColumns: string[] = ["systemuserid", "firstname", "lastname", "fullname", "internalemailaddress"]; // Already shown as the user's name and email
+    private static readonly columnNamePattern: RegExp = /^[a-z_][a-z0-9_]*$/i;
+    private static readonly lookupChunkSize: number = 40; // IDs or emails per request, keeps the URL well below its limit
+    private static readonly viewLookupLimit: number = 5000; // Rows a FetchXML lookup reads (the FetchXML page maximum)
+    private static readonly lookupConcurrency: number = 3; // Lookup requests running at the same time
+    private static readonly maxHierarchyDepth: number = 10; // Levels walked up or down the org chart at most
+    private static readonly maxHierarchyUsers: number = 1000; // Users loaded into one reporting tree at most
     private pageSize: number = 5;
-    private lastUserIdPerPage: Map<number, string> = new Map(); // Store last user ID for each page
+    private pageBoundaries: Map<number, PageBoundary> = new Map(); // Store first/last sort key for each page
     private pageData: Map<number, SystemUser[]> = new Map(); // Cache page data
+    private pagedSearchKey: string = ''; // Search term the page caches belong to
+    private totalCountCache: Map<string, number> = new Map(); // Cache total count per search term
+    private rankedSearchCache: Map<string, RankedUser[]> = new Map(); // Ranked candidates per search term
+    private directoryFilters: DirectoryFilterOptions = DEFAULT_DIRECTORY_FILTERS;
+    private directoryCacheMinutes: number = 0; // Snapshot time-to-live; 0 disables the directory cache
+    private departmentColumn: string = ''; // systemuser has no standard department column; set per environment
+    private directorySource: DirectorySource = { view: '', fetchXml: '' };
+    private directoryQuery: Promise<DirectoryQuery> | null = null; // Loaded once per source
+    private viewPagingCookies: Map<number, string> = new Map(); // Paging cookie returned with each view page
 
     constructor(context: ComponentFramework.Context<any>) {
         this.context = context;
+        this.webAPI = logger.timeWebApi(context.webAPI);
     }
 
     /**
-     * Retrieves active system users with pagination and optional search
+     * Retrieves active system users with pagination and optional search.
+     * Without a search, any page can be requested: pages already seen are served from the cache,
+     * neighbouring pages are fetched with a keyset cursor, and distant pages are reached by walking
+     * from the nearest known page (or from the end of the list when the total is known).
+     * With a search, a wide candidate set is ranked on the client and paged locally.
      * @param page Current page number (1-based)
-     * @param searchTerm Optional search term for firstname/lastname fuzzy matching
-     * @param nextPageUrl Optional URL for next page (used internally)
+     * @param searchTerm Optional search term, ranked by UserSearchRanker
+     * @param token Optional request token; multi-step work stops once it is superseded
      * @returns Promise with users and pagination info
      */
-    public async getActiveUsers(page: number = 1, searchTerm?: string): Promise<SystemUserSearchResult> {
+    public async getActiveUsers(page: number = 1, searchTerm?: string, token?: RequestToken): Promise<SystemUserSearchResult> {
         try {
-            console.log(`SystemUserService: Getting users for page ${page} with search: "${searchTerm || 'none'}"`);
-            
-            // Check if we have cached data for this exact page and search term
-            const cacheKey = `${page}_${searchTerm || 'all'}`;
+            logger.debug(`Getting users for page ${page} with search: "${searchTerm || 'none'}"`);
             
-            // Build cursor-based query
-            const query = this.buildODataQueryWithCursor(searchTerm, page);
-            console.log(`SystemUserService: Query: ${query}`);
-                
-            // Execute the query
-            const result = await this.context.webAPI.retrieveMultipleRecords(
-                "systemuser",
-                query
-            );
+            // Page caches only describe one search at a time
+            const searchKey = this.getSearchKey(searchTerm);
+            if (searchKey !== this.pagedSearchKey) {
+                this.pageBoundaries.clear();
+                this.pageData.clear();
+                this.pagedSearchKey = searchKey;
+            }
 
-            // Map results to SystemUser interface
-            const users: SystemUser[] = result.entities.map((entity: any) => ({
-                systemuserid: entity.systemuserid,
-                firstname: entity.firstname || '',
-                lastname: entity.lastname || '',
-                internalemailaddress: entity.internalemailaddress || '',
-                isdisabled: entity.isdisabled || false,
-                domainname: entity.domainname || '',
-                title: entity.title || ''
-            }));
-
-            // Store the last user ID for cursor-based pagination
-            if (users.length > 0) {
-                this.lastUserIdPerPage.set(page, users[users.length - 1].systemuserid);
-                console.log(`SystemUserService: Stored last user ID for page ${page}: ${users[users.length - 1].systemuserid}`);
+            if (searchKey) {
+                return await this.getRankedPage(page, searchTerm || '');
             }
 
-            // Calculate pagination info
-            const totalRecords = 495; // Known total from your environment
-            const totalPages = Math.ceil(totalRecords / this.pageSize); // 495/5 = 99 pages
-            
-            const pagination: PaginationInfo = {
-                currentPage: page,
-                pageSize: this.pageSize,
-                totalRecords: totalRecords,
-                totalPages: totalPages,
-                hasNextPage: page < totalPages,
-                hasPreviousPage: page > 1
-            };
+            const directoryQuery = await this.getDirectoryQuery();
+            if (directoryQuery) {
+                return await this.getViewPage(directoryQuery, page, token);
+            }
+
+            // A fresh directory snapshot answers the whole request without a round trip
+            const snapshot = await this.getFreshSnapshot();
+            if (snapshot) {
+                return this.getLocalPage(snapshot.users, page);
+            }
+
+            // Count is cached per search term, so this is only a round trip for a new search
+            const totalRecords = await this.getTotalCount(searchTerm, token);
+
+            // Never go past the last page of the current result set
+            const lastPage = totalRecords !== null ? Math.max(1, Math.ceil(totalRecords / this.pageSize)) : null;
+            const targetPage = Math.max(1, lastPage !== null ? Math.min(page, lastPage) : page);
+
+            const users = await this.loadPage(targetPage, searchTerm, totalRecords, token);
+
+            // Calculate pagination info from the real count for this filter
+            const pagination = this.buildPaginationInfo(targetPage, users.length, totalRecords);
+            const totalPages = pagination.totalPages;
 
             // Debug logging
-            console.log('SystemUserService - A-Z Sorted pagination result:', {
+            logger.debug('A-Z Sorted pagination result:', {
                 usersCount: users.length,
-                currentPage: page,
+                currentPage: targetPage,
+                totalRecords: pagination.totalRecords,
+                totalPages: totalPages,
                 hasNextPage: pagination.hasNextPage,
                 hasPreviousPage: pagination.hasPreviousPage,
                 firstUser: users.length > 0 ? `${users[0].firstname} ${users[0].lastname}` : 'none',
@@ -106,16 +283,21 @@ export class SystemUserService {
                 pagination
             };
 
-        } catch (error: any) {
-            console.error('Error retrieving system users:', error);
+        } catch (error: unknown) {
+            if (isRequestCancelled(error)) {
+                throw error;
+            }
+
+            logger.error('Error retrieving system users:', error);
             
             // Better error handling to get more specific error details
             let errorMessage = 'Unknown error occurred';
             if (error && typeof error === 'object') {
-                if (error.message) {
-                    errorMessage = error.message;
-                } else if (error.errorCode) {
-                    errorMessage = `Error Code: ${error.errorCode} - ${error.errorMessage || 'API Error'}`;
+                const details = error as WebApiErrorDetails;
+                if (details.message) {
+                    errorMessage = details.message;
+                } else if (details.errorCode) {
+                    errorMessage = `Error Code: ${details.errorCode} - ${details.errorMessage || 'API Error'}`;
                 } else {
                     errorMessage = JSON.stringify(error);
                 }
@@ -127,59 +309,197 @@ export class SystemUserService {
         }
     }
 
+    /**
+     * Resolves the users of a page, using the page cache and the stored page boundaries
+     * @param page Page number (1-based)
+     * @param searchTerm Optional search term
+     * @param totalRecords Total records for the search, or null when unknown
+     * @param token Optional request token, checked before every round trip
+     * @returns Promise with the users of the page
+     */
+    private async loadPage(page: number, searchTerm: string | undefined, totalRecords: number | null, token?: RequestToken): Promise<SystemUser[]> {
+        const cachedUsers = this.pageData.get(page);
+        if (cachedUsers) {
+            logger.debug(`Serving page ${page} from cache`);
+            return cachedUsers;
+        }
+
+        token?.throwIfCancelled();
+
+        if (page === 1) {
+            return this.fetchPage(page, searchTerm);
+        }
+
+        // Neighbouring page already known - one keyset query away
+        const previousBoundary = this.pageBoundaries.get(page - 1);
+        if (previousBoundary) {
+            return this.fetchPage(page, searchTerm, { key: previousBoundary.last, direction: 'after' });
+        }
+
+        const nextBoundary = this.pageBoundaries.get(page + 1);
+        if (nextBoundary) {
+            return this.fetchPage(page, searchTerm, { key: nextBoundary.first, direction: 'before' });
+        }
+
+        const lastPage = totalRecords !== null ? Math.max(1, Math.ceil(totalRecords / this.pageSize)) : null;
+
+        // The last page can be read backwards from the end of the sort order
+        if (lastPage !== null && totalRecords !== null && page === lastPage) {
+            const lastPageSize = totalRecords - (lastPage - 1) * this.pageSize;
+            return this.fetchPage(page, searchTerm, undefined, lastPageSize);
+        }
+
+        // Walk from the closest known page (page 1 and the last page are always reachable)
+        const knownPages = Array.from(this.pageBoundaries.keys());
+        const lowerPage = Math.max(0, ...knownPages.filter(known => known < page));
+        const upperPages = knownPages.filter(known => known > page);
+        const upperPage = upperPages.length > 0
+            ? Math.min(...upperPages)
+            : (lastPage !== null ? lastPage + 1 : Number.POSITIVE_INFINITY);
+
+        if (page - lowerPage <= upperPage - page) {
+            for (let step = lowerPage + 1; step < page; step++) {
+                const stepUsers = await this.loadPage(step, searchTerm, totalRecords, token);
+                if (stepUsers.length < this.pageSize) {
+                    // Ran out of rows before reaching the requested page
+                    return [];
+                }
+            }
+        } else {
+            for (let step = upperPage - 1; step > page; step--) {
+                const stepUsers = await this.loadPage(step, searchTerm, totalRecords, token);
+                if (stepUsers.length === 0) {
+                    return [];
+                }
+            }
+        }
+
+        return this.loadPage(page, searchTerm, totalRecords, token);
+    }
+
+    /**
+     * Fetches a single page from the server and records it in the page caches
+     * @param page Page number the rows belong to
+     * @param searchTerm Optional search term
+     * @param cursor Optional keyset cursor; without one the first (or, with a size, last) rows are read
+     * @param fromEndSize When set without a cursor, reads this many rows from the end of the sort order
+     * @returns Promise with the users of the page in A-Z order
+     */
+    private async fetchPage(page: number, searchTerm?: string, cursor?: PageCursor, fromEndSize?: number): Promise<SystemUser[]> {
+        const descending = cursor ? cursor.direction === 'before' : fromEndSize !== undefined;
+        const top = fromEndSize !== undefined ? fromEndSize : this.pageSize;
+
+        // Build cursor-based query
+        const query = this.buildODataQueryWithCursor(searchTerm, cursor, descending, top);
+        logger.debug(`Query for page ${page}: ${query}`);
+
+        const result = await this.webAPI.retrieveMultipleRecords("systemuser", query);
+
+        // Backward reads come back Z-A; restore A-Z order for display
+        const entities = descending ? [...result.entities].reverse() : result.entities;
+
+        // Map results to SystemUser interface
+        const users: SystemUser[] = entities.map(entity => this.mapEntityToUser(entity));
+
+        // Store the page boundaries for cursor-based pagination - unless the search changed while
+        // the request was running, in which case the rows belong to a superseded search
+        if (entities.length > 0 && this.getSearchKey(searchTerm) === this.pagedSearchKey) {
+            this.pageBoundaries.set(page, {
+                first: this.getSortKey(entities[0]),
+                last: this.getSortKey(entities[entities.length - 1])
+            });
+            this.pageData.set(page, users);
+            logger.debug(`Stored boundaries for page ${page}`);
+        }
+
+        return users;
+    }
+
+    /**
+     * Searches users for as-you-type suggestions: the best ranked matches,
+     * without counting or touching the page caches
+     * @param searchTerm Search term
+     * @param top Maximum number of users to return
+     * @returns Promise with the matching users sorted A-Z
+     */
+    public async searchUsers(searchTerm: string, top: number = this.pageSize): Promise<SystemUser[]> {
+        try {
+            const ranked = await this.getRankedUsers(searchTerm);
+            return ranked.slice(0, top).map(rankedUser => rankedUser.user);
+
+        } catch (error) {
+            logger.error('Error searching system users:', error);
+            throw new Error(`Failed to search system users: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
     /**
      * Execute a custom query URL (for pagination) using Web API context
      */
-    private async executeCustomQuery(url: string): Promise<any> {
+    private async executeCustomQuery(url: string): Promise<ComponentFramework.WebApi.RetrieveMultipleResponse> {
         try {
             // Extract the query part from the full URL
             const urlObj = new URL(url);
             const queryParams = urlObj.search;
             
-            // Use the context's webAPI to execute the query
-            const result = await this.context.webAPI.retrieveMultipleRecords(
+            const result = await this.webAPI.retrieveMultipleRecords(
                 "systemuser",
                 queryParams
             );
             
             return result;
         } catch (error) {
-            console.error('Error executing custom query:', error);
+            logger.error('Error executing custom query:', error);
             throw error;
         }
     }
 
     /**
-     * Gets next page of results using cached next page URL or new query
+     * Gets next page of results using the stored keyset cursor
      * @param currentPage Current page number
      * @param searchTerm Search term used
+     * @param token Optional request token
      * @returns Promise with next page results
      */
-    public async getNextPage(currentPage: number, searchTerm?: string): Promise<SystemUserSearchResult> {
-        console.log(`SystemUserService: Getting next page ${currentPage + 1}`);
-        return this.getActiveUsers(currentPage + 1, searchTerm);
+    public async getNextPage(currentPage: number, searchTerm?: string, token?: RequestToken): Promise<SystemUserSearchResult> {
+        logger.debug(`Getting next page ${currentPage + 1}`);
+        return this.getActiveUsers(currentPage + 1, searchTerm, token);
     }
 
-
-
     /**
-     * Gets previous page
+     * Gets previous page, served from the page cache when it has been seen before
      * @param currentPage Current page number
      * @param searchTerm Search term used
+     * @param token Optional request token
      * @returns Promise with previous page results
      */
-    public async getPreviousPage(currentPage: number, searchTerm?: string): Promise<SystemUserSearchResult> {
+    public async getPreviousPage(currentPage: number, searchTerm?: string, token?: RequestToken): Promise<SystemUserSearchResult> {
         const previousPage = Math.max(1, currentPage - 1);
-        console.log(`SystemUserService: Getting previous page ${previousPage}`);
-        return this.getActiveUsers(previousPage, searchTerm);
+        logger.debug(`Getting previous page ${previousPage}`);
+        return this.getActiveUsers(previousPage, searchTerm, token);
+    }
+
+    /**
+     * Gets an arbitrary page
+     * @param page Page number (1-based)
+     * @param searchTerm Search term used
+     * @param token Optional request token
+     * @returns Promise with the page results
+     */
+    public async goToPage(page: number, searchTerm?: string, token?: RequestToken): Promise<SystemUserSearchResult> {
+        logger.debug(`Going to page ${page}`);
+        return this.getActiveUsers(page, searchTerm, token);
     }
 
     /**
-     * Clears the pagination cache
+     * Clears the pagination and record count caches
      */
     public clearCache(): void {
-        this.lastUserIdPerPage.clear();
+        this.pageBoundaries.clear();
         this.pageData.clear();
+        this.totalCountCache.clear();
+        this.rankedSearchCache.clear();
+        this.viewPagingCookies.clear();
     }
 
     /**
@@ -192,197 +512,1204 @@ export class SystemUserService {
     }
 
     /**
-     * Builds OData query string with cursor-based pagination for active AD users with departments
-     * @param searchTerm Optional search term
-     * @param page Page number for cursor-based filtering
-     * @returns OData query string
+     * Sets the directory filters used for every user query
+     * @param filters Directory filter options; unset options keep their defaults
      */
-    private buildODataQueryWithCursor(searchTerm?: string, page: number = 1): string {
-        let query = "?$select=systemuserid,firstname,lastname,internalemailaddress,isdisabled,domainname,title";
-        
-        let filters: string[] = [];
-
-        // Filter for active users only (not disabled)
-        filters.push("isdisabled eq false");
-        
-        // Filter for AD users only (domainname should not be null/empty)
-        filters.push("domainname ne null");
-        
-        // Filter for users with a department/title (indicating they have a role)
-        filters.push("title ne null");
+    public setDirectoryFilters(filters: DirectoryFilterOptions): void {
+        this.directoryFilters = { ...DEFAULT_DIRECTORY_FILTERS, ...filters };
+        this.clearCache(); // Cached pages and counts belong to the previous filters
+    }
 
-        // Add search filter if provided
-        if (searchTerm && searchTerm.trim()) {
-            const searchFilter = this.buildSearchFilter(searchTerm.trim());
-            filters.push(searchFilter);
+    /**
+     * Sets the systemuser column holding the department (for example a custom column synchronised
+     * from the directory). Without one, department search and display are left out.
+     * @param column Logical name of the column, or an empty string
+     */
+    public setDepartmentColumn(column: string): void {
+        const trimmed = (column || '').trim().toLowerCase();
+        if (trimmed && !SystemUserService.columnNamePattern.test(trimmed)) {
+            logger.warn(`Ignoring invalid department column "${column}"`);
+            return;
         }
 
-        // Add cursor-based pagination filter
-        if (page > 1) {
-            // Get the last user ID from the previous page for cursor-based pagination
-            const previousPageLastId = this.lastUserIdPerPage.get(page - 1);
-            if (previousPageLastId) {
-                // Use systemuserid for cursor since it's unique and part of our ordering
-                filters.push(`systemuserid gt '${previousPageLastId}'`);
-            }
+        this.departmentColumn = trimmed;
+        this.clearCache();
+    }
+
+    /**
+     * Takes the directory from a saved systemuser view or a FetchXML query instead of the built-in
+     * query and directory filters. Lookups by ID, team members and the org chart are limited to the
+     * users the view lists as well; lookups by email are not, so saved recipients can still be read.
+     * @param source View (ID or name) and FetchXML; both empty restores the built-in query
+     */
+    public setDirectorySource(source: DirectorySource): void {
+        const view = (source.view || '').trim();
+        const fetchXml = (source.fetchXml || '').trim();
+        if (view === this.directorySource.view && fetchXml === this.directorySource.fetchXml) {
+            return;
         }
 
-        // Combine filters
-        if (filters.length > 0) {
-            query += `&$filter=${filters.join(' and ')}`;
+        this.directorySource = { view, fetchXml };
+        this.directoryQuery = null;
+        this.clearCache();
+    }
+
+    /**
+     * Gets the query of the configured view, loading it on first use
+     * @returns Promise with the query, or null when no view or FetchXML is configured
+     */
+    private getDirectoryQuery(): Promise<DirectoryQuery | null> {
+        if (!hasDirectorySource(this.directorySource)) {
+            return Promise.resolve(null);
         }
 
-        // Add ordering - A-Z by first name first, then last name for alphabetical sorting
-        query += "&$orderby=firstname asc,lastname asc,systemuserid asc";
+        if (!this.directoryQuery) {
+            const loading = loadDirectoryQuery(this.webAPI, this.directorySource);
+            this.directoryQuery = loading;
 
-        // Add pagination - only use $top, no $skip
-        query += `&$top=${this.pageSize}`;
+            // A view that failed to load is read again on the next request
+            loading.catch(() => {
+                if (this.directoryQuery === loading) {
+                    this.directoryQuery = null;
+                }
+            });
+        }
 
-        return query;
+        return this.directoryQuery;
     }
 
     /**
-     * Legacy method for backward compatibility
+     * Keeps the IDs of the users the directory view lists, so candidates found another way (typed
+     * addresses, recent picks) cannot reach users outside it
+     * @param userIds System user IDs
+     * @returns Promise with the IDs in the view, in the caller's order; every ID when no view is set
      */
-    private buildODataQuery(searchTerm?: string): string {
-        return this.buildODataQueryWithCursor(searchTerm, 1);
+    public async filterIdsToDirectory(userIds: string[]): Promise<string[]> {
+        const query = await this.getDirectoryQuery();
+        if (!query || userIds.length === 0) {
+            return userIds;
+        }
+
+        const ids = this.distinctKeys(userIds, id => this.normaliseId(id)).filter(id => SystemUserService.guidPattern.test(id));
+        const listed = new Set<string>();
+        for (let index = 0; index < ids.length; index += SystemUserService.lookupChunkSize) {
+            const users = await this.getViewUsersWhere(query, 'systemuserid', ids.slice(index, index + SystemUserService.lookupChunkSize));
+            users.forEach(user => listed.add(this.normaliseId(user.systemuserid)));
+        }
+
+        return userIds.filter(id => listed.has(this.normaliseId(id)));
     }
 
     /**
-     * Builds search filter for fuzzy matching on firstname, lastname, and email
-     * @param searchTerm Search term
-     * @returns OData filter string
+     * Reads the users of the directory view whose column holds one of the values
+     * @param query Query of the directory view
+     * @param column Column to match, e.g. systemuserid or parentsystemuserid
+     * @param values Values to match; at most lookupChunkSize, so the URL stays short
+     * @returns Promise with the users, in the view's order
      */
-    private buildSearchFilter(searchTerm: string): string {
-        // Use startswith function which is more widely supported
-        // Escape single quotes in search term
-        const escapedSearchTerm = searchTerm.replace(/'/g, "''");
-        
-        // Create filters for multiple fields using startswith for fuzzy matching
-        const firstnameFilter = `startswith(firstname,'${escapedSearchTerm}')`;
-        const lastnameFilter = `startswith(lastname,'${escapedSearchTerm}')`;
-        const emailFilter = `startswith(internalemailaddress,'${escapedSearchTerm}')`;
-        
-        // Also check if the search term matches when split by space (for "John Doe" type searches)
-        const searchWords = searchTerm.trim().split(/\s+/);
-        let combinedFilters: string[] = [firstnameFilter, lastnameFilter, emailFilter];
-        
-        if (searchWords.length > 1) {
-            // For multi-word searches, check if firstname startswith first word AND lastname startswith second word
-            const firstWord = searchWords[0].replace(/'/g, "''");
-            const secondWord = searchWords[1].replace(/'/g, "''");
-            const fullNameFilter = `(startswith(firstname,'${firstWord}') and startswith(lastname,'${secondWord}'))`;
-            combinedFilters.push(fullNameFilter);
-            
-            // Also try reverse order (lastname firstname)
-            const reverseNameFilter = `(startswith(lastname,'${firstWord}') and startswith(firstname,'${secondWord}'))`;
-            combinedFilters.push(reverseNameFilter);
-        }
-        
-        // Combine all filters with OR logic
-        return `(${combinedFilters.join(' or ')})`;
+    private async getViewUsersWhere(query: DirectoryQuery, column: string, values: string[]): Promise<SystemUser[]> {
+        const fetchXml = query.buildFetchXml({
+            page: 1,
+            count: SystemUserService.viewLookupLimit,
+            columns: this.getViewAttributes(query),
+            restrictTo: { column, values }
+        });
+
+        const result = await this.webAPI.retrieveMultipleRecords("systemuser", `?fetchXml=${encodeURIComponent(fetchXml)}`);
+        return result.entities.map(entity => this.mapEntityToUser(entity, query));
     }
 
     /**
-     * Gets total count of records matching the search criteria
-     * @param searchTerm Optional search term
-     * @returns Promise with total count
+     * Gets a page of the directory view. The page is read with the paging cookie of the page before
+     * when that page has been read; otherwise the server counts its way to the page number.
+     * @param query Query of the directory view
+     * @param page Requested page number (1-based)
+     * @param token Optional request token, checked before the round trip
+     * @returns Promise with the users and pagination info
      */
-    private async getTotalCount(searchTerm?: string): Promise<number> {
-        try {
-            let query = "?$select=systemuserid&$count=true";
-            
-            // Remove restrictive filters that might cause permission issues
-            let filters: string[] = [];
+    private async getViewPage(query: DirectoryQuery, page: number, token?: RequestToken): Promise<SystemUserSearchResult> {
+        const knownTotal = this.totalCountCache.get('');
+        const lastPage = knownTotal !== undefined ? Math.max(1, Math.ceil(knownTotal / this.pageSize)) : null;
+        const targetPage = Math.max(1, lastPage !== null ? Math.min(page, lastPage) : page);
 
-            // Add search filter if provided
-            if (searchTerm && searchTerm.trim()) {
-                const searchFilter = this.buildSearchFilter(searchTerm.trim());
-                filters.push(searchFilter);
-            }
+        let users = this.pageData.get(targetPage);
+        if (!users) {
+            token?.throwIfCancelled();
 
-            // Combine filters
-            if (filters.length > 0) {
-                query += `&$filter=${filters.join(' and ')}`;
-            }
+            const fetchXml = query.buildFetchXml({
+                page: targetPage,
+                count: this.pageSize,
+                pagingCookie: this.viewPagingCookies.get(targetPage - 1),
+                columns: this.getViewAttributes(query),
+                returnTotalCount: knownTotal === undefined
+            });
+            logger.debug(`FetchXML for page ${targetPage} of "${query.name}": ${fetchXml}`);
 
-            const result = await this.context.webAPI.retrieveMultipleRecords(
-                "systemuser",
-                query
-            );
+            const result = await this.webAPI.retrieveMultipleRecords("systemuser", `?fetchXml=${encodeURIComponent(fetchXml)}`);
+            users = result.entities.map(entity => this.mapEntityToUser(entity, query));
+
+            // Rows that arrive after a search started belong to the superseded listing
+            if (this.pagedSearchKey === '') {
+                const pagingCookie = readPagingCookie(result);
+                if (pagingCookie) {
+                    this.viewPagingCookies.set(targetPage, pagingCookie);
+                }
 
-            return (result as any)["@odata.count"] || result.entities.length;
+                const totalRecords = readTotalRecordCount(result);
+                if (totalRecords !== null) {
+                    this.totalCountCache.set('', totalRecords);
+                }
 
-        } catch (error) {
-            console.error('Error getting total count:', error);
-            return 0;
+                this.pageData.set(targetPage, users);
+            }
         }
+
+        return {
+            users,
+            pagination: this.buildPaginationInfo(targetPage, users.length, this.totalCountCache.get('') ?? null)
+        };
     }
 
     /**
-     * Searches for a specific user by ID
-     * @param userId System User ID
-     * @returns Promise with user details or null if not found
+     * Gets the columns to read with a directory view: those the control needs and the view's layout
+     * columns (linked columns are read by the view's own link-entity)
      */
-    public async getUserById(userId: string): Promise<SystemUser | null> {
-        try {
-            const query = "?$select=systemuserid,firstname,lastname,internalemailaddress,isdisabled,domainname,title";
-            
-            const result = await this.context.webAPI.retrieveRecord(
-                "systemuser",
-                userId,
-                query
-            );
+    private getViewAttributes(query: DirectoryQuery): string[] {
+        const layoutColumns = query.getColumns()
+            .map(column => column.name)
+            .filter(name => name.indexOf('.') === -1);
+        const columns = [
+            ...SystemUserService.viewAttributes,
+            ...(this.departmentColumn ? [this.departmentColumn] : []),
+            ...layoutColumns
+        ];
 
-            return {
-                systemuserid: result.systemuserid,
-                firstname: result.firstname || '',
-                lastname: result.lastname || '',
-                internalemailaddress: result.internalemailaddress || '',
-                isdisabled: result.isdisabled || false,
-                domainname: result.domainname || '',
-                title: result.title || ''
-            };
+        return columns.filter((column, index) => columns.indexOf(column) === index);
+    }
 
-        } catch (error) {
-            console.error('Error retrieving user by ID:', error);
+    /**
+     * Gets the $select column list for users
+     */
+    private getUserColumns(): string {
+        return this.departmentColumn
+            ? `${SystemUserService.userColumns},${this.departmentColumn}`
+            : SystemUserService.userColumns;
+    }
+
+    /**
+     * Enables the shared directory cache for this service's filter set
+     * @param ttlMinutes How long a directory snapshot is used; 0 disables the cache
+     */
+    public setDirectoryCache(ttlMinutes: number): void {
+        this.directoryCacheMinutes = Math.max(0, ttlMinutes || 0);
+    }
+
+    /**
+     * Drops the cached directory snapshot for the current environment and filters, so the
+     * next request goes to the server (and loads a new snapshot)
+     */
+    public async invalidateDirectoryCache(): Promise<void> {
+        this.clearCache();
+        await DirectoryCache.getShared().invalidate(this.getDirectoryCacheKey());
+    }
+
+    /**
+     * Gets the directory snapshot when it is younger than the TTL. Past half the TTL a refresh is
+     * started in the background; a missing or expired snapshot is reloaded in the background while
+     * the caller falls back to the server. A directory too large to cache is answered by the server
+     * until that finding expires.
+     * @returns Promise with the snapshot, or null when the server has to answer
+     */
+    private async getFreshSnapshot(): Promise<DirectorySnapshot | null> {
+        // Snapshots hold the built-in directory, not a configured view
+        if (this.directoryCacheMinutes <= 0 || hasDirectorySource(this.directorySource)) {
             return null;
         }
+
+        const cache = DirectoryCache.getShared();
+        const key = this.getDirectoryCacheKey();
+        const ttl = this.directoryCacheMinutes * 60 * 1000;
+
+        const snapshot = await cache.get(key);
+        const age = snapshot ? Date.now() - snapshot.loadedAt : Number.POSITIVE_INFINITY;
+
+        // A directory found too large is only downloaded again once that finding expires
+        const refreshAge = snapshot && snapshot.tooLarge ? ttl : ttl / 2;
+        if (age >= refreshAge) {
+            void cache.refresh(key, () => this.loadDirectoryUsers());
+        }
+
+        return snapshot && !snapshot.tooLarge && age < ttl ? snapshot : null;
     }
 
     /**
-     * Gets multiple users by their IDs
-     * @param userIds Array of system user IDs
-     * @returns Promise with array of users
+     * Reads every user allowed by the directory filters, in display order
+     * @returns Promise with the users, or null when the directory is too large to cache
      */
-    public async getUsersByIds(userIds: string[]): Promise<SystemUser[]> {
-        try {
-            if (!userIds || userIds.length === 0) {
-                return [];
+    private async loadDirectoryUsers(): Promise<SystemUser[] | null> {
+        let query = `?$select=${this.getUserColumns()}`;
+        query += `&$filter=${this.buildDirectoryFilters().join(' and ')}`;
+        query += "&$orderby=firstname asc,lastname asc,systemuserid asc";
+
+        let result = await this.webAPI.retrieveMultipleRecords("systemuser", query, SystemUserService.countPageSize);
+        const users: SystemUser[] = result.entities.map(entity => this.mapEntityToUser(entity));
+
+        while (result.nextLink) {
+            if (users.length >= SystemUserService.maxCachedUsers) {
+                logger.debug(`Directory has more than ${SystemUserService.maxCachedUsers} users, not caching`);
+                return null;
             }
 
-            // Build filter for multiple IDs
-            const idFilters = userIds.map(id => `systemuserid eq '${id}'`).join(' or ');
-            const query = `?$select=systemuserid,firstname,lastname,internalemailaddress,isdisabled,domainname,title&$filter=${idFilters}`;
+            result = await this.executeCustomQuery(result.nextLink);
+            users.push(...result.entities.map((entity: ComponentFramework.WebApi.Entity) => this.mapEntityToUser(entity)));
+        }
 
-            const result = await this.context.webAPI.retrieveMultipleRecords(
-                "systemuser",
-                query
-            );
+        return users;
+    }
 
-            return result.entities.map(entity => ({
-                systemuserid: entity.systemuserid,
-                firstname: entity.firstname || '',
-                lastname: entity.lastname || '',
-                internalemailaddress: entity.internalemailaddress || '',
-                isdisabled: entity.isdisabled || false,
-                domainname: entity.domainname || '',
-                title: entity.title || ''
-            }));
+    /**
+     * Builds the snapshot key: the environment, the signed-in user (the directory depends on their
+     * read access), the directory filters and the columns read (including the department column)
+     */
+    private getDirectoryCacheKey(): string {
+        const page = (this.context as { page?: HostPage }).page;
+        const environment = page && typeof page.getClientUrl === 'function'
+            ? page.getClientUrl()
+            : (typeof window !== 'undefined' ? window.location.origin : '');
 
-        } catch (error) {
-            console.error('Error retrieving users by IDs:', error);
-            return [];
-        }
+        return `${environment}|${this.context.userSettings.userId}|${JSON.stringify(this.directoryFilters)}|${this.getUserColumns()}`;
+    }
+
+    /**
+     * Pages through a list of users held on the client
+     * @param users All users of the result set, in display order
+     * @param page Requested page number (1-based)
+     * @param matches Optional ranking details of the users
+     * @returns Users and pagination info, the same as a server-side request
+     */
+    private getLocalPage(users: SystemUser[], page: number, matches?: Record<string, UserSearchMatch>): SystemUserSearchResult {
+        const lastPage = Math.max(1, Math.ceil(users.length / this.pageSize));
+        const targetPage = Math.max(1, Math.min(page, lastPage));
+        const pageUsers = users.slice((targetPage - 1) * this.pageSize, targetPage * this.pageSize);
+
+        logger.debug(`Serving page ${targetPage} from users held on the client`);
+
+        return {
+            users: pageUsers,
+            pagination: this.buildPaginationInfo(targetPage, pageUsers.length, users.length),
+            matches
+        };
     }
-}
\ No newline at end of file
+
+    /**
+     * Gets a page of ranked search results
+     * @param page Requested page number (1-based)
+     * @param searchTerm Search term
+     */
+    private async getRankedPage(page: number, searchTerm: string): Promise<SystemUserSearchResult> {
+        const ranked = await this.getRankedUsers(searchTerm);
+
+        const matches: Record<string, UserSearchMatch> = {};
+        ranked.forEach(rankedUser => {
+            matches[rankedUser.user.systemuserid] = rankedUser.match;
+        });
+
+        return this.getLocalPage(ranked.map(rankedUser => rankedUser.user), page, matches);
+    }
+
+    /**
+     * Ranks the candidates for a search, from the directory snapshot when it is fresh and
+     * otherwise from a wide server query. Results are cached per search term.
+     * @param searchTerm Search term
+     * @returns Promise with the matching users, best first
+     */
+    private async getRankedUsers(searchTerm: string): Promise<RankedUser[]> {
+        const searchKey = this.getSearchKey(searchTerm);
+        const cached = this.rankedSearchCache.get(searchKey);
+        if (cached) {
+            return cached;
+        }
+
+        const snapshot = await this.getFreshSnapshot();
+        let candidates: SystemUser[];
+
+        if (snapshot) {
+            candidates = snapshot.users;
+        } else {
+            // The wide query is capped, so a user matching every word in full could be cut off behind
+            // hundreds of prefix matches; those users are read with a second, narrow query
+            const directoryQuery = await this.getDirectoryQuery();
+            const wide = this.buildSearchConditions(searchTerm);
+            const wholeWords = this.buildSearchConditions(searchTerm, true);
+            const [wideCandidates, wholeWordCandidates] = await Promise.all([
+                this.getSearchCandidates(wide, directoryQuery),
+                JSON.stringify(wholeWords) === JSON.stringify(wide)
+                    ? Promise.resolve([])
+                    : this.getSearchCandidates(wholeWords, directoryQuery)
+            ]);
+
+            // Users past the wide query's cap come later in the same order, so appending keeps it
+            const seen = new Set(wideCandidates.map(user => user.systemuserid.toLowerCase()));
+            candidates = wideCandidates.concat(wholeWordCandidates.filter(user => !seen.has(user.systemuserid.toLowerCase())));
+        }
+
+        const ranked = rankUsers(candidates, searchTerm);
+        logger.debug(`Ranked ${ranked.length} of ${candidates.length} candidates for "${searchTerm}"`);
+
+        this.rankedSearchCache.set(searchKey, ranked);
+        return ranked;
+    }
+
+    /**
+     * Reads the candidates for a search from the server, capped at searchCandidateLimit
+     * @param search Search condition groups
+     * @param directoryQuery Directory view, or null for the built-in query
+     * @returns Promise with the candidates in the directory order
+     */
+    private async getSearchCandidates(search: UserSearchCondition[][], directoryQuery: DirectoryQuery | null): Promise<SystemUser[]> {
+        if (directoryQuery) {
+            // The search narrows the view; it never reaches users outside it
+            const fetchXml = directoryQuery.buildFetchXml({
+                page: 1,
+                count: SystemUserService.searchCandidateLimit,
+                columns: this.getViewAttributes(directoryQuery),
+                search
+            });
+            logger.debug(`Search candidate FetchXML: ${fetchXml}`);
+
+            const result = await this.webAPI.retrieveMultipleRecords("systemuser", `?fetchXml=${encodeURIComponent(fetchXml)}`);
+            return result.entities.map(entity => this.mapEntityToUser(entity, directoryQuery));
+        }
+
+        const filters = this.buildDirectoryFilters();
+        filters.push(this.buildSearchFilter(search));
+        const query = `?$select=${this.getUserColumns()}&$filter=${filters.join(' and ')}` +
+            `&$orderby=firstname asc,lastname asc,systemuserid asc&$top=${SystemUserService.searchCandidateLimit}`;
+        logger.debug(`Search candidate query: ${query}`);
+
+        const result = await this.webAPI.retrieveMultipleRecords("systemuser", query);
+        return result.entities.map(entity => this.mapEntityToUser(entity));
+    }
+
+    /**
+     * Builds OData query string with keyset (cursor-based) pagination for active AD users with departments
+     * @param searchTerm Optional search term
+     * @param cursor Optional cursor to read the rows after or before a sort key
+     * @param descending Reverse the sort order (used when reading backwards)
+     * @param top Number of rows to read
+     * @returns OData query string
+     */
+    private buildODataQueryWithCursor(searchTerm?: string, cursor?: PageCursor, descending: boolean = false, top: number = this.pageSize): string {
+        let query = `?$select=${this.getUserColumns()}`;
+        
+        const filters = this.buildBaseFilters(searchTerm);
+
+        // Add cursor-based pagination filter matching the sort order
+        if (cursor) {
+            filters.push(this.buildCursorFilter(cursor));
+        }
+
+        // Combine filters
+        if (filters.length > 0) {
+            query += `&$filter=${filters.join(' and ')}`;
+        }
+
+        // Add ordering - A-Z by first name first, then last name for alphabetical sorting
+        const direction = descending ? 'desc' : 'asc';
+        query += `&$orderby=firstname ${direction},lastname ${direction},systemuserid ${direction}`;
+
+        // Add pagination - only use $top, no $skip
+        query += `&$top=${top}`;
+
+        return query;
+    }
+
+    /**
+     * Builds the keyset filter for (firstname, lastname, systemuserid) so that rows are compared
+     * in the same order as $orderby. Null names sort first, as they do on the server.
+     * @param cursor Cursor to build the filter for
+     * @returns OData filter string
+     */
+    private buildCursorFilter(cursor: PageCursor): string {
+        const { key, direction } = cursor;
+        const clauses: string[] = [];
+
+        const firstnameBeyond = this.buildBeyondFilter('firstname', key.firstname, direction);
+        if (firstnameBeyond) {
+            clauses.push(firstnameBeyond);
+        }
+
+        const firstnameEqual = this.buildEqualFilter('firstname', key.firstname);
+        const lastnameBeyond = this.buildBeyondFilter('lastname', key.lastname, direction);
+        if (lastnameBeyond) {
+            clauses.push(`(${firstnameEqual} and ${lastnameBeyond})`);
+        }
+
+        const lastnameEqual = this.buildEqualFilter('lastname', key.lastname);
+        const idOperator = direction === 'after' ? 'gt' : 'lt';
+        clauses.push(`(${firstnameEqual} and ${lastnameEqual} and systemuserid ${idOperator} ${key.systemuserid})`);
+
+        return `(${clauses.join(' or ')})`;
+    }
+
+    /**
+     * Builds a filter matching values sorted strictly after or before the given value
+     * @returns OData filter string, or null when no value can sort beyond it
+     */
+    private buildBeyondFilter(field: string, value: string | null, direction: 'after' | 'before'): string | null {
+        if (value === null) {
+            // Null sorts first: everything non-null comes after it, nothing comes before it
+            return direction === 'after' ? `${field} ne null` : null;
+        }
+
+        const escapedValue = value.replace(/'/g, "''");
+        return direction === 'after'
+            ? `${field} gt '${escapedValue}'`
+            : `(${field} lt '${escapedValue}' or ${field} eq null)`;
+    }
+
+    /**
+     * Builds a filter matching the given value, including null
+     * @returns OData filter string
+     */
+    private buildEqualFilter(field: string, value: string | null): string {
+        return value === null ? `${field} eq null` : `${field} eq '${value.replace(/'/g, "''")}'`;
+    }
+
+    /**
+     * Maps a raw systemuser entity to the SystemUser interface
+     * @param entity Raw entity
+     * @param viewQuery Directory view the entity was read with, for its layout columns
+     */
+    private mapEntityToUser(entity: ComponentFramework.WebApi.Entity, viewQuery?: DirectoryQuery): SystemUser {
+        const user: SystemUser = {
+            systemuserid: entity.systemuserid,
+            firstname: entity.firstname || '',
+            lastname: entity.lastname || '',
+            internalemailaddress: entity.internalemailaddress || '',
+            isdisabled: entity.isdisabled || false,
+            domainname: entity.domainname || '',
+            title: entity.title || '',
+            fullname: entity.fullname || '',
+            nickname: entity.nickname || '',
+            department: this.departmentColumn ? entity[this.departmentColumn] || '' : '',
+            businessunitname: entity['_businessunitid_value@OData.Community.Display.V1.FormattedValue'] || '',
+            address1_telephone1: entity.address1_telephone1 || '',
+            parentsystemuserid: entity._parentsystemuserid_value || '',
+            managername: entity['_parentsystemuserid_value@OData.Community.Display.V1.FormattedValue'] || ''
+        };
+
+        if (viewQuery) {
+            user.viewColumns = viewQuery.getColumns()
+                .filter(column => SystemUserService.namedColumns.indexOf(column.name) === -1)
+                .map(column => ({ name: column.name, value: readColumnValue(entity, column.name) }))
+                .filter(column => column.value);
+        }
+
+        return user;
+    }
+
+    /**
+     * Extracts the sort key of a raw systemuser entity
+     */
+    private getSortKey(entity: ComponentFramework.WebApi.Entity): UserSortKey {
+        return {
+            firstname: entity.firstname ?? null,
+            lastname: entity.lastname ?? null,
+            systemuserid: entity.systemuserid
+        };
+    }
+
+    /**
+     * Normalises a search term for use as a cache key
+     */
+    private getSearchKey(searchTerm?: string): string {
+        return (searchTerm || '').trim().toLowerCase();
+    }
+
+    /**
+     * Builds the directory and search filters shared by page queries and count queries,
+     * so the reported totals always describe the same set of users that is paged through
+     * @param searchTerm Optional search term
+     * @returns List of OData filter expressions to be joined with 'and'
+     */
+    private buildBaseFilters(searchTerm?: string): string[] {
+        const filters = this.buildDirectoryFilters();
+
+        // Add search filter if provided
+        if (searchTerm && searchTerm.trim()) {
+            const searchFilter = this.buildSearchFilter(this.buildSearchConditions(searchTerm.trim()));
+            filters.push(searchFilter);
+        }
+
+        return filters;
+    }
+
+    /**
+     * Builds the filters selecting which users belong to the directory, as configured for the form
+     * @returns List of OData filter expressions to be joined with 'and'
+     */
+    private buildDirectoryFilters(): string[] {
+        const options = this.directoryFilters;
+        const filters: string[] = [];
+
+        // Filter for active users only (not disabled)
+        filters.push("isdisabled eq false");
+        
+        // Filter for AD users (domainname set), optionally widened to licensed non-AD users
+        filters.push(options.includeLicensedNonAdUsers
+            ? "(domainname ne null or islicensed eq true)"
+            : "domainname ne null");
+        
+        // Filter for users with a job title, when required
+        if (options.requireJobTitle) {
+            filters.push("title ne null");
+        }
+
+        // Application users have an application ID
+        if (options.excludeApplicationUsers) {
+            filters.push("applicationid eq null");
+        }
+
+        // Business units are matched by ID when a GUID is configured, by name otherwise
+        const businessUnits = options.businessUnits || [];
+        if (businessUnits.length > 0) {
+            const businessUnitFilters = businessUnits.map(businessUnit => SystemUserService.guidPattern.test(businessUnit)
+                ? `_businessunitid_value eq ${businessUnit}`
+                : `businessunitid/name eq '${businessUnit.replace(/'/g, "''")}'`);
+            filters.push(`(${businessUnitFilters.join(' or ')})`);
+        }
+
+        // Users must hold at least one of the named security roles
+        const securityRoles = options.securityRoles || [];
+        if (securityRoles.length > 0) {
+            const roleFilters = securityRoles.map(role => `r/name eq '${role.replace(/'/g, "''")}'`);
+            filters.push(`systemuserroles_association/any(r:${roleFilters.join(' or ')})`);
+        }
+
+        return filters;
+    }
+
+    /**
+     * Legacy method for backward compatibility
+     */
+    private buildODataQuery(searchTerm?: string): string {
+        return this.buildODataQueryWithCursor(searchTerm);
+    }
+
+    /**
+     * Builds the candidate filter for a search, from the same conditions as the FetchXML of a
+     * directory view
+     * @param search Search condition groups (see buildSearchConditions)
+     * @returns OData filter string
+     */
+    private buildSearchFilter(search: UserSearchCondition[][]): string {
+        const groups = search.map(group => {
+            const conditions = group.map(condition => {
+                const column = condition.onBusinessUnit ? `businessunitid/${condition.column}` : condition.column;
+                return `${condition.operator}(${column},'${condition.value.replace(/'/g, "''")}')`;
+            });
+            return conditions.length > 1 ? `(${conditions.join(' or ')})` : conditions[0];
+        });
+
+        return groups.length > 0 ? `(${groups.join(' and ')})` : "systemuserid ne null";
+    }
+
+    /**
+     * Builds the candidate conditions for a search. Free words are searched deliberately wide - anywhere
+     * in the full name, nickname, job title, department, business unit or phone number, or at the
+     * start of the email address - and the candidates are ranked on the client afterwards. Long words
+     * are shortened to their first characters so that a typo later in a word still finds the user.
+     * Field-scoped terms (`title:counsel bu:finance`) must all appear in their field.
+     * With wholeWords, every word has to appear in full in one of those fields instead, which finds
+     * the users the capped wide search can leave out.
+     * @param searchTerm Search term
+     * @param wholeWords Match every word in full rather than any word's first characters
+     * @returns Condition groups; a user matches when every group has a matching condition
+     */
+    private buildSearchConditions(searchTerm: string, wholeWords: boolean = false): UserSearchCondition[][] {
+        const search = parseUserSearch(searchTerm);
+        const tokens = tokeniseSearch(search.freeText);
+        const words = search.freeText.split(/\s+/).filter(word => word);
+        const groups: UserSearchCondition[][] = [];
+
+        if (wholeWords) {
+            words.forEach(word => {
+                const wordConditions = this.buildWordConditions(word, word);
+                // Accent-free spelling too, for collations that are accent sensitive
+                tokeniseSearch(word)
+                    .filter(token => token !== word.toLowerCase())
+                    .forEach(token => wordConditions.push({ column: 'fullname', operator: 'contains', value: token }));
+                groups.push(wordConditions);
+            });
+        } else {
+            // Search as typed (server collation ignores case and accents)
+            const freeConditions: UserSearchCondition[] = [];
+            words.forEach(word => {
+                freeConditions.push(...this.buildWordConditions(word, word.length > 4 ? word.substring(0, 3) : word));
+            });
+
+            // Accent-free spelling too, for collations that are accent sensitive
+            tokens
+                .filter(token => words.every(word => word.toLowerCase() !== token))
+                .forEach(token => freeConditions.push({ column: 'fullname', operator: 'contains', value: token.substring(0, 3) }));
+
+            if (freeConditions.length > 0) {
+                groups.push(freeConditions);
+            }
+        }
+
+        (Object.keys(search.scoped) as UserSearchScope[]).forEach(scope => {
+            (search.scoped[scope] || []).forEach(value => {
+                const scopedConditions = this.buildScopedConditions(scope, value);
+                if (scopedConditions) {
+                    groups.push(scopedConditions);
+                }
+            });
+        });
+
+        return groups;
+    }
+
+    /**
+     * Builds the conditions for one free search word
+     * @param word Word as typed
+     * @param nameValue Part of the word looked for in the full name and nickname
+     * @returns Conditions of which one must match
+     */
+    private buildWordConditions(word: string, nameValue: string): UserSearchCondition[] {
+        const conditions: UserSearchCondition[] = [
+            { column: 'fullname', operator: 'contains', value: nameValue },
+            { column: 'nickname', operator: 'contains', value: nameValue },
+            { column: 'title', operator: 'contains', value: word },
+            { column: 'internalemailaddress', operator: 'startswith', value: word },
+            { column: 'name', operator: 'contains', value: word, onBusinessUnit: true },
+            { column: 'address1_telephone1', operator: 'contains', value: word }
+        ];
+        if (this.departmentColumn) {
+            conditions.push({ column: this.departmentColumn, operator: 'contains', value: word });
+        }
+        return conditions;
+    }
+
+    /**
+     * Builds the conditions for one field-scoped search term
+     * @param scope Scope of the term
+     * @param value Value as typed
+     * @returns Conditions of which one must match, or null when the field is not available
+     */
+    private buildScopedConditions(scope: UserSearchScope, value: string): UserSearchCondition[] | null {
+        switch (scope) {
+            case 'name':
+                return [
+                    { column: 'fullname', operator: 'contains', value },
+                    { column: 'nickname', operator: 'contains', value }
+                ];
+            case 'email':
+                return [{ column: 'internalemailaddress', operator: 'contains', value }];
+            case 'title':
+                return [{ column: 'title', operator: 'contains', value }];
+            case 'department':
+                if (!this.departmentColumn) {
+                    logger.warn('The dept: search needs a department column to be configured');
+                    return null;
+                }
+                return [{ column: this.departmentColumn, operator: 'contains', value }];
+            case 'businessunit':
+                return [{ column: 'name', operator: 'contains', value, onBusinessUnit: true }];
+            case 'phone':
+                return [{ column: 'address1_telephone1', operator: 'contains', value }];
+        }
+    }
+
+    /**
+     * Gets total count of records matching the search criteria.
+     * Counts are cached per search term until clearCache is called.
+     * @param searchTerm Optional search term
+     * @param token Optional request token; counting page by page stops once it is superseded
+     * @returns Promise with total count, or null when it could not be determined
+     */
+    private async getTotalCount(searchTerm?: string, token?: RequestToken): Promise<number | null> {
+        const countKey = this.getSearchKey(searchTerm);
+        const cachedCount = this.totalCountCache.get(countKey);
+        if (cachedCount !== undefined) {
+            return cachedCount;
+        }
+
+        try {
+            let query = "?$select=systemuserid&$count=true";
+            
+            // Use exactly the same filters as the page query
+            const filters = this.buildBaseFilters(searchTerm);
+
+            // Combine filters
+            if (filters.length > 0) {
+                query += `&$filter=${filters.join(' and ')}`;
+            }
+
+            let result = await this.webAPI.retrieveMultipleRecords(
+                "systemuser",
+                query,
+                SystemUserService.countPageSize
+            );
+
+            let totalCount: number;
+            const odataCount = (result as CountedResponse)["@odata.count"];
+
+            if (typeof odataCount === 'number') {
+                totalCount = odataCount;
+            } else {
+                // The host did not surface @odata.count - count the IDs page by page instead
+                totalCount = result.entities.length;
+                while (result.nextLink) {
+                    token?.throwIfCancelled();
+                    result = await this.executeCustomQuery(result.nextLink);
+                    totalCount += result.entities.length;
+                }
+            }
+
+            logger.debug(`Total count for search "${searchTerm || 'none'}": ${totalCount}`);
+            this.totalCountCache.set(countKey, totalCount);
+            return totalCount;
+
+        } catch (error) {
+            if (isRequestCancelled(error)) {
+                throw error;
+            }
+
+            logger.error('Error getting total count:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Builds pagination info for a loaded page. When the total count is unknown
+     * (count query failed) the totals are estimated from the rows seen so far and
+     * a full page is taken as a sign that more rows may follow.
+     * @param page Current page number (1-based)
+     * @param pageRecordCount Number of records returned for the page
+     * @param totalRecords Total records for the filter, or null when unknown
+     * @returns Pagination info
+     */
+    private buildPaginationInfo(page: number, pageRecordCount: number, totalRecords: number | null): PaginationInfo {
+        if (totalRecords === null) {
+            const recordsSoFar = (page - 1) * this.pageSize + pageRecordCount;
+            const hasNextPage = pageRecordCount === this.pageSize;
+
+            return {
+                currentPage: page,
+                pageSize: this.pageSize,
+                totalRecords: recordsSoFar,
+                totalPages: hasNextPage ? page + 1 : page,
+                hasNextPage: hasNextPage,
+                hasPreviousPage: page > 1
+            };
+        }
+
+        const totalPages = Math.max(1, Math.ceil(totalRecords / this.pageSize));
+
+        return {
+            currentPage: page,
+            pageSize: this.pageSize,
+            totalRecords: totalRecords,
+            totalPages: totalPages,
+            hasNextPage: page < totalPages,
+            hasPreviousPage: page > 1
+        };
+    }
+
+    /**
+     * Searches for a specific user by ID
+     * @param userId System User ID
+     * @returns Promise with user details or null if not found (or not listed by the directory view)
+     */
+    public async getUserById(userId: string): Promise<SystemUser | null> {
+        try {
+            // With a directory view, users it does not list are not found
+            const directoryQuery = await this.getDirectoryQuery();
+            if (directoryQuery) {
+                const id = this.normaliseId(userId);
+                const users = SystemUserService.guidPattern.test(id)
+                    ? await this.getViewUsersWhere(directoryQuery, 'systemuserid', [id])
+                    : [];
+                return users[0] || null;
+            }
+
+            const query = `?$select=${this.getUserColumns()}`;
+            
+            const result = await this.webAPI.retrieveRecord(
+                "systemuser",
+                userId,
+                query
+            );
+
+            return this.mapEntityToUser(result);
+
+        } catch (error) {
+            logger.error('Error retrieving user by ID:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Gets multiple users by their IDs
+     * @param userIds Array of system user IDs
+     * @returns Promise with the users found, in the order of the IDs; IDs that are unknown or
+     * outside the directory filters are left out
+     * @throws When part of the IDs could not be looked up (see lookupUsersByIds for per-ID results)
+     */
+    public async getUsersByIds(userIds: string[]): Promise<SystemUser[]> {
+        const results = await this.lookupUsersByIds(userIds);
+        return this.getFoundUsers(results, 'IDs');
+    }
+
+    /**
+     * Looks up users by ID, in chunks with limited concurrency
+     * @param userIds Array of system user IDs (braces and case do not matter)
+     * @returns Promise with one result per requested ID, in the caller's order. Users outside the
+     * directory filters or view count as not found; IDs of a chunk whose request failed are marked failed.
+     */
+    public async lookupUsersByIds(userIds: string[]): Promise<UserLookupResult[]> {
+        if (!userIds || userIds.length === 0) {
+            return [];
+        }
+
+        // The snapshot holds every user the directory filters allow, so it answers completely
+        const snapshot = await this.getFreshSnapshot();
+        if (snapshot) {
+            return this.toLookupResults(userIds, id => this.normaliseId(id), key => {
+                const user = snapshot.users.find(candidate => candidate.systemuserid.toLowerCase() === key);
+                return user ? { status: 'found', user } : notFoundOutcome;
+            });
+        }
+
+        // Malformed IDs cannot match and would break the filter, so they are not sent
+        const ids = this.distinctKeys(userIds, id => this.normaliseId(id)).filter(id => SystemUserService.guidPattern.test(id));
+
+        const directoryQuery = await this.getDirectoryQuery();
+        const outcomes = await this.lookupInChunks(ids, async chunk => {
+            if (directoryQuery) {
+                return this.getViewUsersWhere(directoryQuery, 'systemuserid', chunk);
+            }
+
+            // Limited to users the directory filters allow
+            const idFilters = chunk.map(id => `systemuserid eq ${id}`).join(' or ');
+            const filters = [`(${idFilters})`, ...this.buildDirectoryFilters()];
+            const query = `?$select=${this.getUserColumns()}&$filter=${filters.join(' and ')}`;
+
+            const result = await this.webAPI.retrieveMultipleRecords("systemuser", query);
+            return result.entities.map(entity => this.mapEntityToUser(entity));
+        }, user => user.systemuserid.toLowerCase());
+
+        return this.toLookupResults(userIds, id => this.normaliseId(id), key => outcomes.get(key) || notFoundOutcome);
+    }
+
+    /**
+     * Gets users by their primary email address, including disabled users so callers
+     * can tell an unknown address from a disabled account
+     * @param emails Array of email addresses
+     * @returns Promise with the users found, in the order of the addresses
+     * @throws When part of the addresses could not be looked up (see lookupUsersByEmails for per-address results)
+     */
+    public async getUsersByEmails(emails: string[]): Promise<SystemUser[]> {
+        const results = await this.lookupUsersByEmails(emails);
+        return this.getFoundUsers(results, 'emails');
+    }
+
+    /**
+     * Looks up users by primary email address, in chunks with limited concurrency.
+     * Used to re-hydrate saved recipients, so disabled users and the directory filters are not applied.
+     * @param emails Array of email addresses (case does not matter)
+     * @returns Promise with one result per requested address, in the caller's order
+     */
+    public async lookupUsersByEmails(emails: string[]): Promise<UserLookupResult[]> {
+        if (!emails || emails.length === 0) {
+            return [];
+        }
+
+        const normaliseEmail = (email: string): string => (email || '').trim().toLowerCase();
+        const addresses = this.distinctKeys(emails, normaliseEmail);
+
+        const outcomes = await this.lookupInChunks(addresses, async chunk => {
+            const emailFilters = chunk
+                .map(email => `internalemailaddress eq '${email.replace(/'/g, "''")}'`)
+                .join(' or ');
+            const query = `?$select=${this.getUserColumns()}&$filter=${emailFilters}`;
+
+            const result = await this.webAPI.retrieveMultipleRecords("systemuser", query);
+            return result.entities.map(entity => this.mapEntityToUser(entity));
+        }, user => (user.internalemailaddress || '').toLowerCase());
+
+        return this.toLookupResults(emails, normaliseEmail, key => outcomes.get(key) || notFoundOutcome);
+    }
+
+    /**
+     * Runs a lookup for every chunk of keys, a few chunks at a time. A failing chunk does not stop
+     * the others; its keys are reported as failed.
+     * @param keys Distinct, normalised keys
+     * @param fetchChunk Retrieves the users matching one chunk of keys
+     * @param getKey Normalised key of a retrieved user
+     * @returns Outcome per key that was found or failed; keys missing from the map were not found
+     */
+    private async lookupInChunks(
+        keys: string[],
+        fetchChunk: (chunk: string[]) => Promise<SystemUser[]>,
+        getKey: (user: SystemUser) => string
+    ): Promise<Map<string, UserLookupOutcome>> {
+        const outcomes = new Map<string, UserLookupOutcome>();
+        const chunks: string[][] = [];
+        for (let index = 0; index < keys.length; index += SystemUserService.lookupChunkSize) {
+            chunks.push(keys.slice(index, index + SystemUserService.lookupChunkSize));
+        }
+
+        let next = 0;
+        const worker = async (): Promise<void> => {
+            while (next < chunks.length) {
+                const chunk = chunks[next++];
+
+                try {
+                    const users = await fetchChunk(chunk);
+                    users.forEach(user => outcomes.set(getKey(user), { status: 'found', user }));
+
+                } catch (error) {
+                    logger.error(`Error looking up ${chunk.length} users:`, error);
+                    const message = error instanceof Error ? error.message : String(error);
+                    chunk.forEach(key => outcomes.set(key, { status: 'failed', user: null, error: message }));
+                }
+            }
+        };
+
+        await Promise.all(
+            Array.from({ length: Math.min(SystemUserService.lookupConcurrency, chunks.length) }, () => worker())
+        );
+
+        return outcomes;
+    }
+
+    private distinctKeys(values: string[], normalise: (value: string) => string): string[] {
+        const keys = values.map(value => normalise(value)).filter(key => key);
+        return keys.filter((key, index) => keys.indexOf(key) === index);
+    }
+
+    /**
+     * Builds one result per requested value, in the caller's order (duplicates repeat the same result)
+     */
+    private toLookupResults(
+        values: string[],
+        normalise: (value: string) => string,
+        getOutcome: (key: string) => UserLookupOutcome
+    ): UserLookupResult[] {
+        return values.map(value => {
+            const key = normalise(value);
+            return { key: value, ...(key ? getOutcome(key) : notFoundOutcome) };
+        });
+    }
+
+    /**
+     * Reduces lookup results to the users found, throwing when any lookup failed
+     */
+    private getFoundUsers(results: UserLookupResult[], kind: string): SystemUser[] {
+        const failed = results.filter(result => result.status === 'failed');
+        if (failed.length > 0) {
+            throw new Error(`Failed to retrieve users by ${kind} (${failed.length} of ${results.length} not looked up): ${failed[0].error}`);
+        }
+
+        const users: SystemUser[] = [];
+        results.forEach(({ user: found }) => {
+            if (found && !users.some(user => user.systemuserid === found.systemuserid)) {
+                users.push(found);
+            }
+        });
+        return users;
+    }
+
+    /**
+     * Gets the managers above a user, nearest first. Disabled managers are included, so the chain
+     * is not broken by someone who left; the walk stops at a cycle, at the depth limit or, with a
+     * directory view, at the first manager the view does not list.
+     * @param userId System user ID
+     * @param maxDepth Maximum number of managers
+     * @returns Promise with the manager chain
+     */
+    public async getManagerChain(userId: string, maxDepth: number = SystemUserService.maxHierarchyDepth): Promise<SystemUser[]> {
+        const depth = Math.min(Math.max(maxDepth, 0), SystemUserService.maxHierarchyDepth);
+        const snapshot = await this.getFreshSnapshot();
+        const visited = new Set<string>([this.normaliseId(userId)]);
+        const chain: SystemUser[] = [];
+
+        try {
+            let current = (snapshot && snapshot.users.find(user => this.normaliseId(user.systemuserid) === this.normaliseId(userId)))
+                || await this.getUserById(userId);
+
+            while (current && current.parentsystemuserid && chain.length < depth) {
+                const managerId = this.normaliseId(current.parentsystemuserid);
+                if (visited.has(managerId)) {
+                    logger.warn(`Manager cycle at ${managerId}, stopping the chain`);
+                    break;
+                }
+                visited.add(managerId);
+
+                const manager: SystemUser | null = (snapshot && snapshot.users.find(user => this.normaliseId(user.systemuserid) === managerId))
+                    || await this.getUserById(managerId);
+                if (!manager) {
+                    break;
+                }
+
+                chain.push(manager);
+                current = manager;
+            }
+
+            return chain;
+
+        } catch (error) {
+            logger.error('Error retrieving manager chain:', error);
+            throw new Error(`Failed to retrieve manager chain: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Gets the users reporting directly to a manager, limited to the directory filters
+     * @param managerId System user ID of the manager
+     * @returns Promise with the direct reports sorted A-Z
+     */
+    public async getDirectReports(managerId: string): Promise<SystemUser[]> {
+        try {
+            return await this.getReportsOf([managerId]);
+
+        } catch (error) {
+            logger.error('Error retrieving direct reports:', error);
+            throw new Error(`Failed to retrieve direct reports: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Gets everyone below a manager, level by level, up to a depth. Users already in the tree are
+     * not added again, so a cycle in the manager data cannot loop.
+     * @param managerId System user ID of the manager
+     * @param maxDepth Levels to load (1 for direct reports only)
+     * @returns Promise with the manager's direct reports and, below them, their reports
+     */
+    public async getReportingTree(managerId: string, maxDepth: number = 3): Promise<UserHierarchyNode[]> {
+        const depth = Math.min(Math.max(maxDepth, 1), SystemUserService.maxHierarchyDepth);
+        const visited = new Set<string>([this.normaliseId(managerId)]);
+        const roots: UserHierarchyNode[] = [];
+        const nodesById = new Map<string, UserHierarchyNode>();
+        let level: string[] = [this.normaliseId(managerId)];
+
+        try {
+            for (let currentDepth = 1; currentDepth <= depth && level.length > 0; currentDepth++) {
+                const reports = await this.getReportsOf(level);
+                const nextLevel: string[] = [];
+
+                for (const user of reports) {
+                    const id = this.normaliseId(user.systemuserid);
+                    if (visited.has(id)) continue;
+
+                    if (visited.size > SystemUserService.maxHierarchyUsers) {
+                        logger.warn(`Reporting tree has more than ${SystemUserService.maxHierarchyUsers} users, stopping`);
+                        // The users of the previous level may be missing reports
+                        nodesById.forEach(node => {
+                            if (node.depth === currentDepth - 1) {
+                                node.truncated = true;
+                            }
+                        });
+                        return roots;
+                    }
+                    visited.add(id);
+
+                    const node: UserHierarchyNode = { user, depth: currentDepth, children: [], truncated: currentDepth === depth };
+                    const parent = nodesById.get(this.normaliseId(user.parentsystemuserid || ''));
+                    (parent ? parent.children : roots).push(node);
+                    nodesById.set(id, node);
+                    nextLevel.push(id);
+                }
+
+                level = nextLevel;
+            }
+
+            return roots;
+
+        } catch (error) {
+            logger.error('Error retrieving reporting tree:', error);
+            throw new Error(`Failed to retrieve reporting tree: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Gets the users reporting directly to any of the given managers, from the directory snapshot
+     * when it is fresh, otherwise in chunks from the server (through the directory view when one is set)
+     * @param managerIds Normalised or raw system user IDs
+     * @returns Promise with the reports sorted A-Z, or in the view's order
+     */
+    private async getReportsOf(managerIds: string[]): Promise<SystemUser[]> {
+        const ids = managerIds.map(id => this.normaliseId(id)).filter(id => SystemUserService.guidPattern.test(id));
+        if (ids.length === 0) {
+            return [];
+        }
+
+        const snapshot = await this.getFreshSnapshot();
+        if (snapshot) {
+            return snapshot.users.filter(user => ids.indexOf(this.normaliseId(user.parentsystemuserid || '')) !== -1);
+        }
+
+        const directoryQuery = await this.getDirectoryQuery();
+        const reports: SystemUser[] = [];
+        for (let index = 0; index < ids.length; index += SystemUserService.lookupChunkSize) {
+            const chunk = ids.slice(index, index + SystemUserService.lookupChunkSize);
+            if (directoryQuery) {
+                reports.push(...await this.getViewUsersWhere(directoryQuery, 'parentsystemuserid', chunk));
+                continue;
+            }
+
+            const managerFilters = chunk
+                .map(id => `_parentsystemuserid_value eq ${id}`)
+                .join(' or ');
+            const filters = [`(${managerFilters})`, ...this.buildDirectoryFilters()];
+            const query = `?$select=${this.getUserColumns()}&$filter=${filters.join(' and ')}&$orderby=firstname asc,lastname asc`;
+
+            const result = await this.webAPI.retrieveMultipleRecords("systemuser", query);
+            reports.push(...result.entities.map(entity => this.mapEntityToUser(entity)));
+        }
+
+        return reports;
+    }
+
+    private normaliseId(id: string): string {
+        return (id || '').replace(/[{}]/g, '').trim().toLowerCase();
+    }
+
+    /**
+     * Gets the active members of a team that have an email address
+     * @param teamId Team ID
+     * @returns Promise with the member users sorted A-Z; with a directory view, only those it lists
+     */
+    public async getTeamMembers(teamId: string): Promise<SystemUser[]> {
+        try {
+            // The view replaces the directory filters, and is applied to the members afterwards
+            const directoryQuery = await this.getDirectoryQuery();
+            const filters = [
+                ...(directoryQuery ? ["isdisabled eq false"] : this.buildDirectoryFilters()),
+                "internalemailaddress ne null",
+                `teammembership_association/any(t:t/teamid eq ${teamId})`
+            ];
+            const query = `?$select=${this.getUserColumns()}&$filter=${filters.join(' and ')}&$orderby=firstname asc,lastname asc`;
+
+            const result = await this.webAPI.retrieveMultipleRecords(
+                "systemuser",
+                query
+            );
+
+            const members = result.entities.map(entity => this.mapEntityToUser(entity));
+            if (!directoryQuery) {
+                return members;
+            }
+
+            const listed = await this.filterIdsToDirectory(members.map(member => member.systemuserid));
+            return members.filter(member => listed.indexOf(member.systemuserid) !== -1);
+
+        } catch (error) {
+            logger.error('Error retrieving team members:', error);
+            throw new Error(`Failed to retrieve team members: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+}
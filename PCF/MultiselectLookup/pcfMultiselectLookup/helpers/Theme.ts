@@ -0,0 +1,259 @@
+/**
+ * Theming for the controls. Colours come from the host app: the Fluent v9 design tokens the
+ * platform passes in context.fluentDesignLanguage (modern look, including dark mode) or, on older
+ * hosts, the loaded Fluent theme. Hover and pressed shades are computed from a base colour so a
+ * configured colour keeps working states, and Windows high contrast (forced colors) gets system
+ * colours instead of ours.
+ */
+
+import {
+    Theme,
+    IRawStyle,
+    IColor,
+    createTheme,
+    getTheme,
+    getColorFromString,
+    getColorFromRGBA,
+    getContrastRatio,
+    mergeStyles,
+    HighContrastSelector
+} from '@fluentui/react';
+
+/**
+ * Colour roles used by the control's own layout (cards, grid rows, badges)
+ */
+export interface ControlColors {
+    /** Cards, rows and the panel body */
+    surface: string;
+    /** Section headers and the area behind cards */
+    surfaceAlt: string;
+    border: string;
+    /** Borders of inputs and outlined buttons */
+    borderStrong: string;
+    text: string;
+    textSecondary: string;
+    textDisabled: string;
+    accent: string;
+    accentHover: string;
+    accentPressed: string;
+    /** Background of selected rows and chips */
+    accentSubtle: string;
+    /** Text on an accent background */
+    onAccent: string;
+    danger: string;
+    dangerSubtle: string;
+    warning: string;
+    /** Teams and queues */
+    group: string;
+    groupSubtle: string;
+    /** External contacts */
+    external: string;
+    externalSubtle: string;
+    favourite: string;
+    /** Background of matched search words */
+    searchHighlight: string;
+}
+
+/**
+ * Rest, hover and pressed colours of a control with a configurable base colour
+ */
+export interface StateColors {
+    rest: string;
+    hover: string;
+    pressed: string;
+    /** Readable text on the base colour */
+    text: string;
+}
+
+/**
+ * What the theme reads from the host's Fluent v9 design state (context.fluentDesignLanguage)
+ */
+export interface HostDesignLanguage {
+    /** Design tokens by name, e.g. colorBrandBackground */
+    tokenTheme?: Record<string, string>;
+    isDarkTheme?: boolean;
+}
+
+/**
+ * Part of the PCF context the theme reads; hosts without the modern look leave the design state out
+ */
+export interface ThemeHost {
+    fluentDesignLanguage?: HostDesignLanguage;
+}
+
+// Built themes per host theme object and direction, so re-renders reuse them
+const themeCache: WeakMap<object, Record<string, Theme>> = new WeakMap();
+
+/**
+ * Gets the Fluent theme of the control, building it only when the host theme changed (for example
+ * when the user switches to dark mode)
+ * @param context PCF context
+ * @param isRtl Whether the user's language is written right to left
+ */
+export function getControlTheme(context: ThemeHost | null | undefined, isRtl: boolean): Theme {
+    const source: object = (context && context.fluentDesignLanguage) || getTheme();
+    const themes = themeCache.get(source) || {};
+    const direction = isRtl ? 'rtl' : 'ltr';
+
+    if (!themes[direction]) {
+        themes[direction] = createControlTheme(context, isRtl);
+        themeCache.set(source, themes);
+    }
+    return themes[direction];
+}
+
+/**
+ * Builds the Fluent theme of the control from the host app
+ * @param context PCF context; fluentDesignLanguage is used when the host provides it
+ * @param isRtl Whether the user's language is written right to left
+ */
+export function createControlTheme(context: ThemeHost | null | undefined, isRtl: boolean): Theme {
+    const design = context ? context.fluentDesignLanguage : undefined;
+
+    if (!design || !design.tokenTheme) {
+        return createTheme({ ...getTheme(), rtl: isRtl });
+    }
+
+    const tokens = design.tokenTheme;
+    return createTheme({
+        rtl: isRtl,
+        isInverted: !!design.isDarkTheme,
+        palette: {
+            themePrimary: tokens.colorBrandBackground,
+            themeDarkAlt: tokens.colorBrandBackgroundHover,
+            themeDark: tokens.colorBrandBackgroundPressed,
+            themeDarker: tokens.colorBrandForeground2,
+            themeSecondary: tokens.colorBrandForeground1,
+            themeTertiary: tokens.colorBrandStroke2,
+            themeLight: tokens.colorBrandBackground2,
+            themeLighter: tokens.colorBrandBackground2,
+            themeLighterAlt: tokens.colorNeutralBackground1Selected,
+            black: tokens.colorNeutralForeground1,
+            neutralDark: tokens.colorNeutralForeground1,
+            neutralPrimary: tokens.colorNeutralForeground1,
+            neutralPrimaryAlt: tokens.colorNeutralForeground2,
+            neutralSecondary: tokens.colorNeutralForeground2,
+            neutralTertiary: tokens.colorNeutralForeground3,
+            neutralTertiaryAlt: tokens.colorNeutralForegroundDisabled,
+            neutralQuaternary: tokens.colorNeutralStroke1,
+            neutralQuaternaryAlt: tokens.colorNeutralStroke2,
+            neutralLight: tokens.colorNeutralStroke2,
+            neutralLighter: tokens.colorNeutralBackground3,
+            neutralLighterAlt: tokens.colorNeutralBackground2,
+            white: tokens.colorNeutralBackground1,
+            red: tokens.colorPaletteRedForeground1,
+            redDark: tokens.colorPaletteRedForeground1,
+            yellowDark: tokens.colorPaletteMarigoldForeground2,
+            purple: tokens.colorPaletteGrapeForeground2
+        },
+        semanticColors: {
+            bodyBackground: tokens.colorNeutralBackground1,
+            bodyText: tokens.colorNeutralForeground1,
+            bodySubtext: tokens.colorNeutralForeground2,
+            disabledBodyText: tokens.colorNeutralForegroundDisabled,
+            bodyDivider: tokens.colorNeutralStroke2,
+            inputBorder: tokens.colorNeutralStroke1,
+            errorText: tokens.colorPaletteRedForeground1,
+            errorBackground: tokens.colorPaletteRedBackground1,
+            warningIcon: tokens.colorPaletteMarigoldForeground2,
+            primaryButtonText: tokens.colorNeutralForegroundOnBrand
+        }
+    });
+}
+
+/**
+ * Picks the colour roles of the control from a Fluent theme
+ */
+export function getControlColors(theme: Theme): ControlColors {
+    const { palette, semanticColors } = theme;
+    const accent = getStateColors(palette.themePrimary, theme.isInverted);
+
+    return {
+        surface: semanticColors.bodyBackground,
+        surfaceAlt: palette.neutralLighterAlt,
+        border: palette.neutralLight,
+        borderStrong: semanticColors.inputBorder,
+        text: semanticColors.bodyText,
+        textSecondary: semanticColors.bodySubtext,
+        textDisabled: semanticColors.disabledBodyText,
+        accent: accent.rest,
+        accentHover: accent.hover,
+        accentPressed: accent.pressed,
+        accentSubtle: palette.themeLighterAlt,
+        onAccent: semanticColors.primaryButtonText,
+        danger: semanticColors.errorText,
+        dangerSubtle: semanticColors.errorBackground,
+        warning: semanticColors.warningIcon,
+        group: palette.purple,
+        groupSubtle: withAlpha(palette.purple, 12),
+        external: palette.yellowDark,
+        externalSubtle: withAlpha(palette.yellowDark, 14),
+        favourite: palette.yellowDark,
+        searchHighlight: withAlpha(palette.yellow, 35)
+    };
+}
+
+/**
+ * Computes hover and pressed shades of a base colour: darker on light themes, lighter on dark ones
+ * (and for colours too dark to be darkened visibly)
+ * @param base Any CSS colour, e.g. "#0078d4" or "green"
+ * @param isDarkTheme Whether the colour sits on a dark background
+ */
+export function getStateColors(base: string, isDarkTheme: boolean = false): StateColors {
+    const color = getColorFromString(base);
+    if (!color) {
+        return { rest: base, hover: base, pressed: base, text: '#ffffff' };
+    }
+
+    const towards = isDarkTheme || isVeryDark(color.r, color.g, color.b) ? 255 : 0;
+    const mix = (amount: number): string => getColorFromRGBA({
+        r: Math.round(color.r + (towards - color.r) * amount),
+        g: Math.round(color.g + (towards - color.g) * amount),
+        b: Math.round(color.b + (towards - color.b) * amount),
+        a: color.a === undefined ? 100 : color.a
+    }).str;
+
+    return {
+        rest: color.str,
+        hover: mix(0.15),
+        pressed: mix(0.3),
+        text: getReadableText(color)
+    };
+}
+
+/**
+ * Style that applies only in Windows high contrast (forced colors), e.g.
+ * `root: [baseStyle, forcedColors({ outline: '2px solid Highlight' })]`
+ */
+export function forcedColors(style: IRawStyle): IRawStyle {
+    return { selectors: { [HighContrastSelector]: style } };
+}
+
+/**
+ * Class for selected rows: high contrast replaces the selection background, so they get an outline
+ */
+export function getSelectedRowClassName(): string {
+    return mergeStyles(forcedColors({ outline: '2px solid Highlight', outlineOffset: '-2px' }));
+}
+
+/**
+ * Makes a colour translucent, for tinted backgrounds
+ * @param color Any CSS colour
+ * @param alpha Opacity from 0 to 100
+ */
+function withAlpha(color: string, alpha: number): string {
+    const parsed = getColorFromString(color);
+    return parsed ? getColorFromRGBA({ r: parsed.r, g: parsed.g, b: parsed.b, a: alpha }).str : color;
+}
+
+function getReadableText(color: IColor): string {
+    const white = getColorFromString('#ffffff') as IColor;
+    const black = getColorFromString('#000000') as IColor;
+    // Prefer white, like Fluent's primary buttons, while it meets the AA contrast ratio
+    const onWhite = getContrastRatio(color, white);
+    return onWhite >= 4.5 || onWhite >= getContrastRatio(color, black) ? '#ffffff' : '#000000';
+}
+
+function isVeryDark(r: number, g: number, b: number): boolean {
+    return (0.299 * r + 0.587 * g + 0.114 * b) < 40;
+}
@@ -0,0 +1,68 @@
+/**
+ * Field-scoped user search syntax, e.g. `title:counsel bu:finance` or `dept:"human resources" jane`.
+ * Scoped terms must match their field; the remaining words are searched across all fields.
+ */
+
+export type UserSearchScope = 'name' | 'email' | 'title' | 'department' | 'businessunit' | 'phone';
+
+export interface ParsedUserSearch {
+    /** Words without a scope, searched in every field */
+    freeText: string;
+    /** Scoped values; every value must appear in its field */
+    scoped: Partial<Record<UserSearchScope, string[]>>;
+}
+
+/**
+ * Prefixes accepted for each scope (case-insensitive)
+ */
+export const userSearchScopeAliases: Record<string, UserSearchScope> = {
+    name: 'name',
+    email: 'email',
+    mail: 'email',
+    title: 'title',
+    job: 'title',
+    dept: 'department',
+    department: 'department',
+    bu: 'businessunit',
+    businessunit: 'businessunit',
+    phone: 'phone',
+    tel: 'phone'
+};
+
+// prefix:"quoted value" or prefix:value, anywhere in the text
+const scopedTermPattern = /(\w+):(?:"([^"]*)"|(\S+))/g;
+
+/**
+ * Splits a search into scoped terms and free text. Unknown prefixes (for example part of an email
+ * address or a time) are left in the free text.
+ * @param searchTerm Search as typed
+ */
+export function parseUserSearch(searchTerm: string): ParsedUserSearch {
+    const scoped: Partial<Record<UserSearchScope, string[]>> = {};
+
+    const freeText = (searchTerm || '').replace(scopedTermPattern, (term: string, prefix: string, quoted?: string, plain?: string) => {
+        const scope = userSearchScopeAliases[prefix.toLowerCase()];
+        const value = (quoted !== undefined ? quoted : plain || '').trim();
+
+        if (!scope) {
+            return term;
+        }
+
+        if (value) {
+            scoped[scope] = [...(scoped[scope] || []), value];
+        }
+        return ' ';
+    });
+
+    return {
+        freeText: freeText.replace(/\s+/g, ' ').trim(),
+        scoped
+    };
+}
+
+/**
+ * Checks whether a search uses any scoped term
+ */
+export function hasScopedTerms(search: ParsedUserSearch): boolean {
+    return Object.keys(search.scoped).length > 0;
+}
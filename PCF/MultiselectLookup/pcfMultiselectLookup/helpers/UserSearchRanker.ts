@@ -0,0 +1,328 @@
+/**
+ * Client-side ranking of user search candidates. The server returns a wide candidate set;
+ * every candidate is scored here by how well each search word matches its fields (whole word,
+ * word prefix, substring or a small typo), ignoring case and accents. The matched fragments
+ * are reported so the result lists can highlight them.
+ */
+
+import { SystemUser } from './SystemUserService';
+import { UserSearchScope, parseUserSearch } from './UserSearchQuery';
+
+/**
+ * Fields of a user that take part in ranking
+ */
+export type SearchableUserField =
+    'firstname' | 'lastname' | 'nickname' | 'fullname' | 'internalemailaddress' |
+    'title' | 'department' | 'businessunitname' | 'address1_telephone1';
+
+/**
+ * Matched fragment of a field value, in positions of the original (not normalised) text
+ */
+export interface HighlightRange {
+    start: number;
+    length: number;
+}
+
+export interface UserSearchMatch {
+    score: number;
+    highlights: Partial<Record<SearchableUserField, HighlightRange[]>>;
+}
+
+export interface RankedUser {
+    user: SystemUser;
+    match: UserSearchMatch;
+}
+
+// Name fields count most; an email or title hit alone is a weaker signal
+const fieldWeights: Record<SearchableUserField, number> = {
+    firstname: 1,
+    lastname: 1,
+    nickname: 0.9,
+    fullname: 0.9,
+    internalemailaddress: 0.8,
+    title: 0.6,
+    department: 0.6,
+    businessunitname: 0.5,
+    address1_telephone1: 0.5
+};
+
+// Fields searched by each scope of the field-scoped syntax
+const scopeFields: Record<UserSearchScope, SearchableUserField[]> = {
+    name: ['firstname', 'lastname', 'nickname', 'fullname'],
+    email: ['internalemailaddress'],
+    title: ['title'],
+    department: ['department'],
+    businessunit: ['businessunitname'],
+    phone: ['address1_telephone1']
+};
+
+const searchableFields = Object.keys(fieldWeights) as SearchableUserField[];
+
+// Characters that separate words inside a field (email addresses split on their punctuation too)
+const wordSeparator = /[\s.@_\-'’,()]/;
+
+/**
+ * Text with case and accents removed, and the position of each character in the original text
+ */
+interface NormalisedText {
+    text: string;
+    positions: number[];
+}
+
+interface NormalisedWord {
+    text: string;
+    start: number; // Index into the normalised text
+}
+
+/**
+ * Lower-cases a text and removes accents ("Müller" becomes "muller")
+ */
+export function normaliseSearchText(text: string): string {
+    return normalise(text).text;
+}
+
+/**
+ * Splits a search into normalised words, without duplicates
+ */
+export function tokeniseSearch(searchTerm: string): string[] {
+    const tokens = normaliseSearchText(searchTerm)
+        .split(/\s+/)
+        .filter(token => token);
+
+    return tokens.filter((token, index) => tokens.indexOf(token) === index);
+}
+
+/**
+ * Ranks users against a search. Every free search word has to match some field (allowing a typo
+ * in longer words) and every scoped term (`title:counsel`) has to appear in its field; users
+ * missing one are left out.
+ * @param users Candidate users, in their default (A-Z) order
+ * @param searchTerm Search as typed, optionally with field-scoped terms
+ * @returns Matching users, best first; equal scores keep the A-Z order
+ */
+export function rankUsers(users: SystemUser[], searchTerm: string): RankedUser[] {
+    const search = parseUserSearch(searchTerm);
+    const tokens = tokeniseSearch(search.freeText);
+    if (tokens.length === 0 && Object.keys(search.scoped).length === 0) {
+        return users.map(user => ({ user, match: { score: 0, highlights: {} } }));
+    }
+
+    return users
+        .map((user, index) => ({ index, match: scoreUser(user, tokens, search.scoped), user }))
+        .filter((ranked): ranked is { index: number; match: UserSearchMatch; user: SystemUser } => ranked.match !== null)
+        .sort((a, b) => b.match.score - a.match.score || a.index - b.index)
+        .map(ranked => ({ user: ranked.user, match: ranked.match }));
+}
+
+/**
+ * Scores one user
+ * @param user Candidate user
+ * @param tokens Normalised free search words
+ * @param scoped Field-scoped terms
+ * @returns The match, or null when a search word or scoped term does not match
+ */
+export function scoreUser(
+    user: SystemUser,
+    tokens: string[],
+    scoped: Partial<Record<UserSearchScope, string[]>> = {}
+): UserSearchMatch | null {
+    const fields = searchableFields.map(field => {
+        const normalised = normalise(user[field] || '');
+        return { field, normalised, words: splitWords(normalised.text) };
+    });
+
+    const highlights: Partial<Record<SearchableUserField, HighlightRange[]>> = {};
+    let score = 0;
+
+    for (const token of tokens) {
+        let best: number | null = null;
+
+        for (const { field, words } of fields) {
+            for (const word of words) {
+                const wordMatch = matchWord(token, word.text);
+                if (!wordMatch) continue;
+
+                const weighted = wordMatch.score * fieldWeights[field];
+                if (best === null || weighted > best) {
+                    best = weighted;
+                }
+            }
+        }
+
+        if (best === null) {
+            return null;
+        }
+
+        score += best;
+
+        // Highlight the word wherever it matches, so every displayed field shows why the user was found
+        for (const { field, normalised, words } of fields) {
+            for (const word of words) {
+                const wordMatch = matchWord(token, word.text);
+                if (wordMatch) {
+                    addHighlight(highlights, field, normalised, word.start + wordMatch.start, wordMatch.length);
+                }
+            }
+        }
+    }
+
+    // Scoped terms: the value has to appear in one of the scope's fields
+    for (const scope of Object.keys(scoped) as UserSearchScope[]) {
+        for (const value of scoped[scope] || []) {
+            const normalisedValue = normaliseSearchText(value);
+            let found = false;
+
+            for (const { field, normalised } of fields.filter(candidate => scopeFields[scope].indexOf(candidate.field) !== -1)) {
+                const start = normalised.text.indexOf(normalisedValue);
+                if (start !== -1) {
+                    addHighlight(highlights, field, normalised, start, normalisedValue.length);
+                    found = true;
+                } else if (scope === 'phone' && digitsOnly(normalised.text).indexOf(digitsOnly(normalisedValue)) !== -1 && digitsOnly(normalisedValue)) {
+                    // Phone numbers are compared on their digits, whatever the formatting
+                    found = true;
+                }
+            }
+
+            if (!found) {
+                return null;
+            }
+            score += 50;
+        }
+    }
+
+    // Small bonus when the first word starts the first name, as in "jo sm" for John Smith
+    if (tokens.length > 0 && normaliseSearchText(user.firstname || '').indexOf(tokens[0]) === 0) {
+        score += 5;
+    }
+
+    return { score, highlights };
+}
+
+/**
+ * Matches one search word against one word of a field
+ * @returns Score and matched fragment (relative to the word), or null
+ */
+function matchWord(token: string, word: string): { score: number; start: number; length: number } | null {
+    if (!word) return null;
+
+    if (word === token) {
+        return { score: 100, start: 0, length: word.length };
+    }
+
+    if (word.indexOf(token) === 0) {
+        // Longer prefixes are more specific
+        return { score: 70 + Math.round(20 * token.length / word.length), start: 0, length: token.length };
+    }
+
+    const inside = word.indexOf(token);
+    if (inside > 0 && token.length >= 3) {
+        return { score: 45, start: inside, length: token.length };
+    }
+
+    // Typos: compare with the whole word and with a prefix of the same length
+    const allowed = token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0;
+    if (allowed > 0) {
+        const distance = Math.min(
+            editDistance(token, word, allowed),
+            editDistance(token, word.substring(0, token.length), allowed)
+        );
+        if (distance <= allowed) {
+            return { score: 40 - 10 * distance, start: 0, length: Math.min(word.length, token.length) };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Edit distance where a swap of two neighbouring letters counts as one edit ("smiht" - "smith"),
+ * giving up early once it exceeds the limit
+ * @returns The distance, or limit + 1 when it is larger than the limit
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) {
+        return limit + 1;
+    }
+
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMinimum = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+
+            rowMinimum = Math.min(rowMinimum, current[j]);
+        }
+
+        if (rowMinimum > limit) {
+            return limit + 1;
+        }
+        beforePrevious = previous;
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+function normalise(text: string): NormalisedText {
+    let normalisedText = '';
+    const positions: number[] = [];
+
+    for (let index = 0; index < text.length; index++) {
+        const plain = text[index].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+        for (const character of plain) {
+            normalisedText += character;
+            positions.push(index);
+        }
+    }
+
+    return { text: normalisedText, positions };
+}
+
+function digitsOnly(text: string): string {
+    return text.replace(/\D/g, '');
+}
+
+function splitWords(text: string): NormalisedWord[] {
+    const words: NormalisedWord[] = [];
+    let start = -1;
+
+    for (let index = 0; index <= text.length; index++) {
+        const isSeparator = index === text.length || wordSeparator.test(text[index]);
+        if (isSeparator && start !== -1) {
+            words.push({ text: text.substring(start, index), start });
+            start = -1;
+        } else if (!isSeparator && start === -1) {
+            start = index;
+        }
+    }
+
+    return words;
+}
+
+function addHighlight(
+    highlights: Partial<Record<SearchableUserField, HighlightRange[]>>,
+    field: SearchableUserField,
+    normalised: NormalisedText,
+    start: number,
+    length: number
+): void {
+    const originalStart = normalised.positions[start];
+    const originalEnd = normalised.positions[start + length - 1] + 1;
+    const ranges = highlights[field] || [];
+
+    if (!ranges.some(range => range.start === originalStart)) {
+        ranges.push({ start: originalStart, length: originalEnd - originalStart });
+        ranges.sort((a, b) => a.start - b.start);
+    }
+
+    highlights[field] = ranges;
+}
@@ -3,9 +3,183 @@ export {
     SystemUserService,
     type SystemUser,
     type PaginationInfo,
-    type SystemUserSearchResult
+    type SystemUserSearchResult,
+    type DirectoryFilterOptions,
+    type UserLookupStatus,
+    type UserLookupResult,
+    type UserHierarchyNode,
+    flattenHierarchy,
+    DEFAULT_DIRECTORY_FILTERS,
+    parseDirectoryFilterList
 } from './SystemUserService';
 
+// Ranked search and match highlighting
+export {
+    type SearchableUserField,
+    type HighlightRange,
+    type UserSearchMatch,
+    type RankedUser,
+    rankUsers,
+    scoreUser,
+    normaliseSearchText,
+    tokeniseSearch,
+    editDistance
+} from './UserSearchRanker';
+
+export { renderHighlightedText } from './HighlightedText';
+
+export {
+    type UserSearchScope,
+    type ParsedUserSearch,
+    userSearchScopeAliases,
+    parseUserSearch,
+    hasScopedTerms
+} from './UserSearchQuery';
+
+// Directory cache shared by all control instances
+export {
+    DirectoryCache,
+    type DirectorySnapshot
+} from './DirectoryCache';
+
+// Directory taken from a saved view or FetchXML
+export {
+    type DirectorySource,
+    type ViewColumn,
+    type UserSearchCondition,
+    type DirectoryFetchOptions,
+    DirectoryQuery,
+    DirectoryViewError,
+    hasDirectorySource,
+    loadDirectoryQuery,
+    readPagingCookie,
+    readTotalRecordCount,
+    readColumnValue
+} from './DirectoryView';
+
+// Stale-response protection for directory requests
+export {
+    RequestCancelledError,
+    isRequestCancelled,
+    type RequestToken,
+    LatestRequestTracker,
+    Debouncer
+} from './RequestTracker';
+
+// Recipient Model and Services (users, teams, queues and external contacts)
+export {
+    type Recipient,
+    type RecipientEntityType,
+    type RecipientRole,
+    type UserRecipient,
+    type TeamRecipient,
+    type QueueRecipient,
+    type ContactRecipient,
+    userToRecipient,
+    isSameRecipient,
+    getRecipientKey,
+    parseEmailList,
+    recipientsToEmails,
+    recipientsFromEmails
+} from './Recipient';
+
+export {
+    type EmailAddressStatus,
+    type ParsedEmailAddress,
+    type ResolvedEmailAddress,
+    isValidEmailSyntax,
+    parseEmailAddresses,
+    resolveEmailAddresses
+} from './EmailAddressParser';
+
+export {
+    RECIPIENT_DOCUMENT_VERSION,
+    type RecipientDocument,
+    type RecipientDocumentEntry,
+    serializeRecipients,
+    parseRecipientDocument,
+    recipientToEntry,
+    entryToRecipient,
+    isRecipientDocumentEntry
+} from './RecipientDocument';
+
+export { RecipientHistory } from './RecipientHistory';
+
+export {
+    RecipientService,
+    type RecipientServiceOptions
+} from './RecipientService';
+
+export {
+    ContactService,
+    type ContactSearchResult
+} from './ContactService';
+
+// Read-only states (form, field security, record state)
+export {
+    type ReadOnlyReason,
+    getReadOnlyReason,
+    RecordStateService
+} from './EditAccess';
+
+// Forward To flag (text, two options or choice column)
+export {
+    type ForwardDecision,
+    type ForwardToValues,
+    type ForwardToValue,
+    DEFAULT_FORWARD_TO_VALUES,
+    getDefaultForwardToValues,
+    readForwardDecision,
+    toForwardToValue
+} from './ForwardToFlag';
+
+// Selection rules and the validity outputs
+export {
+    type RecipientRules,
+    type RecipientRuleViolation,
+    type RecipientValidationResult,
+    DEFAULT_RECIPIENT_RULES,
+    parseAllowedDomains,
+    isEmailDomainAllowed,
+    validateRecipients
+} from './RecipientValidation';
+
+// Logging (levels, redaction, Web API timings)
+export {
+    LogLevel,
+    type WebApiTiming,
+    type TimingSink,
+    type LoggingOptions,
+    Logger,
+    configureLogging,
+    parseLogLevel,
+    redact,
+    redactText,
+    createConsoleTimingSink
+} from './Logger';
+
+// UI text from the resx files
+export {
+    LocalizedStrings,
+    defaultStrings,
+    type StringKey,
+    type PluralStringKey
+} from './Strings';
+
+// Colours from the host theme
+export {
+    type ControlColors,
+    type StateColors,
+    type HostDesignLanguage,
+    type ThemeHost,
+    createControlTheme,
+    getControlTheme,
+    getControlColors,
+    getStateColors,
+    forcedColors,
+    getSelectedRowClassName
+} from './Theme';
+
 // React Component
 export { SystemUserLookup } from './SystemUserLookup';
 
@@ -1,10 +1,20 @@
 import * as React from 'react';
-import { SystemUserService, SystemUser, SystemUserSearchResult } from './SystemUserService';
+import { SystemUserService, SystemUser, SystemUserSearchResult, DirectoryFilterOptions } from './SystemUserService';
+import { LatestRequestTracker, isRequestCancelled } from './RequestTracker';
+import { LocalizedStrings } from './Strings';
+import { Logger } from './Logger';
+
+const logger = new Logger('useSystemUserLookup');
 
 export interface UseSystemUserLookupOptions {
     context: ComponentFramework.Context<any>;
     pageSize?: number;
     autoLoad?: boolean;
+    directoryFilters?: DirectoryFilterOptions;
+    /** Directory cache time-to-live in minutes (0 or unset: always query the server) */
+    directoryCacheMinutes?: number;
+    /** systemuser column holding the department, if the environment has one */
+    departmentColumn?: string;
 }
 
 export interface UseSystemUserLookupReturn {
@@ -13,6 +23,7 @@ export interface UseSystemUserLookupReturn {
     error: string | null;
     pagination: {
         currentPage: number;
+        pageSize: number;
         totalPages: number;
         totalRecords: number;
         hasNextPage: boolean;
@@ -33,7 +44,7 @@ export interface UseSystemUserLookupReturn {
  * Custom hook for managing system user lookup with pagination and search
  */
 export function useSystemUserLookup(options: UseSystemUserLookupOptions): UseSystemUserLookupReturn {
-    const { context, pageSize = 25, autoLoad = true } = options;
+    const { context, pageSize = 25, autoLoad = true, directoryFilters, directoryCacheMinutes = 0, departmentColumn = '' } = options;
     
     const [users, setUsers] = React.useState<SystemUser[]>([]);
     const [loading, setLoading] = React.useState<boolean>(false);
@@ -41,27 +52,43 @@ export function useSystemUserLookup(options: UseSystemUserLookupOptions): UseSys
     const [currentPage, setCurrentPage] = React.useState<number>(1);
     const [totalPages, setTotalPages] = React.useState<number>(0);
     const [totalRecords, setTotalRecords] = React.useState<number>(0);
+    const [currentPageSize, setCurrentPageSize] = React.useState<number>(pageSize);
     const [hasNextPage, setHasNextPage] = React.useState<boolean>(false);
     const [hasPreviousPage, setHasPreviousPage] = React.useState<boolean>(false);
     const [currentSearchTerm, setCurrentSearchTerm] = React.useState<string>('');
     
+    // Compare filters by value so a new options object on every render does not recreate the service
+    const directoryFiltersKey = JSON.stringify(directoryFilters || null);
+
     const userService = React.useMemo(() => {
         const service = new SystemUserService(context);
-        if (pageSize !== 25) {
-            service.setPageSize(pageSize);
+        service.setPageSize(pageSize);
+        if (directoryFilters) {
+            service.setDirectoryFilters(directoryFilters);
         }
+        service.setDirectoryCache(directoryCacheMinutes);
+        service.setDepartmentColumn(departmentColumn);
         return service;
-    }, [context, pageSize]);
+    }, [context, pageSize, directoryFiltersKey, directoryCacheMinutes, departmentColumn]);
+
+    const strings = React.useMemo(() => new LocalizedStrings(context), [context]);
+
+    // Only the latest load may update the state; responses to earlier loads are discarded
+    const requests = React.useRef<LatestRequestTracker>(new LatestRequestTracker());
 
     const loadUsers = React.useCallback(async (page: number = 1, searchTerm?: string): Promise<void> => {
+        const token = requests.current.begin();
+
         setLoading(true);
         setError(null);
 
         try {
-            const result: SystemUserSearchResult = await userService.getActiveUsers(page, searchTerm);
+            const result: SystemUserSearchResult = await userService.getActiveUsers(page, searchTerm, token);
+            if (!token.isCurrent()) return;
             
             setUsers(result.users);
             setCurrentPage(result.pagination.currentPage);
+            setCurrentPageSize(result.pagination.pageSize);
             setTotalPages(result.pagination.totalPages);
             setTotalRecords(result.pagination.totalRecords);
             setHasNextPage(result.pagination.hasNextPage);
@@ -72,13 +99,17 @@ export function useSystemUserLookup(options: UseSystemUserLookupOptions): UseSys
             }
 
         } catch (err) {
-            const errorMessage = `Failed to load users: ${err}`;
+            if (isRequestCancelled(err) || !token.isCurrent()) return;
+
+            const errorMessage = strings.get('ErrorLoadUsers', String(err));
             setError(errorMessage);
             setUsers([]);
         } finally {
-            setLoading(false);
+            if (token.isCurrent()) {
+                setLoading(false);
+            }
         }
-    }, [userService]);
+    }, [userService, strings]);
 
     const nextPage = React.useCallback(async (): Promise<void> => {
         if (hasNextPage) {
@@ -106,7 +137,7 @@ export function useSystemUserLookup(options: UseSystemUserLookupOptions): UseSys
         try {
             return await userService.getUserById(userId);
         } catch (err) {
-            console.error('Error getting user by ID:', err);
+            logger.error('Error getting user by ID:', err);
             return null;
         }
     }, [userService]);
@@ -115,11 +146,17 @@ export function useSystemUserLookup(options: UseSystemUserLookupOptions): UseSys
         try {
             return await userService.getUsersByIds(userIds);
         } catch (err) {
-            console.error('Error getting users by IDs:', err);
+            logger.error('Error getting users by IDs:', err);
             return [];
         }
     }, [userService]);
 
+    // Drop responses that arrive after the component using the hook has unmounted
+    React.useEffect(() => {
+        const tracker = requests.current;
+        return () => tracker.dispose();
+    }, []);
+
     // Auto-load on mount if enabled
     React.useEffect(() => {
         if (autoLoad) {
@@ -133,6 +170,7 @@ export function useSystemUserLookup(options: UseSystemUserLookupOptions): UseSys
         error,
         pagination: {
             currentPage,
+            pageSize: currentPageSize,
             totalPages,
             totalRecords,
             hasNextPage,
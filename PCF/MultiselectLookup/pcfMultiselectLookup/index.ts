@@ -1,15 +1,53 @@
 import { IInputs, IOutputs } from "./generated/ManifestTypes";
 import * as React from "react";
-import * as ReactDOM from "react-dom";
-import { SystemUserForwardComponent } from "./components";
-import { SystemUser } from "./helpers";
+import { SystemUserForwardComponent, RecipientPeoplePicker, ReadOnlyRecipients } from "./components";
+import {
+    SystemUser,
+    Recipient,
+    DirectoryFilterOptions,
+    recipientsToEmails,
+    recipientsFromEmails,
+    serializeRecipients,
+    parseRecipientDocument,
+    parseDirectoryFilterList,
+    getReadOnlyReason,
+    RecordStateService,
+    RecipientRules,
+    RecipientValidationResult,
+    parseAllowedDomains,
+    validateRecipients,
+    LocalizedStrings,
+    ForwardDecision,
+    ForwardToValues,
+    getDefaultForwardToValues,
+    readForwardDecision,
+    toForwardToValue,
+    Logger,
+    configureLogging,
+    parseLogLevel,
+    createConsoleTimingSink
+} from "./helpers";
 
-export class MultiselectLookup implements ComponentFramework.StandardControl<IInputs, IOutputs> {
-    private container: HTMLDivElement;
+const logger = new Logger('MultiselectLookup');
+
+export class MultiselectLookup implements ComponentFramework.ReactControl<IInputs, IOutputs> {
     private context: ComponentFramework.Context<IInputs>;
     private notifyOutputChanged: () => void;
     private selectedEmails: string = '';
-    private forwardTo: string = 'NO';
+    private selectedRecipients: Recipient[] = [];
+    private selectedRecipientsJson: string = '';
+    private forwardDecision: ForwardDecision = 'unset';
+    private fieldForwardDecision: ForwardDecision = 'unset'; // Decision the bound column last held
+    // Decision before picking recipients switched it to yes; clearing the selection restores it
+    private decisionBeforeSelection: ForwardDecision | null = null;
+    // A two options column is never blank, so the No it holds on load may be its default rather
+    // than a choice; it counts as undecided until the user or the form changes the column
+    private isDefaultDecision: boolean = false;
+    private recordState: RecordStateService;
+    private strings: LocalizedStrings;
+    private publishedValidationMessage: string = ''; // Validation message the form last received
+    private static readonly defaultDirectoryCacheMinutes: number = 15;
+    private static readonly defaultHierarchyDepth: number = 3;
 
     /**
      * Empty constructor.
@@ -25,94 +63,278 @@ export class MultiselectLookup implements ComponentFramework.StandardControl<IIn
      * @param context The entire property bag available to control via Context Object; It contains values as set up by the customizer mapped to property names defined in the manifest, as well as utility functions.
      * @param notifyOutputChanged A callback method to alert the framework that the control has new outputs ready to be retrieved asynchronously.
      * @param state A piece of data that persists in one session for a single user. Can be set at any point in a controls life cycle by calling 'setControlState' in the Mode interface.
-     * @param container If a control is marked control-type='standard', it will receive an empty div element within which it can render its content.
      */
-    public init(context: ComponentFramework.Context<IInputs>, notifyOutputChanged: () => void, state: ComponentFramework.Dictionary, container:HTMLDivElement): void
+    public init(context: ComponentFramework.Context<IInputs>, notifyOutputChanged: () => void, state: ComponentFramework.Dictionary): void
     {
         this.context = context;
+        this.applyLoggingSettings();
         this.notifyOutputChanged = notifyOutputChanged;
-        this.container = container;
+        this.recordState = new RecordStateService(context);
+        this.strings = new LocalizedStrings(context);
         
         // Initialize selectedEmails from the input property
         this.selectedEmails = context.parameters.selectedEmails.raw || "";
         
-        // Initialize forwardTo from the input property
-        this.forwardTo = context.parameters.forwardTo.raw || "NO";
+        // Initialize the recipients from the JSON document, or from the emails for older records
+        this.loadRecipients(context.parameters.selectedRecipients.raw || "");
         
-        // Render the React component
-        this.renderComponent();
+        // Initialize the forward decision from the bound column
+        this.forwardDecision = readForwardDecision(context.parameters.forwardTo, this.getForwardToValues());
+        this.fieldForwardDecision = this.forwardDecision;
+        this.isDefaultDecision = context.parameters.forwardTo.type === 'TwoOptions' && this.forwardDecision === 'no';
     }
 
     /**
      * Called when any value in the property bag has changed. This includes field values, data-sets, global values such as container height and width, offline status, control metadata values such as label, visible, etc.
      * @param context The entire property bag available to control via Context Object; It contains values as set up by the customizer mapped to names defined in the manifest, as well as utility functions
+     * @returns ReactElement root react element for the control
      */
-    public updateView(context: ComponentFramework.Context<IInputs>): void
+    public updateView(context: ComponentFramework.Context<IInputs>): React.ReactElement
     {
-        console.log('PCF Index - updateView called');
-        
         this.context = context;
+        this.applyLoggingSettings();
         
         // Update selectedEmails if the input value has changed
         const newEmailValue = context.parameters.selectedEmails.raw || "";
-        const newForwardToValue = context.parameters.forwardTo.raw || "NO";
+        const newForwardDecision = readForwardDecision(context.parameters.forwardTo, this.getForwardToValues());
+        
+        logger.debug('updateView called', {
+            fieldEmails: newEmailValue,
+            selectedEmails: this.selectedEmails,
+            fieldForwardDecision: newForwardDecision,
+            forwardDecision: this.forwardDecision
+        });
         
-        console.log('PCF Index - updateView - Current field value:', newEmailValue);
-        console.log('PCF Index - updateView - Current selectedEmails:', this.selectedEmails);
-        console.log('PCF Index - updateView - Current forwardTo field value:', newForwardToValue);
-        console.log('PCF Index - updateView - Current forwardTo:', this.forwardTo);
+        const newRecipientsValue = context.parameters.selectedRecipients.raw || "";
         
-        if (newEmailValue !== this.selectedEmails) {
-            console.log('PCF Index - updateView - Email field value changed, updating selectedEmails');
+        const emailsChanged = newEmailValue !== this.selectedEmails;
+        if (emailsChanged) {
+            logger.debug('Email field value changed, updating selectedEmails');
             this.selectedEmails = newEmailValue;
         }
+
+        if (newRecipientsValue !== this.selectedRecipientsJson) {
+            logger.debug('Recipients field value changed, updating selectedRecipients');
+            this.loadRecipients(newRecipientsValue);
+        } else if (emailsChanged) {
+            // Re-align the recipients with emails that were changed outside the control, and write
+            // them back so the recipients column does not keep the previous selection
+            this.selectedRecipients = recipientsFromEmails(newEmailValue, this.selectedRecipients);
+            this.selectedRecipientsJson = serializeRecipients(this.selectedRecipients);
+            this.notifyOutputChanged();
+        }
         
-        if (newForwardToValue !== this.forwardTo) {
-            console.log('PCF Index - updateView - ForwardTo field value changed, updating forwardTo');
-            this.forwardTo = newForwardToValue;
+        // A column change other than our own output is a choice made on the form and is kept
+        if (newForwardDecision !== this.fieldForwardDecision) {
+            this.fieldForwardDecision = newForwardDecision;
+            if (newForwardDecision !== this.forwardDecision) {
+                logger.debug('ForwardTo field value changed, updating the forward decision');
+                this.forwardDecision = newForwardDecision;
+                this.decisionBeforeSelection = null;
+                this.isDefaultDecision = false;
+            }
         }
         
-        this.renderComponent();
+        this.refreshRecordState();
+
+        // Rules and the forward flag can change without a new selection; the validity outputs follow
+        if (this.getValidation().message !== this.publishedValidationMessage) {
+            this.notifyOutputChanged();
+        }
+
+        return this.renderComponent();
+    }
+
+    /**
+     * Re-reads the record state when the record or the form's disabled state changed, and asks for
+     * a new render when it turned out different
+     */
+    private refreshRecordState(): void {
+        this.recordState.setContext(this.context);
+        this.recordState.refresh()
+            .then(changed => {
+                if (changed) {
+                    this.context.factory.requestRender();
+                }
+                return changed;
+            })
+            .catch(error => {
+                // The recipients stay editable as they were; the next update reads the state again
+                logger.warn('Could not refresh the record state:', error);
+            });
+    }
+
+    /**
+     * Restores the selected recipients from the stored JSON document. Records saved before the
+     * document existed (or with an unreadable document) fall back to the selectedEmails text.
+     */
+    private loadRecipients(recipientsJson: string): void {
+        this.selectedRecipientsJson = recipientsJson;
+
+        const recipients = parseRecipientDocument(recipientsJson);
+        this.selectedRecipients = recipients !== null
+            ? recipients
+            : recipientsFromEmails(this.selectedEmails);
     }
 
+    /**
+     * Handles recipient selection changes; the email text is derived from the recipients
+     */
+    private onRecipientsChanged = (recipients: Recipient[]): void => {
+        logger.debug('onRecipientsChanged called with recipients:', recipients);
+
+        this.selectedRecipients = recipients;
+        this.selectedRecipientsJson = serializeRecipients(recipients);
+        this.onEmailsChanged(recipientsToEmails(recipients));
+    };
+
     /**
      * Handles email selection changes
      */
     private onEmailsChanged = (emails: string): void => {
-        console.log('PCF Index - onEmailsChanged called with emails:', emails);
-        console.log('PCF Index - Previous selectedEmails value:', this.selectedEmails);
-        console.log('PCF Index - Previous forwardTo value:', this.forwardTo);
+        logger.debug('onEmailsChanged called', {
+            emails,
+            previousEmails: this.selectedEmails,
+            previousForwardDecision: this.forwardDecision
+        });
         
         this.selectedEmails = emails;
         
-        // Update forwardTo based on whether emails are selected
+        // Picking recipients means forwarding while nobody has decided; clearing them only undoes
+        // that, so an explicit Yes or No made on the form stays as it is
         const hasEmails = emails && emails.trim().length > 0;
-        this.forwardTo = hasEmails ? 'YES' : 'NO';
+        if (hasEmails && this.getEffectiveDecision() === 'unset') {
+            this.decisionBeforeSelection = this.forwardDecision;
+            this.forwardDecision = 'yes';
+        } else if (!hasEmails && this.decisionBeforeSelection !== null) {
+            this.forwardDecision = this.decisionBeforeSelection;
+            this.decisionBeforeSelection = null;
+        }
         
-        console.log('PCF Index - Updated selectedEmails to:', this.selectedEmails);
-        console.log('PCF Index - Updated forwardTo to:', this.forwardTo);
-        console.log('PCF Index - Has emails:', hasEmails);
+        logger.debug('Forward decision is now:', this.forwardDecision);
         
-        // Add a small delay to ensure state is updated
-        setTimeout(() => {
-            this.notifyOutputChanged();
-            console.log('PCF Index - notifyOutputChanged called');
-            console.log('PCF Index - Final selectedEmails:', this.selectedEmails);
-            console.log('PCF Index - Final forwardTo:', this.forwardTo);
-        }, 100);
+        // Every output is updated above, so the framework can read them straight away
+        this.notifyOutputChanged();
     };
 
     /**
-     * Renders the React component
+     * Applies the log level and Web API timings configured for this form
      */
-    private renderComponent(): void {
-        const reactElement = React.createElement(SystemUserForwardComponent, {
-            context: this.context,
-            initialEmails: this.selectedEmails,
-            onEmailsChanged: this.onEmailsChanged
+    private applyLoggingSettings(): void {
+        const parameters = this.context.parameters;
+
+        configureLogging({
+            level: parseLogLevel(parameters.logLevel.raw),
+            timingSink: parameters.logWebApiTimings.raw === "1" ? createConsoleTimingSink() : null
         });
+    }
+
+    /**
+     * Reads the directory filters configured for this form from the manifest inputs
+     */
+    private getDirectoryFilters(): DirectoryFilterOptions {
+        const parameters = this.context.parameters;
+
+        return {
+            requireJobTitle: parameters.requireJobTitle.raw === "1",
+            businessUnits: parseDirectoryFilterList(parameters.businessUnits.raw),
+            securityRoles: parseDirectoryFilterList(parameters.securityRoles.raw),
+            includeLicensedNonAdUsers: parameters.includeLicensedNonAdUsers.raw === "1",
+            excludeApplicationUsers: parameters.excludeApplicationUsers.raw !== "0"
+        };
+    }
+
+    /**
+     * Reads the selection rules configured for this form from the manifest inputs
+     */
+    private getRecipientRules(): RecipientRules {
+        const parameters = this.context.parameters;
+
+        return {
+            minRecipients: Math.max(parameters.minRecipients.raw ?? 0, 0),
+            maxRecipients: Math.max(parameters.maxRecipients.raw ?? 0, 0),
+            allowedDomains: parseAllowedDomains(parameters.allowedDomains.raw),
+            requireWhenForwarding: parameters.requireRecipientsWhenForwarding.raw !== "0"
+        };
+    }
+
+    /**
+     * Reads the Forward To column values configured for this form from the manifest inputs;
+     * empty inputs take the defaults of the bound column's type
+     */
+    private getForwardToValues(): ForwardToValues {
+        const parameters = this.context.parameters;
+        const defaults = getDefaultForwardToValues(parameters.forwardTo.type);
+
+        return {
+            yes: parameters.forwardToYesValue.raw || defaults.yes,
+            no: parameters.forwardToNoValue.raw || defaults.no,
+            unset: parameters.forwardToUnsetValue.raw || defaults.unset
+        };
+    }
+
+    /**
+     * Checks the current selection against the configured rules
+     */
+    private getValidation(): RecipientValidationResult {
+        return validateRecipients(this.selectedRecipients, this.getRecipientRules(), this.getEffectiveDecision(), this.strings);
+    }
 
-        ReactDOM.render(reactElement, this.container);
+    /**
+     * Gets the decision the rules and the components see: a two options default No is undecided
+     */
+    private getEffectiveDecision(): ForwardDecision {
+        return this.isDefaultDecision && this.forwardDecision === 'no' ? 'unset' : this.forwardDecision;
+    }
+
+    /**
+     * Builds the React element of the control
+     */
+    private renderComponent(): React.ReactElement {
+        const parameters = this.context.parameters;
+
+        // Read-only forms, secured fields and inactive records only show who the recipients are
+        const readOnlyReason = getReadOnlyReason(
+            this.context,
+            [parameters.selectedEmails, parameters.selectedRecipients],
+            this.recordState.isInactive()
+        );
+        if (readOnlyReason) {
+            return React.createElement(ReadOnlyRecipients, {
+                context: this.context,
+                recipients: this.selectedRecipients,
+                reason: readOnlyReason,
+                departmentColumn: parameters.departmentColumn.raw || ''
+            });
+        }
+
+        const commonProps = {
+            context: this.context,
+            initialRecipients: this.selectedRecipients,
+            onRecipientsChanged: this.onRecipientsChanged,
+            includeTeams: parameters.includeTeams.raw !== "0",
+            includeQueues: parameters.includeQueues.raw !== "0",
+            includeContacts: parameters.includeContacts.raw === "1",
+            expandTeamMembers: parameters.expandTeamMembers.raw === "1",
+            directoryFilters: this.getDirectoryFilters(),
+            directoryCacheMinutes: parameters.directoryCacheMinutes.raw ?? MultiselectLookup.defaultDirectoryCacheMinutes,
+            departmentColumn: parameters.departmentColumn.raw || '',
+            directorySource: {
+                view: parameters.directoryView.raw || '',
+                fetchXml: parameters.directoryFetchXml.raw || ''
+            },
+            recipientRules: this.getRecipientRules(),
+            forwardDecision: this.getEffectiveDecision()
+        };
+
+        // Both display modes report recipients the same way, so the outputs do not depend on the mode
+        return parameters.displayMode.raw === "inline"
+            ? React.createElement(RecipientPeoplePicker, commonProps)
+            : React.createElement(SystemUserForwardComponent, {
+                ...commonProps,
+                initialEmails: this.selectedEmails,
+                hierarchyDepth: parameters.hierarchyDepth.raw ?? MultiselectLookup.defaultHierarchyDepth
+            });
     }
 
     /**
@@ -121,24 +343,32 @@ export class MultiselectLookup implements ComponentFramework.StandardControl<IIn
      */
     public getOutputs(): IOutputs
     {
-        console.log('PCF Index - getOutputs called');
-        console.log('PCF Index - Current selectedEmails value:', this.selectedEmails);
+        // The decision is written in the column's own type and values, and only when the control
+        // changed it, so values the control does not recognise are not overwritten
+        const forwardToValue = this.forwardDecision !== this.fieldForwardDecision
+            ? toForwardToValue(this.context.parameters.forwardTo.type, this.forwardDecision, this.getForwardToValues())
+            : null;
+        const validation = this.getValidation();
+        this.publishedValidationMessage = validation.message;
         
-        // Determine forwardTo value based on whether emails are selected
-        const hasEmails = this.selectedEmails && this.selectedEmails.trim().length > 0;
-        const forwardToValue = hasEmails ? 'YES' : 'NO';
-        
-        console.log('PCF Index - Has emails:', hasEmails);
-        console.log('PCF Index - ForwardTo value:', forwardToValue);
-        console.log('PCF Index - Returning output object:', { 
-            selectedEmails: this.selectedEmails, 
-            forwardTo: forwardToValue 
+        logger.debug('getOutputs returning:', {
+            selectedEmails: this.selectedEmails,
+            forwardDecision: this.forwardDecision,
+            forwardTo: forwardToValue,
+            isValid: validation.isValid
         });
-        
-        return {
+
+        const outputs: IOutputs = {
             selectedEmails: this.selectedEmails,
-            forwardTo: forwardToValue
+            selectedRecipients: this.selectedRecipientsJson,
+            isValid: validation.isValid,
+            validationMessage: validation.message
         };
+        // Left out when the column keeps its value or the configured value does not fit it
+        if (forwardToValue !== null) {
+            outputs.forwardTo = forwardToValue;
+        }
+        return outputs;
     }
 
     /**
@@ -147,7 +377,10 @@ export class MultiselectLookup implements ComponentFramework.StandardControl<IIn
      */
     public destroy(): void
     {
-        ReactDOM.unmountComponentAtNode(this.container);
+        // A record state read that returns after the form unloads is dropped; the framework
+        // unmounts the components, which discard their pending directory requests and debounced
+        // searches
+        this.recordState.dispose();
     }
 
     /**
@@ -162,7 +395,9 @@ export class MultiselectLookup implements ComponentFramework.StandardControl<IIn
      */
     public setSelectedEmails(emails: string): void {
         this.selectedEmails = emails;
-        this.renderComponent();
+        this.selectedRecipients = recipientsFromEmails(emails, this.selectedRecipients);
+        this.selectedRecipientsJson = serializeRecipients(this.selectedRecipients);
+        this.context.factory.requestRender();
         this.notifyOutputChanged();
     }
 }
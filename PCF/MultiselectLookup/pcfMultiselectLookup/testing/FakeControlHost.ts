@@ -0,0 +1,138 @@
+/**
+ * Stand-in for the form that hosts a control: a context with the parameters, user settings, resources
+ * and Web API the controls read, and records of what the control asked the host to do (render,
+ * read outputs, raise events). Works for any control, because parameters are given by name.
+ */
+
+import { InMemoryWebApi } from './InMemoryWebApi';
+
+export interface FakeFieldSecurity {
+    readable: boolean;
+    editable: boolean;
+}
+
+export interface FakeControlHostOptions {
+    /** Raw parameter values by manifest name, e.g. { selectedEmails: '', displayMode: 'panel' } */
+    parameters?: Record<string, unknown>;
+    /** Property type by name (e.g. forwardTo: 'OptionSet'); SingleLine.Text when omitted */
+    parameterTypes?: Record<string, string>;
+    /** Field security of secured parameters; unsecured parameters have none */
+    fieldSecurity?: Record<string, FakeFieldSecurity>;
+    webAPI?: InMemoryWebApi;
+    /** Signed-in user, in braces as the platform passes it */
+    userId?: string;
+    languageId?: number;
+    isRTL?: boolean;
+    isControlDisabled?: boolean;
+    /** Record the form shows; omitted for a new record */
+    page?: { entityTypeName: string; entityId: string };
+    /** resx entries; other keys come back as the key itself, like a missing resx entry */
+    resources?: Record<string, string>;
+}
+
+export class FakeControlHost<TInputs = Record<string, ComponentFramework.PropertyTypes.Property>> {
+    public readonly context: ComponentFramework.Context<TInputs>;
+    public readonly webAPI: InMemoryWebApi;
+    /** Times the control called context.factory.requestRender */
+    public renderRequests: number = 0;
+    /** Times the control called notifyOutputChanged */
+    public outputNotifications: number = 0;
+    /** Events raised through context.events, with their arguments */
+    public readonly raisedEvents: { name: string; params: unknown }[] = [];
+
+    private options: FakeControlHostOptions;
+    private parameters: Record<string, ComponentFramework.PropertyTypes.Property> = {};
+    private mode: { isControlDisabled: boolean; isVisible: boolean; [method: string]: unknown };
+
+    constructor(options: FakeControlHostOptions = {}) {
+        this.options = options;
+        this.webAPI = options.webAPI || new InMemoryWebApi();
+        this.mode = {
+            isControlDisabled: !!options.isControlDisabled,
+            isVisible: true,
+            setControlState: () => true,
+            setFullScreen: () => undefined,
+            trackContainerResize: () => undefined
+        };
+
+        Object.keys(options.parameters || {}).forEach(name => this.setParameter(name, options.parameters![name]));
+
+        const resources = options.resources || {};
+        const raisedEvents = this.raisedEvents;
+
+        // Only what the controls read; anything else stays undefined, so new uses show up in tests
+        const context = {
+            // The platform passes every manifest property; ones a test does not set are empty
+            parameters: new Proxy(this.parameters, {
+                get: (parameters, name) => parameters[String(name)] || this.createProperty(String(name), null)
+            }),
+            webAPI: this.webAPI,
+            mode: this.mode,
+            userSettings: {
+                userId: options.userId || '{00000000-0000-4000-8000-000000000001}',
+                languageId: options.languageId || 1033,
+                isRTL: !!options.isRTL,
+                userName: 'Test User',
+                securityRoles: []
+            },
+            resources: {
+                getString: (key: string): string => resources[key] !== undefined ? resources[key] : key,
+                getResource: () => undefined
+            },
+            factory: {
+                requestRender: () => { this.renderRequests++; }
+            },
+            events: new Proxy({}, {
+                get: (_target, name) => (params?: unknown) => { raisedEvents.push({ name: String(name), params }); }
+            }),
+            page: options.page,
+            updatedProperties: []
+        };
+
+        this.context = context as unknown as ComponentFramework.Context<TInputs>;
+    }
+
+    /**
+     * Callback to pass to the control's init as notifyOutputChanged
+     */
+    public notifyOutputChanged = (): void => {
+        this.outputNotifications++;
+    };
+
+    /**
+     * Changes a parameter, as when a form script or the user edits the bound column; call the
+     * control's updateView afterwards, as the platform does
+     */
+    public setParameter(name: string, raw: unknown): void {
+        this.parameters[name] = this.createProperty(name, raw);
+    }
+
+    /**
+     * Applies outputs the control returned from getOutputs to the bound parameters, as the form
+     * does after notifyOutputChanged
+     */
+    public applyOutputs(outputs: Record<string, unknown>): void {
+        Object.keys(outputs).forEach(name => this.setParameter(name, outputs[name] === undefined ? null : outputs[name]));
+    }
+
+    /**
+     * Disables or enables the control, as a read-only form or a deactivated record does
+     */
+    public setControlDisabled(isControlDisabled: boolean): void {
+        this.mode.isControlDisabled = isControlDisabled;
+    }
+
+    private createProperty(name: string, raw: unknown): ComponentFramework.PropertyTypes.Property {
+        const type = (this.options.parameterTypes || {})[name] || 'SingleLine.Text';
+        const security = (this.options.fieldSecurity || {})[name];
+
+        return {
+            raw,
+            formatted: raw === null || raw === undefined ? '' : String(raw),
+            type,
+            error: false,
+            errorMessage: '',
+            security: security ? { ...security, secured: true } : undefined
+        } as unknown as ComponentFramework.PropertyTypes.Property;
+    }
+}
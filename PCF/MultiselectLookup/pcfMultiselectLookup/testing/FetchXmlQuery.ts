@@ -0,0 +1,484 @@
+/**
+ * The FetchXML the controls send for directory views, interpreted against in-memory records:
+ * attribute, all-attributes, order, nested and/or filters, link-entity (inner and outer, conditions
+ * through entityname), page, count, top, paging-cookie and returntotalrecordcount.
+ *
+ * Conditions support eq, ne, neq, gt, ge, lt, le, like, not-like, begins-with, ends-with, in, not-in,
+ * null and not-null. Text is compared like OData text, ignoring case and accents. Lookup columns
+ * are read from their _x_value property, as FetchXML names them without it. Link entities keep a row
+ * when a linked record matches (inner) or always (outer); rows are not repeated per linked record.
+ * Parsing needs DOMParser, so it runs in a browser or a DOM test environment.
+ */
+
+import { normaliseSearchText } from '../helpers';
+import { ODataRecord, ODataSyntaxError, compareValues } from './ODataQuery';
+
+export interface FetchXmlCondition {
+    /** Alias of the link entity the column belongs to; null for the row's own column */
+    entityName: string | null;
+    attribute: string;
+    operator: string;
+    values: string[];
+}
+
+export interface FetchXmlFilter {
+    type: 'and' | 'or';
+    conditions: FetchXmlCondition[];
+    filters: FetchXmlFilter[];
+}
+
+export interface FetchXmlLink {
+    name: string;
+    from: string;
+    to: string;
+    alias: string;
+    outer: boolean;
+    attributes: string[];
+    filters: FetchXmlFilter[];
+    links: FetchXmlLink[];
+}
+
+export interface FetchXmlOrder {
+    attribute: string;
+    descending: boolean;
+}
+
+export interface FetchXmlQueryOptions {
+    entityName: string;
+    /** Columns to return; null for all-attributes */
+    attributes: string[] | null;
+    orders: FetchXmlOrder[];
+    /** Filters directly under the entity; all of them must match */
+    filters: FetchXmlFilter[];
+    links: FetchXmlLink[];
+    page: number;
+    count: number | null;
+    top: number | null;
+    /** Values of the last row of the page before by column, read from the paging cookie */
+    pagingCookie: Record<string, string> | null;
+    returnTotalRecordCount: boolean;
+}
+
+/**
+ * Tables and keys of the store the query runs against
+ */
+export interface FetchXmlSource {
+    getTable(entityType: string): ODataRecord[];
+    getPrimaryKey(entityType: string): string;
+}
+
+interface FetchXmlRow {
+    record: ODataRecord;
+    /** Linked record per alias; null when an outer link found none */
+    linked: Record<string, ODataRecord | null>;
+}
+
+const formattedValue = '@OData.Community.Display.V1.FormattedValue';
+const supportedOperators = ['eq', 'ne', 'neq', 'gt', 'ge', 'lt', 'le', 'like', 'not-like', 'begins-with', 'ends-with',
+    'in', 'not-in', 'null', 'not-null'];
+// The server counts at most 5000 records
+const totalCountLimit = 5000;
+const defaultCount = 5000;
+
+/**
+ * Parses a FetchXML query. Aggregate queries and operators outside the supported set fail with
+ * ODataSyntaxError, as the real Web API answers them differently from what a test would expect.
+ */
+export function parseFetchXml(fetchXml: string): FetchXmlQueryOptions {
+    const document = new DOMParser().parseFromString(fetchXml, 'text/xml');
+    const fetch = document.documentElement;
+    if (!fetch || fetch.tagName !== 'fetch' || document.getElementsByTagName('parsererror').length > 0) {
+        throw new ODataSyntaxError('FetchXML is not valid XML with a <fetch> root');
+    }
+    if (fetch.getAttribute('aggregate') === 'true') {
+        throw new ODataSyntaxError('Aggregate FetchXML is not supported');
+    }
+
+    const entity = childElements(fetch, 'entity')[0];
+    if (!entity || !entity.getAttribute('name')) {
+        throw new ODataSyntaxError('FetchXML has no <entity>');
+    }
+
+    return {
+        entityName: entity.getAttribute('name')!,
+        attributes: childElements(entity, 'all-attributes').length > 0 ? null : readAttributes(entity),
+        orders: childElements(entity, 'order').map(order => ({
+            attribute: requireAttribute(order, 'attribute'),
+            descending: order.getAttribute('descending') === 'true'
+        })),
+        filters: childElements(entity, 'filter').map(readFilter),
+        links: childElements(entity, 'link-entity').map(readLink),
+        page: readNumber(fetch, 'page') ?? 1,
+        count: readNumber(fetch, 'count'),
+        top: readNumber(fetch, 'top'),
+        pagingCookie: readPagingCookie(fetch.getAttribute('paging-cookie')),
+        returnTotalRecordCount: fetch.getAttribute('returntotalrecordcount') === 'true'
+    };
+}
+
+/**
+ * Runs a FetchXML query and answers like retrieveMultipleRecords does: the page of entities, the
+ * paging cookie and morerecords annotations, and the total count when it was asked for
+ * @param fetchXml Query text, already URL-decoded
+ * @param entityType Table named in the call; must be the query's entity
+ * @param source Tables to read
+ */
+export function executeFetchXml(fetchXml: string, entityType: string, source: FetchXmlSource): ComponentFramework.WebApi.RetrieveMultipleResponse {
+    const query = parseFetchXml(fetchXml);
+    if (query.entityName !== entityType) {
+        throw new ODataSyntaxError(`FetchXML for ${query.entityName} was sent to ${entityType}`);
+    }
+    if (query.top !== null && (query.count !== null || query.pagingCookie !== null)) {
+        throw new ODataSyntaxError('FetchXML top cannot be combined with paging');
+    }
+
+    const primaryKey = source.getPrimaryKey(entityType);
+    const rows = sortRows(
+        source.getTable(entityType)
+            .map((record): FetchXmlRow => ({ record, linked: {} }))
+            .filter(row => joinLinks(row, row.record, query.links, source))
+            .filter(row => query.filters.every(filter => matchesFetchFilter(row, row.record, filter))),
+        query.orders
+    );
+
+    let start: number;
+    let count: number;
+    if (query.top !== null) {
+        start = 0;
+        count = query.top;
+    } else {
+        count = query.count ?? defaultCount;
+        // The cookie continues after the last row it names; without one the server counts to the page
+        const lastId = query.pagingCookie ? query.pagingCookie[primaryKey] : undefined;
+        const cookieIndex = lastId === undefined
+            ? -1
+            : rows.findIndex(row => compareValues(row.record[primaryKey], lastId) === 0);
+        start = cookieIndex !== -1 ? cookieIndex + 1 : (query.page - 1) * count;
+    }
+
+    const page = rows.slice(start, start + count);
+    const moreRecords = query.top === null && start + count < rows.length;
+    const response = {
+        entities: page.map(row => projectRow(row, query, primaryKey))
+    } as ComponentFramework.WebApi.RetrieveMultipleResponse & Record<string, unknown>;
+
+    response['@Microsoft.Dynamics.CRM.morerecords'] = moreRecords;
+    if (moreRecords && page.length > 0) {
+        response['@Microsoft.Dynamics.CRM.fetchxmlpagingcookie'] = buildPagingCookie(query.page, primaryKey, page[0].record, page[page.length - 1].record);
+    }
+    if (query.returnTotalRecordCount) {
+        response['@Microsoft.Dynamics.CRM.totalrecordcount'] = Math.min(rows.length, totalCountLimit);
+        response['@Microsoft.Dynamics.CRM.totalrecordcountlimitexceeded'] = rows.length > totalCountLimit;
+    }
+    return response;
+}
+
+function readAttributes(parent: Element): string[] {
+    return childElements(parent, 'attribute').map(attribute => requireAttribute(attribute, 'name'));
+}
+
+function readFilter(filter: Element): FetchXmlFilter {
+    const type = filter.getAttribute('type') || 'and';
+    if (type !== 'and' && type !== 'or') {
+        throw new ODataSyntaxError(`FetchXML filter type "${type}" is not supported`);
+    }
+
+    return {
+        type,
+        conditions: childElements(filter, 'condition').map(condition => {
+            const operator = requireAttribute(condition, 'operator');
+            if (supportedOperators.indexOf(operator) === -1) {
+                throw new ODataSyntaxError(`FetchXML operator "${operator}" is not supported`);
+            }
+
+            const value = condition.getAttribute('value');
+            const values = childElements(condition, 'value').map(element => element.textContent || '');
+            return {
+                entityName: condition.getAttribute('entityname'),
+                attribute: requireAttribute(condition, 'attribute'),
+                operator,
+                values: value !== null ? [value, ...values] : values
+            };
+        }),
+        filters: childElements(filter, 'filter').map(readFilter)
+    };
+}
+
+function readLink(link: Element): FetchXmlLink {
+    const name = requireAttribute(link, 'name');
+    const linkType = link.getAttribute('link-type') || 'inner';
+    if (linkType !== 'inner' && linkType !== 'outer') {
+        throw new ODataSyntaxError(`FetchXML link-type "${linkType}" is not supported`);
+    }
+
+    return {
+        name,
+        from: requireAttribute(link, 'from'),
+        to: requireAttribute(link, 'to'),
+        alias: link.getAttribute('alias') || name,
+        outer: linkType === 'outer',
+        attributes: readAttributes(link),
+        filters: childElements(link, 'filter').map(readFilter),
+        links: childElements(link, 'link-entity').map(readLink)
+    };
+}
+
+function readNumber(element: Element, name: string): number | null {
+    const text = element.getAttribute(name);
+    if (text === null) {
+        return null;
+    }
+
+    const number = Number(text);
+    if (!Number.isInteger(number) || number < 0) {
+        throw new ODataSyntaxError(`FetchXML ${name} must be a non-negative integer, got "${text}"`);
+    }
+    return number;
+}
+
+function requireAttribute(element: Element, name: string): string {
+    const value = element.getAttribute(name);
+    if (!value) {
+        throw new ODataSyntaxError(`FetchXML <${element.tagName}> needs a ${name} attribute`);
+    }
+    return value;
+}
+
+/**
+ * Reads the last values from a paging cookie such as
+ * <cookie page="1"><systemuserid last="{...}" first="{...}" /></cookie>
+ */
+function readPagingCookie(cookie: string | null): Record<string, string> | null {
+    if (!cookie) {
+        return null;
+    }
+
+    const document = new DOMParser().parseFromString(cookie, 'text/xml');
+    const root = document.documentElement;
+    if (!root || root.tagName !== 'cookie' || document.getElementsByTagName('parsererror').length > 0) {
+        throw new ODataSyntaxError('FetchXML paging-cookie is not a <cookie> element');
+    }
+
+    const values: Record<string, string> = {};
+    Array.from(root.children).forEach(element => {
+        values[element.tagName] = (element.getAttribute('last') || '').replace(/^\{(.*)\}$/, '$1');
+    });
+    return values;
+}
+
+/**
+ * Builds the annotation the server returns: a cookie element whose pagingcookie attribute holds
+ * the cookie to send back, URL-encoded twice
+ */
+function buildPagingCookie(page: number, primaryKey: string, first: ODataRecord, last: ODataRecord): string {
+    const cookie = `<cookie page="${page}"><${primaryKey} last="{${String(last[primaryKey]).toUpperCase()}}" ` +
+        `first="{${String(first[primaryKey]).toUpperCase()}}" /></cookie>`;
+    return `<cookie pagenumber="${page + 1}" pagingcookie="${encodeURIComponent(encodeURIComponent(cookie))}" istracking="False" />`;
+}
+
+/**
+ * Adds the linked records of a row
+ * @returns False when an inner link finds no matching record, which drops the row
+ */
+function joinLinks(row: FetchXmlRow, parent: ODataRecord, links: FetchXmlLink[], source: FetchXmlSource): boolean {
+    for (const link of links) {
+        const candidates = findLinked(link, readColumn(parent, link.to), parent, source);
+        const joined = candidates
+            .map((candidate): FetchXmlRow => ({ record: row.record, linked: { ...row.linked, [link.alias]: candidate } }))
+            .find(candidateRow => {
+                const candidate = candidateRow.linked[link.alias]!;
+                return joinLinks(candidateRow, candidate, link.links, source) &&
+                    link.filters.every(filter => matchesFetchFilter(candidateRow, candidate, filter));
+            });
+
+        if (joined) {
+            Object.assign(row.linked, joined.linked);
+        } else if (link.outer) {
+            setUnmatched(row, [link]);
+        } else {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Outer links without a match, and the links below them, read as null
+ */
+function setUnmatched(row: FetchXmlRow, links: FetchXmlLink[]): void {
+    links.forEach(link => {
+        row.linked[link.alias] = null;
+        setUnmatched(row, link.links);
+    });
+}
+
+/**
+ * Finds the records of a link: in the seeded table, or else in the navigation property of the
+ * lookup (the fixtures carry the business unit that way)
+ */
+function findLinked(link: FetchXmlLink, key: unknown, parent: ODataRecord, source: FetchXmlSource): ODataRecord[] {
+    if (key === null || key === undefined) {
+        return [];
+    }
+
+    const table = source.getTable(link.name);
+    if (table.length > 0) {
+        return table.filter(record => compareValues(readColumn(record, link.from), key) === 0);
+    }
+
+    const navigation = parent[link.to];
+    return navigation && typeof navigation === 'object' && !Array.isArray(navigation) &&
+        compareValues((navigation as ODataRecord)[link.from], key) === 0
+        ? [navigation as ODataRecord]
+        : [];
+}
+
+function matchesFetchFilter(row: FetchXmlRow, record: ODataRecord, filter: FetchXmlFilter): boolean {
+    const results = [
+        ...filter.conditions.map(condition => matchesCondition(row, record, condition)),
+        ...filter.filters.map(inner => matchesFetchFilter(row, record, inner))
+    ];
+    return filter.type === 'and' ? results.every(result => result) : results.some(result => result);
+}
+
+function matchesCondition(row: FetchXmlRow, record: ODataRecord, condition: FetchXmlCondition): boolean {
+    const target = condition.entityName ? row.linked[condition.entityName] : record;
+    if (target === undefined) {
+        throw new ODataSyntaxError(`FetchXML condition refers to unknown entity "${condition.entityName}"`);
+    }
+
+    const value = target === null ? null : readColumn(target, condition.attribute);
+    const isNull = value === null || value === undefined;
+    const values = condition.values.map(text => coerce(text, value));
+    const first = values[0];
+
+    switch (condition.operator) {
+        case 'null': return isNull;
+        case 'not-null': return !isNull;
+        case 'eq': return !isNull && compareValues(value, first) === 0;
+        case 'ne':
+        case 'neq': return isNull || compareValues(value, first) !== 0;
+        case 'in': return !isNull && values.some(candidate => compareValues(value, candidate) === 0);
+        case 'not-in': return isNull || values.every(candidate => compareValues(value, candidate) !== 0);
+        case 'gt': return !isNull && compareValues(value, first) > 0;
+        case 'ge': return !isNull && compareValues(value, first) >= 0;
+        case 'lt': return !isNull && compareValues(value, first) < 0;
+        case 'le': return !isNull && compareValues(value, first) <= 0;
+        case 'like': return !isNull && likePattern(condition.values[0]).test(normaliseSearchText(String(value)));
+        case 'not-like': return isNull || !likePattern(condition.values[0]).test(normaliseSearchText(String(value)));
+        case 'begins-with': return !isNull && normaliseSearchText(String(value)).startsWith(normaliseSearchText(condition.values[0]));
+        default: return !isNull && normaliseSearchText(String(value)).endsWith(normaliseSearchText(condition.values[0]));
+    }
+}
+
+/**
+ * Reads a column by its FetchXML name; lookups are stored as _x_value
+ */
+function readColumn(record: ODataRecord, column: string): unknown {
+    const lookupKey = `_${column}_value`;
+    const value = lookupKey in record ? record[lookupKey] : record[column];
+    return value === undefined ? null : value;
+}
+
+/**
+ * Condition values are text; they are read as the type of the column they are compared with
+ */
+function coerce(text: string, like: unknown): unknown {
+    if (typeof like === 'number') {
+        return Number(text);
+    }
+    if (typeof like === 'boolean') {
+        return text === '1' || text.toLowerCase() === 'true';
+    }
+    return text.replace(/^\{(.*)\}$/, '$1');
+}
+
+/**
+ * Turns a like pattern into a regular expression: % and _ are wildcards, [x] is a literal x
+ */
+function likePattern(pattern: string): RegExp {
+    let expression = '';
+    const text = normaliseSearchText(pattern || '');
+
+    for (let index = 0; index < text.length; index++) {
+        const character = text[index];
+        if (character === '[' && text[index + 2] === ']') {
+            expression += escapeRegExp(text[index + 1]);
+            index += 2;
+        } else if (character === '%') {
+            expression += '[\\s\\S]*';
+        } else if (character === '_') {
+            expression += '[\\s\\S]';
+        } else {
+            expression += escapeRegExp(character);
+        }
+    }
+    return new RegExp(`^${expression}$`);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function sortRows(rows: FetchXmlRow[], orders: FetchXmlOrder[]): FetchXmlRow[] {
+    if (orders.length === 0) {
+        return rows;
+    }
+
+    return [...rows].sort((a, b) => {
+        for (const order of orders) {
+            const result = compareValues(readColumn(a.record, order.attribute), readColumn(b.record, order.attribute));
+            if (result !== 0) {
+                return order.descending ? -result : result;
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * Keeps the requested columns, lookups as _x_value with their formatted value, and the linked
+ * columns as <alias>.<column>
+ */
+function projectRow(row: FetchXmlRow, query: FetchXmlQueryOptions, primaryKey: string): ODataRecord {
+    const result: ODataRecord = { [primaryKey]: row.record[primaryKey] };
+    const columns = query.attributes === null
+        ? Object.keys(row.record).filter(key => key.indexOf('@') === -1 && !isNavigation(row.record[key]))
+        : query.attributes;
+
+    columns.forEach(column => copyColumn(row.record, column, result, ''));
+    const addLinked = (links: FetchXmlLink[]): void => links.forEach(link => {
+        const linked = row.linked[link.alias];
+        link.attributes.forEach(column => {
+            if (linked) {
+                copyColumn(linked, column, result, `${link.alias}.`);
+            } else {
+                result[`${link.alias}.${column}`] = null;
+            }
+        });
+        addLinked(link.links);
+    });
+    addLinked(query.links);
+
+    return result;
+}
+
+function copyColumn(record: ODataRecord, column: string, result: ODataRecord, prefix: string): void {
+    const lookupKey = `_${column}_value`;
+    const key = !prefix && lookupKey in record ? lookupKey : column;
+    const sourceKey = lookupKey in record ? lookupKey : column;
+
+    result[`${prefix}${key}`] = record[sourceKey] === undefined ? null : record[sourceKey];
+    if (record[`${sourceKey}${formattedValue}`] !== undefined) {
+        result[`${prefix}${key}${formattedValue}`] = record[`${sourceKey}${formattedValue}`];
+    }
+}
+
+function isNavigation(value: unknown): boolean {
+    return value !== null && typeof value === 'object';
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+    return Array.from(parent.childNodes)
+        .filter((node): node is Element => node.nodeType === 1 && (node as Element).tagName === tagName);
+}
@@ -0,0 +1,258 @@
+/**
+ * Stand-in for ComponentFramework.WebApi that answers from seeded tables instead of Dataverse, so the
+ * services and components can run without an environment. Queries are interpreted by ODataQuery,
+ * or by FetchXmlQuery when they carry a fetchXml option (directory views); latency and failures can be injected to exercise loading states, stale responses and retries.
+ */
+
+import {
+    ODataRecord,
+    parseODataQuery,
+    matchesFilter,
+    sortRecords,
+    selectColumns,
+    splitOptions,
+    formatODataOptions
+} from './ODataQuery';
+import { executeFetchXml } from './FetchXmlQuery';
+
+export type WebApiOperation = 'createRecord' | 'updateRecord' | 'deleteRecord' | 'retrieveRecord' | 'retrieveMultipleRecords';
+
+/**
+ * One call received by the fake, in the order received
+ */
+export interface WebApiRequest {
+    operation: WebApiOperation;
+    entityType: string;
+    id?: string;
+    options?: string;
+    maxPageSize?: number;
+}
+
+/**
+ * Failure to return for matching calls
+ */
+export interface WebApiFault {
+    operation?: WebApiOperation;
+    entityType?: string;
+    /** Further condition on the call, e.g. its query */
+    when?: (request: WebApiRequest) => boolean;
+    /** Number of calls that fail; unlimited when omitted */
+    times?: number;
+    /** Error to reject with; a generic server error when omitted */
+    error?: Error;
+}
+
+export interface InMemoryWebApiOptions {
+    /** Records per table (logical name), e.g. { systemuser: createSystemUserFixtures({ count: 50 }) } */
+    tables?: Record<string, ODataRecord[]>;
+    /** Primary key per table when it is not <logical name>id */
+    primaryKeys?: Record<string, string>;
+    /** Delay before each answer, fixed or per call */
+    latencyMs?: number | ((request: WebApiRequest) => number);
+    /** Whether $count=true answers with @odata.count; hosts that drop it make the services count page by page */
+    surfaceCount?: boolean;
+}
+
+/**
+ * Error shaped like the ones the platform rejects with (an errorCode next to the message)
+ */
+export class FakeWebApiError extends Error {
+    public errorCode: number;
+
+    constructor(message: string, errorCode: number = -2147220970) {
+        super(message);
+        this.name = 'FakeWebApiError';
+        this.errorCode = errorCode;
+    }
+}
+
+const defaultPageSize = 5000;
+const notFoundErrorCode = -2147220969;
+const baseUrl = 'https://fake.crm.dynamics.com/api/data/v9.2/';
+
+export class InMemoryWebApi implements ComponentFramework.WebApi {
+    /** Every call received, for assertions on the queries the services send */
+    public readonly requests: WebApiRequest[] = [];
+
+    private tables: Map<string, ODataRecord[]> = new Map();
+    private primaryKeys: Record<string, string>;
+    private latencyMs: number | ((request: WebApiRequest) => number);
+    private surfaceCount: boolean;
+    private faults: WebApiFault[] = [];
+    private nextId: number = 1;
+
+    constructor(options: InMemoryWebApiOptions = {}) {
+        this.primaryKeys = options.primaryKeys || {};
+        this.latencyMs = options.latencyMs || 0;
+        this.surfaceCount = options.surfaceCount !== false;
+
+        Object.keys(options.tables || {}).forEach(entityType => this.seed(entityType, options.tables![entityType]));
+    }
+
+    /**
+     * Adds records to a table; the records are copied, so fixtures can be reused between tests
+     */
+    public seed(entityType: string, records: ODataRecord[]): void {
+        const table = this.getTable(entityType);
+        table.push(...records.map(record => ({ ...record })));
+    }
+
+    /**
+     * Gets the current records of a table, e.g. to check what a control created or updated
+     */
+    public getRecords(entityType: string): ODataRecord[] {
+        return this.getTable(entityType);
+    }
+
+    /**
+     * Changes the delay of later calls
+     */
+    public setLatency(latencyMs: number | ((request: WebApiRequest) => number)): void {
+        this.latencyMs = latencyMs;
+    }
+
+    /**
+     * Makes matching calls fail. Faults are checked in the order added; the first match applies.
+     */
+    public injectFault(fault: WebApiFault): void {
+        this.faults.push({ ...fault });
+    }
+
+    /**
+     * Removes the injected faults and forgets the recorded calls
+     */
+    public reset(): void {
+        this.faults = [];
+        this.requests.length = 0;
+    }
+
+    public async createRecord(entityType: string, data: ComponentFramework.WebApi.Entity): Promise<ComponentFramework.LookupValue> {
+        await this.receive({ operation: 'createRecord', entityType });
+
+        const primaryKey = this.getPrimaryKey(entityType);
+        const id = String(data[primaryKey] || this.createId());
+        this.getTable(entityType).push({ ...data, [primaryKey]: id });
+
+        return { entityType, id, name: String(data.name || data.fullname || '') };
+    }
+
+    public async updateRecord(entityType: string, id: string, data: ComponentFramework.WebApi.Entity): Promise<ComponentFramework.LookupValue> {
+        await this.receive({ operation: 'updateRecord', entityType, id });
+
+        const record = this.findRecord(entityType, id);
+        Object.assign(record, data);
+
+        return { entityType, id: String(record[this.getPrimaryKey(entityType)]) };
+    }
+
+    public async deleteRecord(entityType: string, id: string): Promise<ComponentFramework.LookupValue> {
+        await this.receive({ operation: 'deleteRecord', entityType, id });
+
+        const table = this.getTable(entityType);
+        table.splice(table.indexOf(this.findRecord(entityType, id)), 1);
+
+        return { entityType, id };
+    }
+
+    public async retrieveRecord(entityType: string, id: string, options?: string): Promise<ComponentFramework.WebApi.Entity> {
+        await this.receive({ operation: 'retrieveRecord', entityType, id, options });
+
+        const query = parseODataQuery(options);
+        return selectColumns(this.findRecord(entityType, id), query.select, this.getPrimaryKey(entityType));
+    }
+
+    public async retrieveMultipleRecords(entityType: string, options?: string, maxPageSize?: number): Promise<ComponentFramework.WebApi.RetrieveMultipleResponse> {
+        await this.receive({ operation: 'retrieveMultipleRecords', entityType, options, maxPageSize });
+
+        // Views page with the paging cookie inside the FetchXML, so maxPageSize does not apply
+        const fetchXml = splitOptions((options || '').replace(/^\?/, '')).find(([name]) => name === 'fetchXml');
+        if (fetchXml) {
+            return executeFetchXml(fetchXml[1], entityType, {
+                getTable: table => this.getTable(table),
+                getPrimaryKey: table => this.getPrimaryKey(table)
+            });
+        }
+
+        const query = parseODataQuery(options);
+        const matching = sortRecords(this.getTable(entityType).filter(record => matchesFilter(record, query.filter)), query.orderBy);
+        const limited = query.top === null ? matching : matching.slice(0, query.top);
+
+        const pageSize = maxPageSize && maxPageSize > 0 ? maxPageSize : defaultPageSize;
+        const end = query.skip + pageSize;
+        // The platform leaves nextLink out on the last page, although the typings declare it
+        const response = {
+            entities: limited.slice(query.skip, end).map(record => selectColumns(record, query.select, this.getPrimaryKey(entityType)))
+        } as ComponentFramework.WebApi.RetrieveMultipleResponse & Record<string, unknown>;
+
+        if (end < limited.length) {
+            response.nextLink = this.buildNextLink(entityType, options, end);
+        }
+        if (query.count && this.surfaceCount) {
+            // The server counts at most 5000 records
+            response['@odata.count'] = Math.min(limited.length, defaultPageSize);
+        }
+        return response;
+    }
+
+    /**
+     * Records the call, waits for the latency, then fails it when a fault matches
+     */
+    private async receive(request: WebApiRequest): Promise<void> {
+        this.requests.push(request);
+
+        const latency = typeof this.latencyMs === 'function' ? this.latencyMs(request) : this.latencyMs;
+        if (latency > 0) {
+            await new Promise(resolve => setTimeout(resolve, latency));
+        }
+
+        const fault = this.faults.find(candidate =>
+            (!candidate.operation || candidate.operation === request.operation) &&
+            (!candidate.entityType || candidate.entityType === request.entityType) &&
+            (!candidate.when || candidate.when(request)));
+
+        if (fault) {
+            if (fault.times !== undefined && --fault.times <= 0) {
+                this.faults.splice(this.faults.indexOf(fault), 1);
+            }
+            throw fault.error || new FakeWebApiError(`Injected failure for ${request.operation} on ${request.entityType}`);
+        }
+    }
+
+    /**
+     * Next links repeat the query with the position of the next page as $skiptoken, like the server's
+     * paging cookie; the services pass their search part back as the options
+     */
+    private buildNextLink(entityType: string, options: string | undefined, skip: number): string {
+        const rest = splitOptions((options || '').replace(/^\?/, '')).filter(([name]) => name !== '$skiptoken');
+        return `${baseUrl}${entityType}s${formatODataOptions([...rest, ['$skiptoken', String(skip)]])}`;
+    }
+
+    private findRecord(entityType: string, id: string): ODataRecord {
+        const primaryKey = this.getPrimaryKey(entityType);
+        const key = id.replace(/[{}]/g, '').toLowerCase();
+        const record = this.getTable(entityType).find(candidate => String(candidate[primaryKey]).toLowerCase() === key);
+
+        if (!record) {
+            throw new FakeWebApiError(`${entityType} With Id = ${key} Does Not Exist`, notFoundErrorCode);
+        }
+        return record;
+    }
+
+    private getTable(entityType: string): ODataRecord[] {
+        let table = this.tables.get(entityType);
+        if (!table) {
+            table = [];
+            this.tables.set(entityType, table);
+        }
+        return table;
+    }
+
+    private getPrimaryKey(entityType: string): string {
+        return this.primaryKeys[entityType] || `${entityType}id`;
+    }
+
+    private createId(): string {
+        const counter = (this.nextId++).toString(16).padStart(12, '0');
+        return `00000000-0000-4000-8000-${counter}`;
+    }
+}
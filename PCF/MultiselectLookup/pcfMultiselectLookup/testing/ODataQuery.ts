@@ -0,0 +1,539 @@
+/**
+ * The OData subset the controls send to the Web API, interpreted against in-memory records:
+ * $select, $filter, $orderby, $top, $count and the $skiptoken of next links.
+ *
+ * Filters support eq, ne, gt, ge, lt and le; and, or, not and parentheses; contains, startswith
+ * and endswith; lookup paths (businessunitid/name) and any() over collection-valued navigation
+ * properties (systemuserroles_association/any(r:r/name eq 'Salesperson')). Text is compared the way
+ * the server's default collation does, ignoring case and accents.
+ */
+
+import { normaliseSearchText } from '../helpers';
+
+export type ODataRecord = Record<string, unknown>;
+
+export interface ODataOrderBy {
+    path: string[];
+    descending: boolean;
+}
+
+export interface ODataQueryOptions {
+    /** Columns to return; empty returns every column */
+    select: string[];
+    filter: ODataExpression | null;
+    orderBy: ODataOrderBy[];
+    top: number | null;
+    count: boolean;
+    /** Records already returned by previous pages */
+    skip: number;
+    /** Options other than the ones above, kept so next links repeat them */
+    rawOptions: [string, string][];
+}
+
+export type ODataComparison = 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le';
+export type ODataFunction = 'contains' | 'startswith' | 'endswith';
+
+export type ODataExpression =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'path'; path: string[] }
+    | { kind: 'compare'; operator: ODataComparison; left: ODataExpression; right: ODataExpression }
+    | { kind: 'logical'; operator: 'and' | 'or'; left: ODataExpression; right: ODataExpression }
+    | { kind: 'not'; operand: ODataExpression }
+    | { kind: 'function'; name: ODataFunction; args: ODataExpression[] }
+    | { kind: 'any'; path: string[]; variable: string; predicate: ODataExpression };
+
+/**
+ * Thrown for query text the interpreter does not understand; the real Web API answers such
+ * queries with a 400 error, so tests see a failure instead of silently wrong results
+ */
+export class ODataSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ODataSyntaxError';
+    }
+}
+
+type Token =
+    | { type: 'string'; value: string }
+    | { type: 'number'; value: number }
+    | { type: 'guid'; value: string }
+    | { type: 'word'; value: string }
+    | { type: 'symbol'; value: '(' | ')' | ',' | ':' | '/' };
+
+const comparisons: ODataComparison[] = ['eq', 'ne', 'gt', 'ge', 'lt', 'le'];
+const functions: ODataFunction[] = ['contains', 'startswith', 'endswith'];
+const guidToken = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}/;
+const wordToken = /^[A-Za-z_][A-Za-z0-9_.@]*/;
+const numberToken = /^-?\d+(\.\d+)?/;
+
+/**
+ * Parses the options string passed to retrieveMultipleRecords (with or without the leading "?",
+ * URL-encoded or not)
+ */
+export function parseODataQuery(options: string | undefined): ODataQueryOptions {
+    const query: ODataQueryOptions = { select: [], filter: null, orderBy: [], top: null, count: false, skip: 0, rawOptions: [] };
+
+    splitOptions((options || '').replace(/^\?/, '')).forEach(([name, value]) => {
+        switch (name) {
+            case '$select':
+                query.select = value.split(',').map(column => column.trim()).filter(column => column);
+                break;
+            case '$filter':
+                query.filter = parseFilter(value);
+                break;
+            case '$orderby':
+                query.orderBy = value.split(',').map(parseOrderBy);
+                break;
+            case '$top':
+                query.top = parseNonNegative(name, value);
+                break;
+            case '$count':
+                query.count = value.trim().toLowerCase() === 'true';
+                break;
+            case '$skiptoken':
+                query.skip = parseNonNegative(name, value);
+                break;
+            case 'fetchXml':
+                // Answering with every record would hide what the view filters out
+                throw new ODataSyntaxError('FetchXML is not an OData option; read it with executeFetchXml');
+            default:
+                if (name.startsWith('$')) {
+                    throw new ODataSyntaxError(`Query option ${name} is not supported`);
+                }
+                query.rawOptions.push([name, value]);
+        }
+    });
+
+    return query;
+}
+
+/**
+ * Parses a $filter expression
+ */
+export function parseFilter(text: string): ODataExpression {
+    const parser = new FilterParser(tokenise(text));
+    return parser.parseAll();
+}
+
+/**
+ * Evaluates a parsed filter against a record
+ */
+export function matchesFilter(record: ODataRecord, filter: ODataExpression | null): boolean {
+    return filter === null || evaluate(filter, record, {}) === true;
+}
+
+/**
+ * Sorts records by $orderby; nulls sort first, as they do on the server
+ */
+export function sortRecords(records: ODataRecord[], orderBy: ODataOrderBy[]): ODataRecord[] {
+    if (orderBy.length === 0) {
+        return records;
+    }
+
+    return [...records].sort((a, b) => {
+        for (const order of orderBy) {
+            const result = compareValues(resolvePath(a, order.path, {}), resolvePath(b, order.path, {}));
+            if (result !== 0) {
+                return order.descending ? -result : result;
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * Keeps the selected columns of a record, with their annotations (formatted values). Selected
+ * columns the record does not have come back as null, like empty columns on the server.
+ */
+export function selectColumns(record: ODataRecord, select: string[], primaryKey: string): ODataRecord {
+    if (select.length === 0) {
+        return { ...record };
+    }
+
+    const result: ODataRecord = { [primaryKey]: record[primaryKey] };
+    select.forEach(column => {
+        result[column] = record[column] === undefined ? null : record[column];
+    });
+    Object.keys(record)
+        .filter(key => select.some(column => key.startsWith(`${column}@`)))
+        .forEach(key => { result[key] = record[key]; });
+
+    return result;
+}
+
+/**
+ * Writes query options back into an options string, for next links
+ */
+export function formatODataOptions(options: [string, string][]): string {
+    return '?' + options.map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('&');
+}
+
+/**
+ * Splits query options on "&" outside string literals and decodes them
+ */
+export function splitOptions(text: string): [string, string][] {
+    const parts: string[] = [];
+    let current = '';
+    let inString = false;
+
+    for (const character of text) {
+        if (character === "'") {
+            inString = !inString;
+        }
+        if (character === '&' && !inString) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += character;
+        }
+    }
+    parts.push(current);
+
+    return parts
+        .filter(part => part)
+        .map(part => {
+            const separator = part.indexOf('=');
+            const name = separator === -1 ? part : part.substring(0, separator);
+            const value = separator === -1 ? '' : part.substring(separator + 1);
+            return [decode(name).trim(), decode(value)];
+        });
+}
+
+/**
+ * Compares two values the way the server's default collation does: text ignoring case and accents,
+ * null before everything else
+ */
+export function compareValues(a: unknown, b: unknown): number {
+    const left = normaliseValue(a);
+    const right = normaliseValue(b);
+
+    if (left === right) return 0;
+    if (left === null) return -1;
+    if (right === null) return 1;
+    return left < right ? -1 : 1;
+}
+
+function normaliseValue(value: unknown): string | number | boolean | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (typeof value === 'string') {
+        return normaliseSearchText(value);
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return value;
+    }
+    return String(value);
+}
+
+function decode(text: string): string {
+    try {
+        return decodeURIComponent(text);
+    } catch {
+        // A literal "%" typed into a search box; the controls do not encode their queries
+        return text;
+    }
+}
+
+function parseNonNegative(name: string, value: string): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+        throw new ODataSyntaxError(`${name} must be a non-negative integer, got "${value}"`);
+    }
+    return number;
+}
+
+function parseOrderBy(clause: string): ODataOrderBy {
+    const [column, direction, ...rest] = clause.trim().split(/\s+/);
+    if (!column || rest.length > 0 || (direction && direction !== 'asc' && direction !== 'desc')) {
+        throw new ODataSyntaxError(`Cannot read $orderby clause "${clause}"`);
+    }
+    return { path: column.split('/'), descending: direction === 'desc' };
+}
+
+function tokenise(text: string): Token[] {
+    const tokens: Token[] = [];
+    let rest = text;
+
+    while (rest.length > 0) {
+        const whitespace = /^\s+/.exec(rest);
+        if (whitespace) {
+            rest = rest.substring(whitespace[0].length);
+            continue;
+        }
+
+        const character = rest[0];
+        if (character === '(' || character === ')' || character === ',' || character === ':' || character === '/') {
+            tokens.push({ type: 'symbol', value: character });
+            rest = rest.substring(1);
+            continue;
+        }
+
+        if (character === "'") {
+            let value = '';
+            let index = 1;
+            for (; index < rest.length; index++) {
+                if (rest[index] === "'") {
+                    if (rest[index + 1] === "'") {
+                        value += "'";
+                        index++;
+                        continue;
+                    }
+                    break;
+                }
+                value += rest[index];
+            }
+            if (index >= rest.length) {
+                throw new ODataSyntaxError(`Unterminated string in filter "${text}"`);
+            }
+            tokens.push({ type: 'string', value });
+            rest = rest.substring(index + 1);
+            continue;
+        }
+
+        const guid = guidToken.exec(rest);
+        if (guid) {
+            tokens.push({ type: 'guid', value: guid[0].toLowerCase() });
+            rest = rest.substring(guid[0].length);
+            continue;
+        }
+
+        const number = numberToken.exec(rest);
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]) });
+            rest = rest.substring(number[0].length);
+            continue;
+        }
+
+        const word = wordToken.exec(rest);
+        if (word) {
+            tokens.push({ type: 'word', value: word[0] });
+            rest = rest.substring(word[0].length);
+            continue;
+        }
+
+        throw new ODataSyntaxError(`Unexpected "${character}" in filter "${text}"`);
+    }
+
+    return tokens;
+}
+
+class FilterParser {
+    private tokens: Token[];
+    private position: number = 0;
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    public parseAll(): ODataExpression {
+        const expression = this.parseOr();
+        if (this.position < this.tokens.length) {
+            throw new ODataSyntaxError(`Unexpected ${this.describe(this.peek())} in filter`);
+        }
+        return expression;
+    }
+
+    private parseOr(): ODataExpression {
+        let left = this.parseAnd();
+        while (this.isWord('or')) {
+            this.position++;
+            left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): ODataExpression {
+        let left = this.parseUnary();
+        while (this.isWord('and')) {
+            this.position++;
+            left = { kind: 'logical', operator: 'and', left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    private parseUnary(): ODataExpression {
+        if (this.isWord('not')) {
+            this.position++;
+            return { kind: 'not', operand: this.parseUnary() };
+        }
+
+        const left = this.parseOperand();
+        const next = this.peek();
+        if (next && next.type === 'word' && comparisons.indexOf(next.value as ODataComparison) !== -1) {
+            this.position++;
+            return { kind: 'compare', operator: next.value as ODataComparison, left, right: this.parseOperand() };
+        }
+        return left;
+    }
+
+    private parseOperand(): ODataExpression {
+        const token = this.next();
+
+        if (token.type === 'symbol' && token.value === '(') {
+            const inner = this.parseOr();
+            this.expectSymbol(')');
+            return inner;
+        }
+        if (token.type === 'string' || token.type === 'number' || token.type === 'guid') {
+            return { kind: 'literal', value: token.value };
+        }
+        if (token.type !== 'word') {
+            throw new ODataSyntaxError(`Unexpected ${this.describe(token)} in filter`);
+        }
+
+        switch (token.value) {
+            case 'null':
+                return { kind: 'literal', value: null };
+            case 'true':
+                return { kind: 'literal', value: true };
+            case 'false':
+                return { kind: 'literal', value: false };
+        }
+
+        if (functions.indexOf(token.value as ODataFunction) !== -1 && this.isSymbol('(')) {
+            this.position++;
+            const args = [this.parseOr()];
+            while (this.isSymbol(',')) {
+                this.position++;
+                args.push(this.parseOr());
+            }
+            this.expectSymbol(')');
+            if (args.length !== 2) {
+                throw new ODataSyntaxError(`${token.value} takes two arguments`);
+            }
+            return { kind: 'function', name: token.value as ODataFunction, args };
+        }
+
+        const path = [token.value];
+        while (this.isSymbol('/')) {
+            this.position++;
+            const segment = this.next();
+            if (segment.type !== 'word') {
+                throw new ODataSyntaxError(`Unexpected ${this.describe(segment)} in path ${path.join('/')}`);
+            }
+
+            if (segment.value === 'any' && this.isSymbol('(')) {
+                this.position++;
+                const variable = this.next();
+                if (variable.type !== 'word') {
+                    throw new ODataSyntaxError(`any() needs a range variable after ${path.join('/')}`);
+                }
+                this.expectSymbol(':');
+                const predicate = this.parseOr();
+                this.expectSymbol(')');
+                return { kind: 'any', path, variable: variable.value, predicate };
+            }
+            path.push(segment.value);
+        }
+        return { kind: 'path', path };
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) {
+            throw new ODataSyntaxError('Filter ends unexpectedly');
+        }
+        return token;
+    }
+
+    private isWord(value: string): boolean {
+        const token = this.peek();
+        return !!token && token.type === 'word' && token.value === value;
+    }
+
+    private isSymbol(value: string): boolean {
+        const token = this.peek();
+        return !!token && token.type === 'symbol' && token.value === value;
+    }
+
+    private expectSymbol(value: string): void {
+        const token = this.next();
+        if (token.type !== 'symbol' || token.value !== value) {
+            throw new ODataSyntaxError(`Expected "${value}" but found ${this.describe(token)}`);
+        }
+    }
+
+    private describe(token: Token | undefined): string {
+        return token ? `${token.type} "${token.value}"` : 'end of filter';
+    }
+}
+
+function resolvePath(record: ODataRecord, path: string[], scope: Record<string, unknown>): unknown {
+    const [first, ...rest] = path;
+    let value: unknown = first in scope ? scope[first] : record[first];
+
+    for (const segment of rest) {
+        if (value === null || value === undefined || typeof value !== 'object') {
+            return null;
+        }
+        value = (value as ODataRecord)[segment];
+    }
+    return value === undefined ? null : value;
+}
+
+function evaluate(expression: ODataExpression, record: ODataRecord, scope: Record<string, unknown>): unknown {
+    switch (expression.kind) {
+        case 'literal':
+            return expression.value;
+
+        case 'path':
+            return resolvePath(record, expression.path, scope);
+
+        case 'not':
+            return evaluate(expression.operand, record, scope) !== true;
+
+        case 'logical': {
+            const left = evaluate(expression.left, record, scope) === true;
+            if (expression.operator === 'and') {
+                return left && evaluate(expression.right, record, scope) === true;
+            }
+            return left || evaluate(expression.right, record, scope) === true;
+        }
+
+        case 'compare': {
+            const left = evaluate(expression.left, record, scope);
+            const right = evaluate(expression.right, record, scope);
+            const leftNull = left === null || left === undefined;
+            const rightNull = right === null || right === undefined;
+
+            if (expression.operator === 'eq') return compareValues(left, right) === 0;
+            if (expression.operator === 'ne') return compareValues(left, right) !== 0;
+            // Ordering comparisons with null are never true
+            if (leftNull || rightNull) return false;
+
+            const result = compareValues(left, right);
+            switch (expression.operator) {
+                case 'gt': return result > 0;
+                case 'ge': return result >= 0;
+                case 'lt': return result < 0;
+                default: return result <= 0;
+            }
+        }
+
+        case 'function': {
+            const [text, search] = expression.args.map(arg => normaliseValue(evaluate(arg, record, scope)));
+            if (typeof text !== 'string' || typeof search !== 'string') {
+                return false;
+            }
+            switch (expression.name) {
+                case 'contains': return text.indexOf(search) !== -1;
+                case 'startswith': return text.startsWith(search);
+                default: return text.endsWith(search);
+            }
+        }
+
+        case 'any': {
+            const collection = resolvePath(record, expression.path, scope);
+            if (!Array.isArray(collection)) {
+                return false;
+            }
+            return collection.some(item =>
+                evaluate(expression.predicate, record, { ...scope, [expression.variable]: item }) === true);
+        }
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * Seeded directory data for the in-memory Web API. The same seed always gives the same users, so a
+ * test can name the people it expects; a different seed varies names, titles and edge cases.
+ */
+
+import { normaliseSearchText } from '../helpers';
+import { ODataRecord } from './ODataQuery';
+
+export interface SystemUserFixtureOptions {
+    /** Number of users to create */
+    count: number;
+    /** Seed of the pseudo-random generator */
+    seed?: number;
+    /** Email domain of the users */
+    domain?: string;
+    /** Business unit names; every user belongs to one of them */
+    businessUnits?: string[];
+    /** Security role names; every user holds one or two of them */
+    securityRoles?: string[];
+}
+
+export interface DirectoryFixtures {
+    systemusers: ODataRecord[];
+    teams: ODataRecord[];
+    queues: ODataRecord[];
+    contacts: ODataRecord[];
+    businessunits: ODataRecord[];
+}
+
+const firstNames = ['Aisha', 'Ben', 'Chloé', 'Dmitri', 'Elena', 'Fatima', 'George', 'Hana', 'Ivan', 'José',
+    'Kenji', 'Layla', 'Mohammed', 'Nora', "O'Brien", 'Priya', 'Quentin', 'Rania', 'Søren', 'Tariq'];
+const lastNames = ['Al-Farsi', 'Brown', 'Chen', 'Dubois', 'Evans', 'García', 'Haddad', 'Ibrahim', 'Jones',
+    'Khan', 'López', 'Müller', 'Nguyen', "O'Neil", 'Patel', 'Rossi', 'Smith', 'Tanaka', 'Williams', 'Zhang'];
+const titles = ['Legal Counsel', 'Paralegal', 'Records Officer', 'Finance Manager', 'Analyst', 'Director', null];
+
+/**
+ * Small deterministic generator (mulberry32), enough to vary fixtures between seeds
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return (): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let value = state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Creates a GUID from the generator, lower case without braces as the Web API returns them
+ */
+export function createFixtureId(random: () => number): string {
+    const hex = (length: number): string =>
+        Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('');
+    return `${hex(8)}-${hex(4)}-4${hex(3)}-a${hex(3)}-${hex(12)}`;
+}
+
+/**
+ * Creates systemuser records shaped like Web API results: lookups as _x_value with their formatted
+ * value, and the business unit and security roles as navigation properties for filters.
+ *
+ * Every tenth user is disabled, every fifteenth is an application user (applicationid set, no
+ * domain name) and some have no job title, so the directory filters have something to exclude.
+ * Users after the first report to an earlier user, which makes an org chart a few levels deep.
+ */
+export function createSystemUserFixtures(options: SystemUserFixtureOptions): ODataRecord[] {
+    const random = createRandom(options.seed ?? 1);
+    const domain = options.domain || 'contoso.com';
+    const businessUnits = (options.businessUnits || ['Legal', 'Finance', 'Operations'])
+        .map(name => ({ businessunitid: createFixtureId(random), name }));
+    const roles = options.securityRoles || ['Basic User', 'Salesperson', 'Legal Reviewer'];
+    const users: ODataRecord[] = [];
+    const usedEmails = new Set<string>();
+
+    for (let index = 0; index < options.count; index++) {
+        const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+        const firstname = pick(firstNames);
+        const lastname = pick(lastNames);
+        const businessUnit = pick(businessUnits);
+        const title = pick(titles);
+        const manager = index === 0 ? null : users[Math.floor(random() * index)];
+        const isApplicationUser = index > 0 && index % 15 === 0;
+
+        // Same names happen in real directories; their addresses get a number
+        const localPart = normaliseSearchText(`${firstname}.${lastname}`).replace(/[^a-z.-]/g, '');
+        let email = `${localPart}@${domain}`;
+        for (let suffix = 2; usedEmails.has(email); suffix++) {
+            email = `${localPart}${suffix}@${domain}`;
+        }
+        usedEmails.add(email);
+
+        const userRoles = [pick(roles)];
+        if (random() < 0.3) {
+            userRoles.push(pick(roles.filter(role => role !== userRoles[0])));
+        }
+
+        users.push({
+            systemuserid: createFixtureId(random),
+            firstname,
+            lastname,
+            fullname: `${firstname} ${lastname}`,
+            nickname: random() < 0.1 ? firstname.substring(0, 3) : null,
+            internalemailaddress: email,
+            isdisabled: index > 0 && index % 10 === 0,
+            islicensed: !isApplicationUser,
+            domainname: isApplicationUser ? null : email,
+            applicationid: isApplicationUser ? createFixtureId(random) : null,
+            title,
+            address1_telephone1: `+1 555 01${String(index % 100).padStart(2, '0')}`,
+            '_businessunitid_value': businessUnit.businessunitid,
+            '_businessunitid_value@OData.Community.Display.V1.FormattedValue': businessUnit.name,
+            '_parentsystemuserid_value': manager ? manager.systemuserid : null,
+            '_parentsystemuserid_value@OData.Community.Display.V1.FormattedValue': manager ? manager.fullname : null,
+            businessunitid: businessUnit,
+            systemuserroles_association: userRoles.map(name => ({ name })),
+            teammembership_association: []
+        });
+    }
+
+    return users;
+}
+
+/**
+ * Creates a directory: users, two teams (one without a mailbox, which needs expanding), a
+ * business unit default team that is never offered, a queue and a few external contacts
+ */
+export function createDirectoryFixtures(options: SystemUserFixtureOptions): DirectoryFixtures {
+    const random = createRandom((options.seed ?? 1) + 1);
+    const domain = options.domain || 'contoso.com';
+    const systemusers = createSystemUserFixtures(options);
+    const activeUsers = systemusers.filter(user => !user.isdisabled && user.domainname);
+
+    const team = (name: string, emailaddress: string | null, isdefault: boolean, members: ODataRecord[]): ODataRecord => {
+        const teamid = createFixtureId(random);
+        members.forEach(member => (member.teammembership_association as ODataRecord[]).push({ teamid }));
+        return { teamid, name, emailaddress, isdefault, teamtype: 0 };
+    };
+
+    const businessunits = systemusers
+        .map(user => user.businessunitid as ODataRecord)
+        .filter((unit, index, units) => units.indexOf(unit) === index);
+
+    return {
+        systemusers,
+        businessunits,
+        teams: [
+            team('Legal Team', `legal@${domain}`, false, activeUsers.slice(0, 4)),
+            team('Review Board', null, false, activeUsers.slice(2, 7)),
+            team(String(businessunits.length > 0 ? businessunits[0].name : 'Root'), null, true, activeUsers)
+        ],
+        queues: [
+            { queueid: createFixtureId(random), name: 'Correspondence', emailaddress: `correspondence@${domain}`, statecode: 0 },
+            { queueid: createFixtureId(random), name: 'Archive', emailaddress: `archive@${domain}`, statecode: 1 }
+        ],
+        contacts: ['Alex Morgan', 'Sam Taylor', 'Jordan Lee'].map(fullname => ({
+            contactid: createFixtureId(random),
+            fullname,
+            emailaddress1: `${fullname.split(' ')[0].toLowerCase()}@fabrikam.com`,
+            statecode: 0
+        }))
+    };
+}
@@ -0,0 +1,52 @@
+// In-memory Web API and form host for running the controls without an environment.
+// Nothing here is imported by the control, so none of it is bundled.
+export {
+    type ODataRecord,
+    type ODataOrderBy,
+    type ODataQueryOptions,
+    type ODataComparison,
+    type ODataFunction,
+    type ODataExpression,
+    ODataSyntaxError,
+    parseODataQuery,
+    parseFilter,
+    matchesFilter,
+    sortRecords,
+    selectColumns,
+    compareValues
+} from './ODataQuery';
+
+export {
+    type FetchXmlCondition,
+    type FetchXmlFilter,
+    type FetchXmlLink,
+    type FetchXmlOrder,
+    type FetchXmlQueryOptions,
+    type FetchXmlSource,
+    parseFetchXml,
+    executeFetchXml
+} from './FetchXmlQuery';
+
+export {
+    InMemoryWebApi,
+    FakeWebApiError,
+    type WebApiOperation,
+    type WebApiRequest,
+    type WebApiFault,
+    type InMemoryWebApiOptions
+} from './InMemoryWebApi';
+
+export {
+    FakeControlHost,
+    type FakeControlHostOptions,
+    type FakeFieldSecurity
+} from './FakeControlHost';
+
+export {
+    type SystemUserFixtureOptions,
+    type DirectoryFixtures,
+    createRandom,
+    createFixtureId,
+    createSystemUserFixtures,
+    createDirectoryFixtures
+} from './SystemUserFixtures';